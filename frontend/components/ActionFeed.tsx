@@ -26,12 +26,14 @@ export interface ActionEntry {
   intent: Record<string, unknown> | null;
   stage: PipelineStage;
   result: {
-    status: "success" | "failure";
+    status: "success" | "failure" | "pending_approval";
     txHash?: string;
     explorerUrl?: string;
     errorCode?: string;
     errorMessage?: string;
     failedAt?: string;
+    approvalId?: string;
+    reason?: string;
   } | null;
 }
 
@@ -233,6 +235,7 @@ export default function ActionFeed({ entries }: ActionFeedProps) {
           {[...entries].reverse().map((entry) => {
             const isSuccess = entry.result?.status === "success";
             const isFailed = entry.result?.status === "failure";
+            const isAwaitingApproval = entry.result?.status === "pending_approval";
 
             return (
               <motion.div
@@ -265,6 +268,7 @@ export default function ActionFeed({ entries }: ActionFeedProps) {
                   )}
                   {isSuccess && <span className="badge badge-success" style={{ marginLeft: "auto" }}>Success</span>}
                   {isFailed && <span className="badge badge-failure" style={{ marginLeft: "auto" }}>Failed</span>}
+                  {isAwaitingApproval && <span className="badge" style={{ marginLeft: "auto" }}>Awaiting approval</span>}
                   {!entry.result && <span style={{ marginLeft: "auto", fontSize: 11, color: "var(--accent)" }}>Running…</span>}
                 </div>
 
@@ -321,6 +325,11 @@ export default function ActionFeed({ entries }: ActionFeedProps) {
                     <strong>{entry.result?.errorCode ?? "Error"}</strong>: {entry.result?.errorMessage}
                   </div>
                 )}
+                {isAwaitingApproval && (
+                  <div style={{ marginTop: 8, fontSize: 11, color: "var(--text-secondary)", background: "rgba(79,142,247,0.05)", borderRadius: 6, padding: "6px 10px" }}>
+                    {entry.result?.reason} — approval <span className="mono">{entry.result?.approvalId}</span>
+                  </div>
+                )}
               </motion.div>
             );
           })}
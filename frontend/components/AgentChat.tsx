@@ -314,21 +314,32 @@ export default function AgentChat({ selectedWalletId, onActionComplete }: AgentC
     setTimeout(() => bottomRef.current?.scrollIntoView({ behavior: "smooth" }), 80);
 
   const fetchPrompt = async (prompt: string, assistantMsgId: string, pendingEntry: ActionEntry) => {
+    // Subscribe to live stage events before submitting, keyed by our own intent ID
+    const intentId = crypto.randomUUID();
+    const events = new EventSource(`http://localhost:3001/api/agent/intents/${intentId}/events`);
+    events.addEventListener("stage.started", (e) => {
+      const { stage } = JSON.parse((e as MessageEvent<string>).data) as { stage: PipelineStage };
+      updateMsg(assistantMsgId, { action: { ...pendingEntry, stage } });
+    });
+    events.addEventListener("pipeline.finished", () => events.close());
+
     try {
       const res = await fetch("http://localhost:3001/api/agent/prompt", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ prompt, walletId: selectedWalletId }),
+        headers: { "Content-Type": "application/json", "Idempotency-Key": intentId },
+        body: JSON.stringify({ prompt, walletId: selectedWalletId, intentId }),
       });
 
       const data = await res.json() as {
         intent?: Record<string, unknown>;
         result?: {
-          status: "success" | "failure";
+          status: "success" | "failure" | "pending_approval";
           txHash?: string;
           errorCode?: string;
           errorMessage?: string;
           failedAt?: string;
+          approvalId?: string;
+          reason?: string;
           meta?: { explorerUrl?: string };
         };
         reasoning?: string;
@@ -352,7 +363,8 @@ export default function AgentChat({ selectedWalletId, onActionComplete }: AgentC
 
       const intentType = (data.intent?.type as string) ?? null;
       const resultStatus = data.result?.status ?? "failure";
-      const finalStage: PipelineStage = resultStatus === "success" ? "done" : "error";
+      const finalStage: PipelineStage =
+        resultStatus === "success" ? "done" : resultStatus === "pending_approval" ? "policy" : "error";
       const finalEntry: ActionEntry = {
         ...pendingEntry,
         reasoning: data.reasoning ?? "",
@@ -366,12 +378,16 @@ export default function AgentChat({ selectedWalletId, onActionComplete }: AgentC
           errorCode: data.result?.errorCode,
           errorMessage: data.result?.errorMessage,
           failedAt: data.result?.failedAt,
+          approvalId: data.result?.approvalId,
+          reason: data.result?.reason,
         },
       };
 
       const replyText = resultStatus === "success"
         ? `✅ Executed **${intentType}**. Tx: \`${data.result?.txHash?.slice(0, 16)}…\``
-        : `❌ Failed at **${data.result?.failedAt}**: ${data.result?.errorMessage}`;
+        : resultStatus === "pending_approval"
+          ? `⏸ **${intentType}** awaits approval: ${data.result?.reason} (approval \`${data.result?.approvalId}\`)`
+          : `❌ Failed at **${data.result?.failedAt}**: ${data.result?.errorMessage}`;
 
       updateMsg(assistantMsgId, { content: replyText, action: finalEntry });
     } catch (err) {
@@ -383,6 +399,7 @@ export default function AgentChat({ selectedWalletId, onActionComplete }: AgentC
       };
       updateMsg(assistantMsgId, { content: `❌ ${msg}`, action: errorEntry });
     } finally {
+      events.close();
       setLoading(false);
       scrollBottom();
       textareaRef.current?.focus();
@@ -1,22 +1,50 @@
 // ---------------------------------------------------------------------------
 // SolanaProtocolAdapter — Implements IProtocolAdapter for Solana.
 // Bridges the chain-agnostic pipeline to Solana-specific operations.
+// Classifies RPC failures as retryable and reports signature status so the
+// Executor can resend safely.
 // ---------------------------------------------------------------------------
 
-// @solana/web3.js types used indirectly via SolanaClient
+import {
+  TransactionExpiredBlockheightExceededError,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { getBase58Decoder } from "@solana/kit";
 import type { IProtocolAdapter } from "../../core/interfaces/IProtocolAdapter.js";
 import type { ILogger } from "../../core/interfaces/ILogger.js";
 import type { Intent } from "../../core/intents/Intent.js";
 import type { ChainTransaction } from "../../core/types/ChainTransaction.js";
+import type { BalanceChange, SimulationOutcome } from "../../core/types/SimulationOutcome.js";
+import type { TransactionStatus } from "../../core/types/TransactionStatus.js";
+import type { TransactionInspection } from "../../core/types/TransactionInspection.js";
 import { ExecutionError } from "../../core/errors/ExecutionError.js";
 import { SolanaClient } from "./SolanaClient.js";
 import { SolanaTransactionBuilder } from "./SolanaTransactionBuilder.js";
+import { SolanaTransactionInspector } from "./SolanaTransactionInspector.js";
+
+/** RPC failures that a fresh blockhash or a short wait can fix */
+const RETRYABLE_ERROR_PATTERNS: readonly RegExp[] = [
+  /blockhash not found/i,
+  /block height exceeded/i,
+  /has expired/i,
+  /node is behind/i,
+  /node is unhealthy/i,
+  /\b429\b/,
+  /too many requests/i,
+];
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof TransactionExpiredBlockheightExceededError) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return RETRYABLE_ERROR_PATTERNS.some((pattern) => pattern.test(message));
+}
 
 export class SolanaProtocolAdapter implements IProtocolAdapter {
   readonly chain = "solana";
 
   private readonly client: SolanaClient;
   private readonly txBuilder: SolanaTransactionBuilder;
+  private readonly inspector: SolanaTransactionInspector;
   private readonly logger: ILogger;
 
   constructor(
@@ -26,9 +54,19 @@ export class SolanaProtocolAdapter implements IProtocolAdapter {
   ) {
     this.client = client;
     this.txBuilder = txBuilder;
+    this.inspector = new SolanaTransactionInspector(client);
     this.logger = logger;
   }
 
+  async splitIntent(intent: Intent): Promise<Intent[]> {
+    try {
+      return await this.txBuilder.split(intent);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown build error";
+      throw new ExecutionError("build", message, error instanceof Error ? error : undefined);
+    }
+  }
+
   async buildTransaction(intent: Intent): Promise<ChainTransaction> {
     try {
       return await this.txBuilder.build(intent);
@@ -38,6 +76,97 @@ export class SolanaProtocolAdapter implements IProtocolAdapter {
     }
   }
 
+  async inspectTransaction(chainTx: ChainTransaction): Promise<TransactionInspection> {
+    try {
+      return await this.inspector.inspect(chainTx);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown inspection error";
+      throw new ExecutionError("policy", message, error instanceof Error ? error : undefined);
+    }
+  }
+
+  async estimateFee(intent: Intent): Promise<bigint> {
+    try {
+      return await this.txBuilder.estimateFee(intent);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown fee estimation error";
+      throw new ExecutionError("policy", message, error instanceof Error ? error : undefined);
+    }
+  }
+
+  async estimateRent(intent: Intent): Promise<bigint> {
+    try {
+      return await this.txBuilder.estimateRent(intent);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown rent estimation error";
+      throw new ExecutionError("policy", message, error instanceof Error ? error : undefined);
+    }
+  }
+
+  async rentExemptMinimum(dataSize: number): Promise<bigint> {
+    try {
+      return await this.txBuilder.rentExemptMinimum(dataSize);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown rent estimation error";
+      throw new ExecutionError("policy", message, error instanceof Error ? error : undefined);
+    }
+  }
+
+  async simulateTransaction(
+    signedTx: Uint8Array,
+    chainTx: ChainTransaction,
+  ): Promise<SimulationOutcome> {
+    if (chainTx.meta?.placeholder) {
+      // Orca swaps are submitted by the SDK callback; the payload is empty.
+      throw new ExecutionError("simulate", "Managed Orca swaps cannot be simulated");
+    }
+
+    try {
+      // Handles both legacy and v0 wire formats
+      const transaction = VersionedTransaction.deserialize(signedTx);
+      const accountKeys = transaction.message.staticAccountKeys;
+      const addresses = accountKeys.map((key) => key.toBase58());
+
+      const [preAccounts, simulation] = await Promise.all([
+        this.client.connection.getMultipleAccountsInfo(accountKeys),
+        this.client.connection.simulateTransaction(transaction, {
+          sigVerify: true,
+          commitment: "confirmed",
+          accounts: { encoding: "base64", addresses },
+        }),
+      ]);
+
+      const balanceChanges: BalanceChange[] = [];
+      addresses.forEach((account, i) => {
+        const before = BigInt(preAccounts[i]?.lamports ?? 0);
+        const postAccount = simulation.value.accounts?.[i];
+        const after = postAccount ? BigInt(postAccount.lamports) : before;
+        if (after !== before) {
+          balanceChanges.push({ account, before, after, delta: after - before });
+        }
+      });
+
+      const outcome: SimulationOutcome = {
+        success: !simulation.value.err,
+        logs: simulation.value.logs ?? [],
+        unitsConsumed: simulation.value.unitsConsumed,
+        balanceChanges,
+        error: simulation.value.err ? JSON.stringify(simulation.value.err) : undefined,
+      };
+
+      this.logger.info("Transaction simulated", {
+        success: outcome.success,
+        unitsConsumed: outcome.unitsConsumed,
+        error: outcome.error,
+      });
+
+      return outcome;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown simulation error";
+      throw new ExecutionError("simulate", message, error instanceof Error ? error : undefined);
+    }
+  }
+
   async sendTransaction(signedTx: Uint8Array, chainTx: ChainTransaction): Promise<string> {
     try {
       if (chainTx.meta?.sendTx && typeof chainTx.meta.sendTx === "function") {
@@ -54,18 +183,25 @@ export class SolanaProtocolAdapter implements IProtocolAdapter {
       return signature;
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown send error";
-      throw new ExecutionError("send", message, error instanceof Error ? error : undefined);
+      throw new ExecutionError(
+        "send",
+        message,
+        error instanceof Error ? error : undefined,
+        isRetryable(error),
+      );
     }
   }
 
-  async confirmTransaction(txHash: string): Promise<boolean> {
+  async confirmTransaction(txHash: string, chainTx?: ChainTransaction): Promise<boolean> {
     try {
-      const latestBlockhash = await this.client.getLatestBlockhash();
+      // Wait against the blockhash the transaction was built with, so expiry
+      // is detected instead of waiting on a newer, unrelated blockhash.
+      const lifetime = this.lifetimeOf(chainTx) ?? await this.client.getLatestBlockhash();
       const result = await this.client.connection.confirmTransaction(
         {
           signature: txHash,
-          blockhash: latestBlockhash.blockhash,
-          lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
+          blockhash: lifetime.blockhash,
+          lastValidBlockHeight: lifetime.lastValidBlockHeight,
         },
         "confirmed",
       );
@@ -80,11 +216,67 @@ export class SolanaProtocolAdapter implements IProtocolAdapter {
       return success;
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown confirm error";
-      throw new ExecutionError("confirm", message, error instanceof Error ? error : undefined);
+      throw new ExecutionError(
+        "confirm",
+        message,
+        error instanceof Error ? error : undefined,
+        isRetryable(error),
+      );
+    }
+  }
+
+  async getTransactionStatus(
+    signedTx: Uint8Array,
+    chainTx: ChainTransaction,
+  ): Promise<TransactionStatus | null> {
+    const lifetime = this.lifetimeOf(chainTx);
+    // Orca swaps are signed and sent by the SDK; their signature is unknown here
+    if (chainTx.meta?.placeholder || !lifetime) return null;
+
+    try {
+      const [signature] = VersionedTransaction.deserialize(signedTx).signatures;
+      if (!signature) return null;
+      const txHash = getBase58Decoder().decode(signature);
+
+      // Read the block height first: if it is already past the transaction's
+      // lifetime, a missing signature afterwards means it can never land.
+      const blockHeight = await this.client.connection.getBlockHeight("confirmed");
+      const { value: [status] } = await this.client.connection.getSignatureStatuses(
+        [txHash],
+        { searchTransactionHistory: true },
+      );
+
+      if (status?.err) {
+        return { txHash, state: "failed", error: JSON.stringify(status.err) };
+      }
+      if (status?.confirmationStatus === "confirmed" || status?.confirmationStatus === "finalized") {
+        return { txHash, state: "confirmed" };
+      }
+      if (!status && blockHeight > lifetime.lastValidBlockHeight) {
+        return { txHash, state: "expired" };
+      }
+      return { txHash, state: "pending" };
+    } catch (error) {
+      this.logger.warn("Signature status lookup failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
     }
   }
 
   getExplorerUrl(txHash: string): string {
     return this.client.getSolscanUrl(txHash);
   }
+
+  /** Blockhash lifetime recorded by the transaction builder, if any */
+  private lifetimeOf(
+    chainTx?: ChainTransaction,
+  ): { blockhash: string; lastValidBlockHeight: number } | null {
+    const blockhash = chainTx?.meta?.blockhash;
+    const lastValidBlockHeight = chainTx?.meta?.lastValidBlockHeight;
+    if (typeof blockhash !== "string" || typeof lastValidBlockHeight !== "number") {
+      return null;
+    }
+    return { blockhash, lastValidBlockHeight };
+  }
 }
@@ -20,12 +20,27 @@ export interface TokenBalance {
 export class SolanaTokenAdapter {
   private readonly client: SolanaClient;
   private readonly _logger: ILogger;
+  /** Mint decimals never change, so they are cached for the process lifetime */
+  private readonly decimalsCache = new Map<string, number>();
 
   constructor(client: SolanaClient, logger: ILogger) {
     this.client = client;
     this._logger = logger;
   }
 
+  /**
+   * Get the number of decimals of an SPL mint.
+   * Throws if the mint account does not exist.
+   */
+  async getMintDecimals(mintAddress: string): Promise<number> {
+    const cached = this.decimalsCache.get(mintAddress);
+    if (cached !== undefined) return cached;
+
+    const mintInfo = await getMint(this.client.connection, new PublicKey(mintAddress));
+    this.decimalsCache.set(mintAddress, mintInfo.decimals);
+    return mintInfo.decimals;
+  }
+
   /**
    * Get the SPL token balance for a wallet.
    */
@@ -1,59 +1,151 @@
 // ---------------------------------------------------------------------------
 // SolanaTransactionBuilder — Converts domain Intents → Solana transactions.
 // This is the boundary between chain-agnostic logic and Solana-specific code.
+// Every built transaction carries compute-budget instructions per the
+// intent's (or the default) priority-fee strategy and an estimated fee, and
+// is compiled as a legacy or v0 message (with address lookup tables).
 // ---------------------------------------------------------------------------
 
 import {
   Transaction,
   SystemProgram,
   PublicKey,
+  ComputeBudgetProgram,
+  VersionedTransaction,
+  TransactionMessage,
+  PACKET_DATA_SIZE,
+  TransactionInstruction,
 } from "@solana/web3.js";
+import type { AddressLookupTableAccount, VersionedMessage } from "@solana/web3.js";
 import {
   createTransferInstruction,
   getAssociatedTokenAddress,
   createInitializeMintInstruction,
   MINT_SIZE,
+  ACCOUNT_SIZE,
+  NATIVE_MINT,
   TOKEN_PROGRAM_ID,
   createMintToInstruction,
-  createAssociatedTokenAccountInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
 } from "@solana/spl-token";
 import { Keypair } from "@solana/web3.js";
 import { swap, setPayerFromBytes } from '@orca-so/whirlpools';
 import { address } from '@solana/kit';
 import type {
   Intent,
+  PriorityFee,
   TransferIntent,
   SwapIntent,
   CreateMintIntent,
   MintTokenIntent,
+  BatchIntent,
+  BatchItem,
 } from "../../core/intents/Intent.js";
 import type { ChainTransaction } from "../../core/types/ChainTransaction.js";
+import type { SwapQuote } from "../../core/types/SwapQuote.js";
 import type { ILogger } from "../../core/interfaces/ILogger.js";
 import {
   isTransferIntent,
   isSwapIntent,
   isCreateMintIntent,
   isMintTokenIntent,
+  isBatchIntent,
+  deriveIntentId,
 } from "../../core/intents/Intent.js";
 import { ExecutionError } from "../../core/errors/ExecutionError.js";
 import { SolanaClient } from "./SolanaClient.js";
+import { decodeWhirlpool, spotPrice } from "./whirlpool/WhirlpoolAccount.js";
+
+/** Base fee charged per transaction signature */
+const LAMPORTS_PER_SIGNATURE = 5_000n;
+/** Runtime limits for compute units */
+const MAX_COMPUTE_UNITS = 1_400_000;
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+/** Headroom added to simulated compute usage */
+const COMPUTE_UNIT_MARGIN = 1.1;
+const DEFAULT_FEE_PERCENTILE = 50;
+const COMPUTE_BUDGET_PROGRAM_ID = ComputeBudgetProgram.programId.toBase58();
+const MEMO_PROGRAM_ID = new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr");
+/** How long fetched address lookup tables are reused */
+const LOOKUP_TABLE_TTL_MS = 60_000;
+/** Swap slippage tolerance when neither the intent nor the options set one */
+const DEFAULT_SLIPPAGE_BPS = 100;
+
+/** Instructions for one operation and the programs they invoke */
+interface InstructionSet {
+  instructions: TransactionInstruction[];
+  programIds: string[];
+}
+
+export interface SolanaTransactionBuilderOptions {
+  /** Priority-fee strategy for intents that do not set their own */
+  readonly priorityFee?: PriorityFee;
+  /**
+   * Message version to compile. "auto" (default) uses legacy messages and
+   * switches to v0 only when a transaction would not fit.
+   */
+  readonly transactionVersion?: "legacy" | "v0" | "auto";
+  /** Address lookup tables used to compress v0 messages */
+  readonly addressLookupTables?: string[];
+  /** Slippage tolerance for swaps that do not set a minAmountOut */
+  readonly defaultSlippageBps?: number;
+}
+
+/** Base fee plus priority fee (micro-lamports × units, rounded up to lamports) */
+function feeFor(signatures: number, microLamports: number, units: number): bigint {
+  const priority = (BigInt(microLamports) * BigInt(units) + 999_999n) / 1_000_000n;
+  return LAMPORTS_PER_SIGNATURE * BigInt(signatures) + priority;
+}
+
+/**
+ * Slippage, in basis points rounded down, that keeps the quoted minimum
+ * output at or above minOut. Negative if the estimate is already below it.
+ */
+function slippageFor(estimatedOut: bigint, minOut: bigint): number {
+  if (estimatedOut <= 0n) return -1;
+  if (minOut > estimatedOut) return -1;
+  return Number(((estimatedOut - minOut) * 10_000n) / estimatedOut);
+}
+
+function percentileOf(values: number[], percentile: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.ceil((percentile / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, index))] ?? 0;
+}
 
 export class SolanaTransactionBuilder {
   private readonly client: SolanaClient;
   private readonly logger: ILogger;
   private readonly getPublicKey: (walletId: string) => string;
   private readonly getSecretKey?: (walletId: string) => Promise<Uint8Array>;
+  private readonly defaultPriorityFee: PriorityFee;
+  private readonly transactionVersion: "legacy" | "v0" | "auto";
+  private readonly addressLookupTables: string[];
+  private readonly defaultSlippageBps: number;
+  private readonly lookupTableCache = new Map<
+    string,
+    { table: AddressLookupTableAccount; fetchedAt: number }
+  >();
+  /** Rent-exempt minimum per account size; rent parameters rarely change */
+  private readonly rentExemptCache = new Map<number, bigint>();
 
   constructor(
     client: SolanaClient,
     logger: ILogger,
     getPublicKey: (walletId: string) => string,
     getSecretKey?: (walletId: string) => Promise<Uint8Array>,
+    options: SolanaTransactionBuilderOptions = {},
   ) {
     this.client = client;
     this.logger = logger;
     this.getPublicKey = getPublicKey;
     this.getSecretKey = getSecretKey;
+    this.defaultPriorityFee = options.priorityFee ?? { strategy: "none" };
+    this.transactionVersion = options.transactionVersion ?? "auto";
+    this.addressLookupTables = options.addressLookupTables ?? [];
+    this.defaultSlippageBps = options.defaultSlippageBps ?? DEFAULT_SLIPPAGE_BPS;
   }
 
   /**
@@ -72,6 +164,9 @@ export class SolanaTransactionBuilder {
     if (isMintTokenIntent(intent)) {
       return this.buildMintToken(intent);
     }
+    if (isBatchIntent(intent)) {
+      return this.buildBatch(intent);
+    }
     throw new ExecutionError("build", `Unsupported intent type: ${(intent as Intent).type}`);
   }
 
@@ -80,44 +175,8 @@ export class SolanaTransactionBuilder {
    */
   private async buildTransfer(intent: TransferIntent): Promise<ChainTransaction> {
     const fromPubkey = new PublicKey(this.getPublicKey(intent.fromWalletId));
-    const toPubkey = new PublicKey(intent.to);
-    const transaction = new Transaction();
-
-    let programIds: string[];
-
-    if (intent.tokenMint) {
-      // SPL Token transfer
-      const mintPubkey = new PublicKey(intent.tokenMint);
-      const fromAta = await getAssociatedTokenAddress(mintPubkey, fromPubkey);
-      const toAta = await getAssociatedTokenAddress(mintPubkey, toPubkey);
-
-      transaction.add(
-        createTransferInstruction(
-          fromAta,
-          toAta,
-          fromPubkey,
-          Number(intent.amount),
-        ),
-      );
-      programIds = ["TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"];
-    } else {
-      // Native SOL transfer
-      transaction.add(
-        SystemProgram.transfer({
-          fromPubkey,
-          toPubkey,
-          lamports: Number(intent.amount),
-        }),
-      );
-      programIds = ["11111111111111111111111111111111"];
-    }
-
-    // Set recent blockhash and fee payer
-    const { blockhash, lastValidBlockHeight } =
-      await this.client.getLatestBlockhash();
-    transaction.recentBlockhash = blockhash;
-    transaction.lastValidBlockHeight = lastValidBlockHeight;
-    transaction.feePayer = fromPubkey;
+    const { instructions, programIds } = await this.transferInstructions(fromPubkey, intent);
+    const transaction = new Transaction().add(...instructions);
 
     this.logger.debug("Transfer transaction built", {
       intentId: intent.id,
@@ -127,14 +186,7 @@ export class SolanaTransactionBuilder {
       isToken: !!intent.tokenMint,
     });
 
-    return {
-      chain: "solana",
-      payload: transaction.serialize({
-        requireAllSignatures: false,
-        verifySignatures: false,
-      }),
-      programIds,
-    };
+    return this.finalize(intent, transaction, fromPubkey, programIds);
   }
 
   private async buildSwap(intent: SwapIntent): Promise<ChainTransaction> {
@@ -155,20 +207,53 @@ export class SolanaTransactionBuilder {
       pool: poolAddressStr,
       mint: intent.tokenInMint,
       inputAmount: inputAmount.toString(),
+      minAmountOut: intent.minAmountOut.toString(),
     });
 
-    // In Orca SDK, slippage must be passed in basis points before we see the quote.
-    // If we wanted exact minAmountOut matching, we'd need quote first.
-    // Defaulting to 100 bps (1%) as requested.
-    const { instructions, quote, callback: sendTx } = await swap(
-      { inputAmount, mint: mintAddress },
-      whirlpoolAddress,
-      100 // default slippage in bips
-    );
+    // The SDK takes slippage before quoting. Without a minAmountOut the
+    // default tolerance applies; otherwise probe at zero slippage first and
+    // derive the tolerance that makes the on-chain minimum match the intent's.
+    const quoteAt = (bps: number) => swap({ inputAmount, mint: mintAddress }, whirlpoolAddress, bps);
+    let slippageBps = this.defaultSlippageBps;
+    let result: Awaited<ReturnType<typeof quoteAt>> | undefined;
+    if (intent.minAmountOut > 0n) {
+      result = await quoteAt(0);
+      slippageBps = slippageFor(result.quote.tokenEstOut, intent.minAmountOut);
+      if (slippageBps < 0) {
+        throw new ExecutionError(
+          "build",
+          `Quoted output ${result.quote.tokenEstOut} is below minAmountOut ${intent.minAmountOut}`,
+        );
+      }
+    }
+    if (!result || slippageBps > 0) {
+      result = await quoteAt(slippageBps);
+    }
+    const { instructions, quote, callback: sendTx } = result;
+    if (quote.tokenMinOut < intent.minAmountOut) {
+      // The pool moved between the two quotes; the agent may resubmit
+      throw new ExecutionError(
+        "build",
+        `Quoted minimum output ${quote.tokenMinOut} is below minAmountOut ${intent.minAmountOut}`,
+      );
+    }
+
+    const swapQuote: SwapQuote = {
+      inputMint: intent.tokenInMint,
+      outputMint: intent.tokenOutMint,
+      amountIn: quote.tokenIn,
+      estimatedAmountOut: quote.tokenEstOut,
+      minAmountOut: quote.tokenMinOut,
+      slippageBps,
+      priceImpactBps: await this.priceImpactBps(intent, quote),
+    };
 
     this.logger.info("Orca swap quote received", {
       intentId: intent.id,
       tokenEstOut: quote.tokenEstOut.toString(),
+      tokenMinOut: quote.tokenMinOut.toString(),
+      slippageBps,
+      priceImpactBps: swapQuote.priceImpactBps,
       numInstructions: instructions.length,
     });
 
@@ -188,10 +273,44 @@ export class SolanaTransactionBuilder {
         verifySignatures: false,
       }),
       programIds: ["whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc"],
-      meta: { placeholder: true, sendTx, quote },
+      // The Orca SDK prices and limits compute itself; only the base fee is known
+      estimatedFee: LAMPORTS_PER_SIGNATURE,
+      swapQuote,
+      meta: { placeholder: true, sendTx, quote, instructions, blockhash, lastValidBlockHeight },
     };
   }
 
+  /**
+   * Price impact of a quote against the Whirlpool's spot price, in basis
+   * points. The trade fee is taken off the input first, so only the price
+   * movement counts. Undefined if the pool account cannot be read.
+   */
+  private async priceImpactBps(
+    intent: SwapIntent,
+    quote: { tokenIn: bigint; tokenEstOut: bigint; tradeFee: bigint },
+  ): Promise<number | undefined> {
+    try {
+      const account = await this.client.connection.getAccountInfo(new PublicKey(intent.poolAddress));
+      const whirlpool = account ? decodeWhirlpool(account.data) : null;
+      if (!whirlpool) return undefined;
+
+      const price = spotPrice(whirlpool.sqrtPrice);
+      const netIn = Number(quote.tokenIn - quote.tradeFee);
+      const spotOut = whirlpool.tokenMintA === intent.tokenInMint ? netIn * price : netIn / price;
+      if (!(spotOut > 0)) return undefined;
+
+      const impact = 1 - Number(quote.tokenEstOut) / spotOut;
+      return Math.max(0, Math.round(impact * 10_000));
+    } catch (error) {
+      this.logger.warn("Could not read Whirlpool spot price", {
+        intentId: intent.id,
+        pool: intent.poolAddress,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
   /**
    * Build a transaction to create a new SPL token mint.
    */
@@ -218,27 +337,15 @@ export class SolanaTransactionBuilder {
       ),
     );
 
-    const { blockhash, lastValidBlockHeight } = await this.client.getLatestBlockhash();
-    transaction.recentBlockhash = blockhash;
-    transaction.lastValidBlockHeight = lastValidBlockHeight;
-    transaction.feePayer = fromPubkey;
-
-    transaction.partialSign(mintKeypair);
-
     this.logger.info("Create mint transaction built", {
       intentId: intent.id,
       mint: mintKeypair.publicKey.toBase58(),
     });
 
-    return {
-      chain: "solana",
-      payload: transaction.serialize({
-        requireAllSignatures: false,
-        verifySignatures: false,
-      }),
-      programIds: [TOKEN_PROGRAM_ID.toBase58()],
+    return this.finalize(intent, transaction, fromPubkey, [TOKEN_PROGRAM_ID.toBase58()], {
       meta: { mint: mintKeypair.publicKey.toBase58() },
-    };
+      signers: [mintKeypair],
+    });
   }
 
   /**
@@ -246,51 +353,495 @@ export class SolanaTransactionBuilder {
    */
   private async buildMintToken(intent: MintTokenIntent): Promise<ChainTransaction> {
     const fromPubkey = new PublicKey(this.getPublicKey(intent.fromWalletId));
-    const mintPubkey = new PublicKey(intent.mint);
+    const { instructions, programIds } = await this.mintToInstructions(fromPubkey, intent);
+    const transaction = new Transaction().add(...instructions);
+
+    return this.finalize(intent, transaction, fromPubkey, programIds);
+  }
+
+  /**
+   * Build a batch as one transaction. Items run in order; the transaction
+   * fails as a whole if any item fails.
+   */
+  private async buildBatch(intent: BatchIntent): Promise<ChainTransaction> {
+    const fromPubkey = new PublicKey(this.getPublicKey(intent.fromWalletId));
+    const { instructions, programIds } = await this.batchInstructions(fromPubkey, intent.items);
+    const transaction = new Transaction().add(...instructions);
+
+    this.logger.debug("Batch transaction built", {
+      intentId: intent.id,
+      items: intent.items.map((item) => item.type),
+      instructions: instructions.length,
+    });
 
-    let toPubkey: PublicKey;
     try {
-      toPubkey = new PublicKey(this.getPublicKey(intent.to));
-    } catch {
-      toPubkey = new PublicKey(intent.to);
+      return await this.finalize(intent, transaction, fromPubkey, programIds);
+    } catch (error) {
+      if (error instanceof ExecutionError && error.message.includes("byte limit")) {
+        throw new ExecutionError(
+          "build",
+          `${error.message}. Split the batch or set atomic: false`,
+          error,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Split a non-atomic batch into the fewest consecutive chunks that each fit
+   * one transaction. Every chunk is itself an atomic batch with a derived ID.
+   * Atomic batches and other intents are returned unchanged.
+   */
+  async split(intent: Intent): Promise<Intent[]> {
+    // Anything but an explicit atomic: false stays in one transaction
+    if (!isBatchIntent(intent) || intent.atomic !== false) return [intent];
+
+    const fromPubkey = new PublicKey(this.getPublicKey(intent.fromWalletId));
+    const chunks: BatchItem[][] = [];
+    let current: BatchItem[] = [];
+
+    for (const item of intent.items) {
+      const candidate = [...current, item];
+      if (await this.fits(fromPubkey, candidate)) {
+        current = candidate;
+        continue;
+      }
+      if (current.length === 0) {
+        throw new ExecutionError("build", `Batch item "${item.type}" does not fit in a transaction`);
+      }
+      chunks.push(current);
+      current = [item];
+    }
+    chunks.push(current);
+
+    if (chunks.length === 1) return [intent];
+
+    this.logger.info("Non-atomic batch split", {
+      intentId: intent.id,
+      items: intent.items.length,
+      transactions: chunks.length,
+    });
+
+    return chunks.map((items, index) => ({
+      ...intent,
+      id: deriveIntentId(`${intent.id}:${index}`),
+      items,
+      atomic: true,
+    }));
+  }
+
+  /** Whether the items fit one transaction, leaving room for compute budget */
+  private async fits(fromPubkey: PublicKey, items: BatchItem[]): Promise<boolean> {
+    const { instructions } = await this.batchInstructions(fromPubkey, items);
+    const message = await this.compileMessage(
+      [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+        ...instructions,
+      ],
+      fromPubkey,
+      PublicKey.default.toBase58(),
+    );
+    return new VersionedTransaction(message).serialize().length <= PACKET_DATA_SIZE;
+  }
+
+  private async batchInstructions(
+    fromPubkey: PublicKey,
+    items: BatchItem[],
+  ): Promise<InstructionSet> {
+    const instructions: TransactionInstruction[] = [];
+    const programIds = new Set<string>();
+
+    for (const item of items) {
+      let set: InstructionSet;
+      switch (item.type) {
+        case "transfer":
+          set = await this.transferInstructions(fromPubkey, item);
+          break;
+        case "mint_token":
+          set = await this.mintToInstructions(fromPubkey, item);
+          break;
+        case "create_token_account":
+          set = await this.createTokenAccountInstructions(fromPubkey, item);
+          break;
+        case "memo":
+          set = {
+            instructions: [
+              new TransactionInstruction({
+                programId: MEMO_PROGRAM_ID,
+                keys: [{ pubkey: fromPubkey, isSigner: true, isWritable: false }],
+                data: Buffer.from(item.text, "utf-8"),
+              }),
+            ],
+            programIds: [MEMO_PROGRAM_ID.toBase58()],
+          };
+          break;
+      }
+      instructions.push(...set.instructions);
+      set.programIds.forEach((id) => programIds.add(id));
+    }
+
+    return { instructions, programIds: Array.from(programIds) };
+  }
+
+  /** Native SOL transfer, or SPL transfer between associated token accounts */
+  private async transferInstructions(
+    fromPubkey: PublicKey,
+    transfer: { to: string; amount: bigint; tokenMint?: string },
+  ): Promise<InstructionSet> {
+    const toPubkey = new PublicKey(transfer.to);
+
+    if (transfer.tokenMint) {
+      // SPL Token transfer
+      const mintPubkey = new PublicKey(transfer.tokenMint);
+      const fromAta = await getAssociatedTokenAddress(mintPubkey, fromPubkey);
+      const toAta = await getAssociatedTokenAddress(mintPubkey, toPubkey);
+
+      return {
+        instructions: [
+          createTransferInstruction(
+            fromAta,
+            toAta,
+            fromPubkey,
+            Number(transfer.amount),
+          ),
+        ],
+        programIds: ["TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"],
+      };
     }
 
+    // Native SOL transfer
+    return {
+      instructions: [
+        SystemProgram.transfer({
+          fromPubkey,
+          toPubkey,
+          lamports: Number(transfer.amount),
+        }),
+      ],
+      programIds: ["11111111111111111111111111111111"],
+    };
+  }
+
+  /** Mint to the recipient's token account, creating it if missing */
+  private async mintToInstructions(
+    fromPubkey: PublicKey,
+    mintTo: { mint: string; to: string; amount: bigint },
+  ): Promise<InstructionSet> {
+    const mintPubkey = new PublicKey(mintTo.mint);
+
+    const toPubkey = this.resolveOwner(mintTo.to);
     const ata = await getAssociatedTokenAddress(mintPubkey, toPubkey);
-    const transaction = new Transaction();
+    const instructions: TransactionInstruction[] = [];
+    const programIds = [TOKEN_PROGRAM_ID.toBase58()];
 
     const ataInfo = await this.client.connection.getAccountInfo(ata);
     if (!ataInfo) {
-      transaction.add(
-        createAssociatedTokenAccountInstruction(
+      // Idempotent, so an earlier create_token_account in the same batch is harmless
+      instructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(
           fromPubkey,
           ata,
           toPubkey,
           mintPubkey,
-        )
+        ),
       );
     }
 
-    transaction.add(
+    instructions.push(
       createMintToInstruction(
         mintPubkey,
         ata,
         fromPubkey,
-        Number(intent.amount),
+        Number(mintTo.amount),
       ),
     );
 
+    return { instructions, programIds };
+  }
+
+  /** Create the owner's associated token account (no-op if it exists) */
+  private async createTokenAccountInstructions(
+    fromPubkey: PublicKey,
+    item: { mint: string; owner: string },
+  ): Promise<InstructionSet> {
+    const mintPubkey = new PublicKey(item.mint);
+    const ownerPubkey = new PublicKey(item.owner);
+    const ata = await getAssociatedTokenAddress(mintPubkey, ownerPubkey);
+
+    return {
+      instructions: [
+        createAssociatedTokenAccountIdempotentInstruction(
+          fromPubkey,
+          ata,
+          ownerPubkey,
+          mintPubkey,
+        ),
+      ],
+      programIds: [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()],
+    };
+  }
+
+  /**
+   * Upper-bound fee estimate for an intent before it is built, so policies
+   * can count fees toward spending budgets.
+   */
+  async estimateFee(intent: Intent): Promise<bigint> {
+    if (isSwapIntent(intent)) return LAMPORTS_PER_SIGNATURE;
+
+    const feePayer = new PublicKey(this.getPublicKey(intent.fromWalletId));
+    const fee = this.priorityFeeFor(intent);
+    const microLamports = await this.resolveUnitPrice(fee, [feePayer]);
+    // Without a fixed limit, assume the worst case the runtime allows
+    const units = typeof fee.computeUnitLimit === "number" ? fee.computeUnitLimit : MAX_COMPUTE_UNITS;
+    const signatures = isCreateMintIntent(intent) ? 2 : 1;
+
+    return feeFor(signatures, microLamports, units);
+  }
+
+  /**
+   * Lamports the intent will lock up as rent-exempt deposits for the
+   * accounts it creates: a new mint, and token accounts that do not exist
+   * yet (minting to a new holder, explicit creation, a swap's output).
+   */
+  async estimateRent(intent: Intent): Promise<bigint> {
+    const fromPubkey = new PublicKey(this.getPublicKey(intent.fromWalletId));
+
+    if (isCreateMintIntent(intent)) return this.rentExemptMinimum(MINT_SIZE);
+    if (isSwapIntent(intent)) {
+      // Unwrapped SOL is paid out to the wallet itself, not a token account
+      if (intent.tokenOutMint === NATIVE_MINT.toBase58()) return 0n;
+      return this.tokenAccountRent([{ mint: intent.tokenOutMint, owner: fromPubkey }]);
+    }
+    if (isMintTokenIntent(intent)) {
+      return this.tokenAccountRent([{ mint: intent.mint, owner: this.resolveOwner(intent.to) }]);
+    }
+    if (isBatchIntent(intent)) {
+      const accounts = intent.items.flatMap((item) => {
+        if (item.type === "mint_token") return [{ mint: item.mint, owner: this.resolveOwner(item.to) }];
+        if (item.type === "create_token_account") {
+          return [{ mint: item.mint, owner: new PublicKey(item.owner) }];
+        }
+        return [];
+      });
+      return this.tokenAccountRent(accounts);
+    }
+    return 0n;
+  }
+
+  /** Rent for the associated token accounts that do not exist yet */
+  private async tokenAccountRent(accounts: { mint: string; owner: PublicKey }[]): Promise<bigint> {
+    const missing = new Set<string>();
+    for (const { mint, owner } of accounts) {
+      const ata = await getAssociatedTokenAddress(new PublicKey(mint), owner);
+      const key = ata.toBase58();
+      if (missing.has(key)) continue;
+      if (!(await this.client.connection.getAccountInfo(ata))) missing.add(key);
+    }
+    if (missing.size === 0) return 0n;
+    return BigInt(missing.size) * (await this.rentExemptMinimum(ACCOUNT_SIZE));
+  }
+
+  /** Rent-exempt minimum of an account with `size` bytes of data, cached per size */
+  async rentExemptMinimum(size: number): Promise<bigint> {
+    const cached = this.rentExemptCache.get(size);
+    if (cached !== undefined) return cached;
+    const lamports = BigInt(await this.client.connection.getMinimumBalanceForRentExemption(size));
+    this.rentExemptCache.set(size, lamports);
+    return lamports;
+  }
+
+  /** Mint recipients may be given as a wallet ID or a public key */
+  private resolveOwner(to: string): PublicKey {
+    try {
+      return new PublicKey(this.getPublicKey(to));
+    } catch {
+      return new PublicKey(to);
+    }
+  }
+
+  /**
+   * Apply the compute budget, set blockhash and fee payer, sign with any
+   * ephemeral signers and serialize with the estimated fee attached.
+   */
+  private async finalize(
+    intent: Intent,
+    transaction: Transaction,
+    feePayer: PublicKey,
+    programIds: string[],
+    options: { meta?: Record<string, unknown>; signers?: Keypair[] } = {},
+  ): Promise<ChainTransaction> {
     const { blockhash, lastValidBlockHeight } = await this.client.getLatestBlockhash();
-    transaction.recentBlockhash = blockhash;
-    transaction.lastValidBlockHeight = lastValidBlockHeight;
-    transaction.feePayer = fromPubkey;
+
+    const fee = this.priorityFeeFor(intent);
+    const writable = [
+      feePayer,
+      ...transaction.instructions.flatMap((ix) =>
+        ix.keys.filter((key) => key.isWritable).map((key) => key.pubkey),
+      ),
+    ];
+    const microLamports = await this.resolveUnitPrice(fee, writable);
+    const unitLimit =
+      fee.computeUnitLimit === "simulate"
+        ? await this.simulateUnitLimit(transaction.instructions, feePayer, blockhash)
+        : fee.computeUnitLimit;
+
+    const budgetInstructions = [];
+    if (unitLimit !== undefined) {
+      budgetInstructions.push(ComputeBudgetProgram.setComputeUnitLimit({ units: unitLimit }));
+    }
+    if (microLamports > 0) {
+      budgetInstructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+    }
+    const instructions = [...budgetInstructions, ...transaction.instructions];
+
+    const message = await this.compileMessage(instructions, feePayer, blockhash);
+    const versioned = new VersionedTransaction(message);
+    if (options.signers?.length) {
+      versioned.sign(options.signers);
+    }
+
+    const payload = versioned.serialize();
+    if (payload.length > PACKET_DATA_SIZE) {
+      throw new ExecutionError(
+        "build",
+        `Transaction is ${payload.length} bytes, over the ${PACKET_DATA_SIZE}-byte limit` +
+          (message.version === "legacy" ? "" : " even as a v0 message — add address lookup tables"),
+      );
+    }
+
+    const units = unitLimit ?? Math.min(
+      MAX_COMPUTE_UNITS,
+      DEFAULT_UNITS_PER_INSTRUCTION * transaction.instructions.length,
+    );
+    const estimatedFee = feeFor(message.header.numRequiredSignatures, microLamports, units);
+    const lookupTables = message.addressTableLookups.map((lookup) => lookup.accountKey.toBase58());
+
+    this.logger.debug("Transaction finalized", {
+      intentId: intent.id,
+      version: message.version,
+      lookupTables,
+      bytes: payload.length,
+      strategy: fee.strategy,
+      microLamports,
+      unitLimit,
+      estimatedFee: estimatedFee.toString(),
+    });
 
     return {
       chain: "solana",
-      payload: transaction.serialize({
-        requireAllSignatures: false,
-        verifySignatures: false,
-      }),
-      programIds: [TOKEN_PROGRAM_ID.toBase58()],
+      payload,
+      programIds: budgetInstructions.length > 0
+        ? [COMPUTE_BUDGET_PROGRAM_ID, ...programIds]
+        : programIds,
+      estimatedFee,
+      meta: {
+        ...options.meta,
+        blockhash,
+        lastValidBlockHeight,
+        version: message.version,
+        ...(lookupTables.length > 0 ? { lookupTables } : {}),
+      },
     };
   }
+
+  /**
+   * Compile instructions into a message of the configured version. In "auto"
+   * mode a legacy message is kept unless it exceeds the packet size.
+   */
+  private async compileMessage(
+    instructions: TransactionInstruction[],
+    payerKey: PublicKey,
+    recentBlockhash: string,
+  ): Promise<VersionedMessage> {
+    const message = new TransactionMessage({ payerKey, recentBlockhash, instructions });
+
+    if (this.transactionVersion !== "v0") {
+      const legacy = message.compileToLegacyMessage();
+      // Signature count (1 byte for < 128) + signatures + message
+      const size = 1 + 64 * legacy.header.numRequiredSignatures + legacy.serialize().length;
+      if (this.transactionVersion === "legacy" || size <= PACKET_DATA_SIZE) {
+        return legacy;
+      }
+    }
+
+    return message.compileToV0Message(await this.loadLookupTables());
+  }
+
+  /** Fetch the configured lookup tables, reusing recent fetches */
+  private async loadLookupTables(): Promise<AddressLookupTableAccount[]> {
+    const now = Date.now();
+    const tables: AddressLookupTableAccount[] = [];
+
+    for (const address of this.addressLookupTables) {
+      const cached = this.lookupTableCache.get(address);
+      if (cached && now - cached.fetchedAt < LOOKUP_TABLE_TTL_MS) {
+        tables.push(cached.table);
+        continue;
+      }
+
+      const { value } = await this.client.connection.getAddressLookupTable(new PublicKey(address));
+      if (!value) {
+        throw new ExecutionError("build", `Address lookup table ${address} not found`);
+      }
+      this.lookupTableCache.set(address, { table: value, fetchedAt: now });
+      tables.push(value);
+    }
+
+    return tables;
+  }
+
+  /** The intent's own priority fee, falling back to the configured default */
+  private priorityFeeFor(intent: Intent): PriorityFee {
+    return intent.priorityFee ?? this.defaultPriorityFee;
+  }
+
+  /** Price per compute unit in micro-lamports, capped at maxMicroLamports */
+  private async resolveUnitPrice(fee: PriorityFee, writableAccounts: PublicKey[]): Promise<number> {
+    let price = 0;
+    if (fee.strategy === "fixed") {
+      price = fee.microLamports ?? 0;
+    } else if (fee.strategy === "percentile") {
+      const recent = await this.client.connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: writableAccounts,
+      });
+      price = percentileOf(
+        recent.map((r) => r.prioritizationFee),
+        fee.percentile ?? DEFAULT_FEE_PERCENTILE,
+      );
+    }
+    return fee.maxMicroLamports !== undefined ? Math.min(price, fee.maxMicroLamports) : price;
+  }
+
+  /**
+   * Simulate the instructions to measure compute usage and return a limit
+   * with headroom. Falls back to the runtime default if simulation fails.
+   */
+  private async simulateUnitLimit(
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey,
+    blockhash: string,
+  ): Promise<number | undefined> {
+    const probe = await this.compileMessage(
+      [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }), ...instructions],
+      feePayer,
+      blockhash,
+    );
+
+    const simulation = await this.client.connection.simulateTransaction(
+      new VersionedTransaction(probe),
+      { sigVerify: false, replaceRecentBlockhash: true },
+    );
+
+    const consumed = simulation.value.unitsConsumed;
+    if (simulation.value.err || !consumed) {
+      this.logger.warn("Compute unit simulation failed — using default limit", {
+        error: simulation.value.err ? JSON.stringify(simulation.value.err) : "no units reported",
+      });
+      return undefined;
+    }
+
+    return Math.min(MAX_COMPUTE_UNITS, Math.ceil(consumed * COMPUTE_UNIT_MARGIN));
+  }
 }
@@ -0,0 +1,178 @@
+// ---------------------------------------------------------------------------
+// SolanaTransactionInspector — Decodes a built ChainTransaction into a
+// TransactionInspection for post-build policies.
+// Resolves address lookup tables so v0 account keys are complete, and
+// decodes System Program instructions into lamport movements.
+// ---------------------------------------------------------------------------
+
+import {
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  TransactionInstruction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import type { AddressLookupTableAccount, MessageAccountKeys } from "@solana/web3.js";
+import { isSignerRole, isWritableRole } from "@solana/kit";
+import type { Instruction } from "@solana/kit";
+import type { ChainTransaction } from "../../core/types/ChainTransaction.js";
+import type {
+  InspectedInstruction,
+  NativeTransfer,
+  TransactionInspection,
+} from "../../core/types/TransactionInspection.js";
+import { SolanaClient } from "./SolanaClient.js";
+
+export class SolanaTransactionInspector {
+  private readonly client: SolanaClient;
+
+  constructor(client: SolanaClient) {
+    this.client = client;
+  }
+
+  async inspect(chainTx: ChainTransaction): Promise<TransactionInspection> {
+    // Orca swaps are assembled and sent by the SDK; inspect the swap
+    // instructions it returned (it may still add compute budget at send time).
+    if (chainTx.meta?.placeholder) {
+      const instructions = Array.isArray(chainTx.meta.instructions)
+        ? (chainTx.meta.instructions as Instruction[])
+        : [];
+      return this.inspectKitInstructions(instructions, chainTx);
+    }
+
+    const transaction = VersionedTransaction.deserialize(chainTx.payload);
+    const message = transaction.message;
+    const accountKeys = message.getAccountKeys({
+      addressLookupTableAccounts: await this.loadLookupTables(
+        message.addressTableLookups.map((lookup) => lookup.accountKey),
+      ),
+    });
+
+    const signers = message.staticAccountKeys
+      .slice(0, message.header.numRequiredSignatures)
+      .map((key) => key.toBase58());
+
+    const instructions: InspectedInstruction[] = [];
+    const nativeTransfers: NativeTransfer[] = [];
+
+    for (const compiled of message.compiledInstructions) {
+      const programId = this.keyAt(accountKeys, compiled.programIdIndex);
+      const accounts = compiled.accountKeyIndexes.map((index) => this.keyAt(accountKeys, index));
+      const writableAccounts = compiled.accountKeyIndexes
+        .filter((index) => message.isAccountWritable(index))
+        .map((index) => this.keyAt(accountKeys, index));
+
+      instructions.push({ programId, accounts, writableAccounts });
+
+      if (programId === SystemProgram.programId.toBase58()) {
+        const transfer = this.decodeSystemTransfer(
+          new TransactionInstruction({
+            programId: SystemProgram.programId,
+            keys: compiled.accountKeyIndexes.map((index) => ({
+              pubkey: new PublicKey(this.keyAt(accountKeys, index)),
+              isSigner: message.isAccountSigner(index),
+              isWritable: message.isAccountWritable(index),
+            })),
+            data: Buffer.from(compiled.data),
+          }),
+        );
+        if (transfer) nativeTransfers.push(transfer);
+      }
+    }
+
+    return {
+      chain: chainTx.chain,
+      instructions,
+      programIds: unique(instructions.map((ix) => ix.programId)),
+      writableAccounts: unique(instructions.flatMap((ix) => ix.writableAccounts)),
+      signers,
+      nativeTransfers,
+      complete: true,
+    };
+  }
+
+  private inspectKitInstructions(
+    kitInstructions: Instruction[],
+    chainTx: ChainTransaction,
+  ): TransactionInspection {
+    const instructions: InspectedInstruction[] = kitInstructions.map((ix) => ({
+      programId: ix.programAddress,
+      accounts: (ix.accounts ?? []).map((meta) => meta.address),
+      writableAccounts: (ix.accounts ?? [])
+        .filter((meta) => isWritableRole(meta.role))
+        .map((meta) => meta.address),
+    }));
+
+    const signers = kitInstructions.flatMap((ix) =>
+      (ix.accounts ?? []).filter((meta) => isSignerRole(meta.role)).map((meta) => meta.address),
+    );
+
+    return {
+      chain: chainTx.chain,
+      instructions,
+      // Fall back to the declared programs if the SDK returned no instructions
+      programIds: instructions.length > 0
+        ? unique(instructions.map((ix) => ix.programId))
+        : chainTx.programIds,
+      writableAccounts: unique(instructions.flatMap((ix) => ix.writableAccounts)),
+      signers: unique(signers),
+      nativeTransfers: [],
+      swap: chainTx.swapQuote,
+      complete: false,
+    };
+  }
+
+  /** Lamports moved by a System Program transfer or account creation */
+  private decodeSystemTransfer(instruction: TransactionInstruction): NativeTransfer | null {
+    try {
+      switch (SystemInstruction.decodeInstructionType(instruction)) {
+        case "Transfer": {
+          const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(instruction);
+          return { from: fromPubkey.toBase58(), to: toPubkey.toBase58(), amount: BigInt(lamports) };
+        }
+        case "TransferWithSeed": {
+          const { fromPubkey, toPubkey, lamports } =
+            SystemInstruction.decodeTransferWithSeed(instruction);
+          return { from: fromPubkey.toBase58(), to: toPubkey.toBase58(), amount: BigInt(lamports) };
+        }
+        case "Create": {
+          const { fromPubkey, newAccountPubkey, lamports } =
+            SystemInstruction.decodeCreateAccount(instruction);
+          return {
+            from: fromPubkey.toBase58(),
+            to: newAccountPubkey.toBase58(),
+            amount: BigInt(lamports),
+          };
+        }
+        default:
+          return null;
+      }
+    } catch {
+      return null; // Not a decodable System instruction
+    }
+  }
+
+  private async loadLookupTables(addresses: PublicKey[]): Promise<AddressLookupTableAccount[]> {
+    const tables: AddressLookupTableAccount[] = [];
+    for (const address of addresses) {
+      const { value } = await this.client.connection.getAddressLookupTable(address);
+      if (!value) {
+        throw new Error(`Address lookup table ${address.toBase58()} not found`);
+      }
+      tables.push(value);
+    }
+    return tables;
+  }
+
+  private keyAt(accountKeys: MessageAccountKeys, index: number): string {
+    const key = accountKeys.get(index);
+    if (!key) {
+      throw new Error(`Account index ${index} is out of range`);
+    }
+    return key.toBase58();
+  }
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -8,7 +8,10 @@ export interface PoolInfo {
   address: string;
   tokenMintA: string;
   tokenMintB: string;
-  /** Current price of tokenA denominated in tokenB */
+  /**
+   * Price of tokenA denominated in tokenB, as listed by the API; "0" for
+   * the devnet pools. Read the pool account for a live price.
+   */
   price: string;
   tvlUsdc: string;
 }
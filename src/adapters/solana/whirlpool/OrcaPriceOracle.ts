@@ -0,0 +1,70 @@
+// ---------------------------------------------------------------------------
+// OrcaPriceOracle — Prices tokens in USD from the deepest Orca Whirlpool
+// pairing them with USDC (see OrcaPoolResolver). The price is read from the
+// pool account's sqrt price, not from the pool listing, so pools the API
+// does not price (the hardcoded devnet ones) still work. Prices are cached
+// briefly so a burst of policy checks does not hammer the RPC or Orca API.
+// ---------------------------------------------------------------------------
+
+import { PublicKey } from "@solana/web3.js";
+import type { Connection } from "@solana/web3.js";
+import type { IPriceOracle, TokenPrice } from "../../../core/interfaces/IPriceOracle.js";
+import { resolvePool } from "./OrcaPoolResolver.js";
+import { decodeWhirlpool, spotPrice } from "./WhirlpoolAccount.js";
+
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+export interface OrcaPriceOracleOptions {
+  /** Reads the pool accounts */
+  connection: Pick<Connection, "getAccountInfo">;
+  /** Decimals of an SPL mint, to turn the base-unit price into a whole-token one */
+  getDecimals: (mint: string) => Promise<number>;
+  cacheTtlMs?: number;
+}
+
+export class OrcaPriceOracle implements IPriceOracle {
+  private readonly connection: Pick<Connection, "getAccountInfo">;
+  private readonly getDecimals: (mint: string) => Promise<number>;
+  private readonly cacheTtlMs: number;
+  private readonly cache = new Map<string, { price: TokenPrice; expiresAt: number }>();
+
+  constructor(options: OrcaPriceOracleOptions) {
+    this.connection = options.connection;
+    this.getDecimals = options.getDecimals;
+    this.cacheTtlMs = options.cacheTtlMs ?? 60_000;
+  }
+
+  async getUsdPrice(mint: string): Promise<TokenPrice> {
+    if (mint === USDC_MINT) {
+      return { mint, usd: 1, source: "orca", asOf: new Date().toISOString() };
+    }
+
+    const cached = this.cache.get(mint);
+    if (cached && cached.expiresAt > Date.now()) return cached.price;
+
+    const pool = await resolvePool(mint, USDC_MINT);
+    const account = await this.connection.getAccountInfo(new PublicKey(pool.address));
+    const whirlpool = account ? decodeWhirlpool(account.data) : null;
+    if (!whirlpool) {
+      throw new Error(`Orca pool ${pool.address} is not a readable Whirlpool account`);
+    }
+    if (whirlpool.tokenMintA !== mint && whirlpool.tokenMintB !== mint) {
+      throw new Error(`Orca pool ${pool.address} does not trade ${mint}`);
+    }
+
+    const [decimalsA, decimalsB] = await Promise.all([
+      this.getDecimals(whirlpool.tokenMintA),
+      this.getDecimals(whirlpool.tokenMintB),
+    ]);
+    // Whole token A denominated in whole token B
+    const poolPrice = spotPrice(whirlpool.sqrtPrice) * 10 ** (decimalsA - decimalsB);
+    const usd = whirlpool.tokenMintA === mint ? poolPrice : 1 / poolPrice;
+    if (!Number.isFinite(usd) || usd <= 0) {
+      throw new Error(`Orca pool ${pool.address} has no usable price for ${mint}`);
+    }
+
+    const price: TokenPrice = { mint, usd, source: "orca", asOf: new Date().toISOString() };
+    this.cache.set(mint, { price, expiresAt: Date.now() + this.cacheTtlMs });
+    return price;
+  }
+}
@@ -0,0 +1,37 @@
+// ---------------------------------------------------------------------------
+// WhirlpoolAccount — Decodes the parts of an Orca Whirlpool account the
+// kernel reads directly: the Q64.64 sqrt price and the two mints. Used to
+// judge swap price impact and to price tokens without the Orca API.
+// ---------------------------------------------------------------------------
+
+import { PublicKey } from "@solana/web3.js";
+
+/** Whirlpool account layout: u128 sqrt price (Q64.64) and the two mints */
+const SQRT_PRICE_OFFSET = 65;
+const MINT_A_OFFSET = 101;
+const MINT_B_OFFSET = 181;
+
+export interface WhirlpoolState {
+  /** Q64.64 square root of the price of token A in token B */
+  sqrtPrice: bigint;
+  tokenMintA: string;
+  tokenMintB: string;
+}
+
+/** Decode a Whirlpool account; null if the data is too short to be one */
+export function decodeWhirlpool(data: Uint8Array): WhirlpoolState | null {
+  if (data.length < MINT_B_OFFSET + 32) return null;
+
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  return {
+    sqrtPrice: buffer.readBigUInt64LE(SQRT_PRICE_OFFSET)
+      + (buffer.readBigUInt64LE(SQRT_PRICE_OFFSET + 8) << 64n),
+    tokenMintA: new PublicKey(buffer.subarray(MINT_A_OFFSET, MINT_A_OFFSET + 32)).toBase58(),
+    tokenMintB: new PublicKey(buffer.subarray(MINT_B_OFFSET, MINT_B_OFFSET + 32)).toBase58(),
+  };
+}
+
+/** Price of token A in token B, both in base units */
+export function spotPrice(sqrtPrice: bigint): number {
+  return (Number(sqrtPrice) / 2 ** 64) ** 2;
+}
@@ -0,0 +1,114 @@
+// ---------------------------------------------------------------------------
+// approvals — CLI for deciding intents parked in the approval queue.
+// Talks to the API server, so approved intents resume in the process that
+// owns the policy state.
+// ---------------------------------------------------------------------------
+
+import { parseArgs } from "node:util";
+
+import type { ApprovalRequest } from "../core/types/Approval.js";
+
+const USAGE =
+  "Usage: npm run approvals -- <list|approve|reject> [id] " +
+  "[--by <name>] [--note <text>] [--status <status>] [--server <url>]";
+
+async function request<T>(
+  server: string,
+  method: "GET" | "POST",
+  path: string,
+  body?: object,
+): Promise<T> {
+  const response = await fetch(`${server}${path}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const payload = (await response.json()) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(payload.error ?? `${method} ${path} failed with ${response.status}`);
+  }
+  return payload;
+}
+
+function printRequest(approval: ApprovalRequest): void {
+  console.log(`- Approval : ${approval.id}`);
+  console.log(`  Status   : ${approval.status}`);
+  console.log(`  Intent   : ${approval.intentId} (${String(approval.intent.type)})`);
+  console.log(`  Agent    : ${approval.agentId}`);
+  console.log(`  Wallet   : ${approval.walletId}`);
+  console.log(`  Policy   : ${approval.policyId}${approval.policySet ? ` [${approval.policySet}]` : ""}`);
+  console.log(`  Reason   : ${approval.reason}`);
+  console.log(`  Expires  : ${approval.expiresAt}`);
+  if (approval.decidedBy) {
+    console.log(`  Decided  : ${approval.decidedBy} at ${approval.decidedAt}`);
+  }
+  if (approval.note) {
+    console.log(`  Note     : ${approval.note}`);
+  }
+  console.log();
+}
+
+async function main() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      by: { type: "string" },
+      note: { type: "string" },
+      status: { type: "string", default: "pending" },
+      server: { type: "string", default: `http://localhost:${process.env.API_PORT ?? 3001}` },
+    },
+  });
+
+  const [command, id] = positionals;
+  const server = values.server ?? "";
+
+  if (command === "list") {
+    const query = values.status === "all" ? "" : `?status=${values.status}`;
+    const { approvals } = await request<{ approvals: ApprovalRequest[] }>(
+      server,
+      "GET",
+      `/api/approvals${query}`,
+    );
+
+    if (approvals.length === 0) {
+      console.log(`No ${values.status === "all" ? "" : `${values.status} `}approval requests.`);
+      return;
+    }
+    console.log();
+    console.log("=== Approval Requests ===");
+    for (const approval of approvals) printRequest(approval);
+    return;
+  }
+
+  if ((command === "approve" || command === "reject") && id) {
+    if (!values.by) {
+      console.error("--by <name> is required to approve or reject");
+      process.exit(1);
+    }
+
+    const { approval, result } = await request<{
+      approval: ApprovalRequest;
+      result?: { status: string; txHash?: string; errorMessage?: string; approvalId?: string };
+    }>(server, "POST", `/api/approvals/${id}/${command}`, {
+      decidedBy: values.by,
+      note: values.note,
+    });
+
+    printRequest(approval);
+    if (result) {
+      console.log(`Execution: ${result.status}`);
+      if (result.txHash) console.log(`  Signature: ${result.txHash}`);
+      if (result.errorMessage) console.log(`  Error    : ${result.errorMessage}`);
+      if (result.status !== "success" && result.status !== "pending_approval") process.exit(1);
+    }
+    return;
+  }
+
+  console.error(USAGE);
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
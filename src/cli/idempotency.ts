@@ -0,0 +1,74 @@
+// ---------------------------------------------------------------------------
+// idempotency — CLI for inspecting the idempotency store and clearing
+// intents left in flight by a crashed process. Check the chain before
+// clearing one: if its transaction landed, resubmitting it pays again.
+// ---------------------------------------------------------------------------
+
+import { parseArgs } from "node:util";
+
+import type { IdempotencyRecord } from "../core/interfaces/IIdempotencyStore.js";
+import { loadConfig } from "../infra/config/ConfigLoader.js";
+import { FileIdempotencyStore } from "../infra/storage/FileIdempotencyStore.js";
+
+const USAGE = "Usage: npm run idempotency -- <list|clear> [intentId] [--all]";
+
+function printRecord(record: IdempotencyRecord): void {
+  console.log(`- Intent   : ${record.key} (${String(record.intent.type)})`);
+  console.log(`  State    : ${record.state}`);
+  console.log(`  Agent    : ${record.agentId}`);
+  console.log(`  Started  : ${record.startedAt}`);
+  if (record.completedAt) {
+    console.log(`  Completed: ${record.completedAt} (${record.result?.status ?? "unknown"})`);
+  }
+  console.log();
+}
+
+async function main() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      all: { type: "boolean", default: false },
+    },
+  });
+
+  const [command, id] = positionals;
+  const config = loadConfig();
+  const store = new FileIdempotencyStore(config.IDEMPOTENCY_STORE_PATH);
+
+  if (command === "list") {
+    const records = (await store.list()).filter(
+      (record) => values.all || record.state === "in_flight",
+    );
+    if (records.length === 0) {
+      console.log(values.all ? "No recorded intents." : "No intents in flight.");
+      return;
+    }
+    console.log();
+    console.log(values.all ? "=== Recorded Intents ===" : "=== Intents In Flight ===");
+    for (const record of records) printRecord(record);
+    return;
+  }
+
+  if (command === "clear" && id) {
+    const record = await store.get(id);
+    if (!record) {
+      console.error(`No record for intent ${id}`);
+      process.exit(1);
+    }
+    if (record.state !== "in_flight") {
+      console.error(`Intent ${id} has completed; only in-flight intents can be cleared`);
+      process.exit(1);
+    }
+    await store.release(id);
+    console.log(`Cleared intent ${id}; it can be submitted again.`);
+    return;
+  }
+
+  console.error(USAGE);
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("Fatal error:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -7,21 +7,34 @@ import { readFileSync } from "node:fs";
 import { parseArgs } from "node:util";
 
 import { IntentSchema, type Intent } from "../core/intents/Intent.js";
-import { loadConfig } from "../infra/config/ConfigLoader.js";
+import { loadConfig, priorityFeeFromConfig } from "../infra/config/ConfigLoader.js";
 import { createLogger, setDefaultLogLevel } from "../infra/logging/LoggerFactory.js";
 import { EncryptedFileKeyStore } from "../wallet/keystore/EncryptedFileKeyStore.js";
 import { WalletManager } from "../wallet/WalletManager.js";
 import { Signer } from "../wallet/Signer.js";
 import { PolicyEngine } from "../wallet/policies/PolicyEngine.js";
 import { SpendingLimitPolicy } from "../wallet/policies/SpendingLimitPolicy.js";
+import { BalanceReservePolicy } from "../wallet/policies/BalanceReservePolicy.js";
+import { SwapSlippagePolicy } from "../wallet/policies/SwapSlippagePolicy.js";
+import { TokenGovernancePolicy } from "../wallet/policies/TokenGovernancePolicy.js";
 import { ProgramWhitelistPolicy } from "../wallet/policies/ProgramWhitelistPolicy.js";
 import { RateLimitPolicy } from "../wallet/policies/RateLimitPolicy.js";
+import { PolicyLoader } from "../wallet/policies/PolicyLoader.js";
+import { PolicyFactory } from "../wallet/policies/PolicyFactory.js";
 import { SolanaClient } from "../adapters/solana/SolanaClient.js";
 import { SolanaTransactionBuilder } from "../adapters/solana/SolanaTransactionBuilder.js";
 import { SolanaProtocolAdapter } from "../adapters/solana/SolanaProtocolAdapter.js";
+import { SolanaTokenAdapter } from "../adapters/solana/SolanaTokenAdapter.js";
+import { OrcaPriceOracle } from "../adapters/solana/whirlpool/OrcaPriceOracle.js";
+import { StaticPriceOracle } from "../infra/pricing/StaticPriceOracle.js";
 import { AdapterFactory } from "../adapters/AdapterFactory.js";
 import { IntentRouter } from "../orchestrator/IntentRouter.js";
 import { Executor } from "../orchestrator/Executor.js";
+import { RetryPolicy } from "../orchestrator/RetryPolicy.js";
+import { JsonlAuditLog } from "../infra/audit/JsonlAuditLog.js";
+import { FileIdempotencyStore } from "../infra/storage/FileIdempotencyStore.js";
+import { FilePolicyStateStore } from "../infra/storage/FilePolicyStateStore.js";
+import { FileApprovalQueue } from "../infra/storage/FileApprovalQueue.js";
 import { setWhirlpoolsConfig, setRpc } from "@orca-so/whirlpools";
 
 import { randomUUID } from "node:crypto";
@@ -57,6 +70,7 @@ async function main() {
     options: {
       file: { type: "string" },
       intent: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
     },
   });
 
@@ -66,7 +80,7 @@ async function main() {
   } else if (values.intent) {
     rawJson = values.intent;
   } else {
-    console.error("Usage: npm run run-intent -- --file <path> | --intent <json>");
+    console.error("Usage: npm run run-intent -- --file <path> | --intent <json> [--dry-run]");
     process.exit(1);
   }
 
@@ -106,17 +120,66 @@ async function main() {
   const solanaClient = new SolanaClient(config.SOLANA_RPC_URL, createLogger("SolanaClient"));
   const walletManager = new WalletManager(keyStore, createLogger("WalletManager"));
   const signer = new Signer(keyStore, createLogger("Signer"));
+  const tokenAdapter = new SolanaTokenAdapter(solanaClient, createLogger("TokenAdapter"));
 
+  const auditLog = new JsonlAuditLog(config.AUDIT_LOG_PATH);
+  const policyStateStore = new FilePolicyStateStore(config.POLICY_STATE_PATH);
   const policyEngine = new PolicyEngine(createLogger("PolicyEngine"));
-  policyEngine.register(new SpendingLimitPolicy(config.MAX_SPEND_LAMPORTS));
-  // policyEngine.register(new ProgramWhitelistPolicy(config.ALLOWED_PROGRAMS));
-  policyEngine.register(new RateLimitPolicy(config.MAX_TX_PER_MINUTE));
+  if (config.POLICY_FILE) {
+    await new PolicyLoader({
+      filePath: config.POLICY_FILE,
+      engine: policyEngine,
+      logger: createLogger("PolicyLoader"),
+      factory: new PolicyFactory({
+        getManagedAddresses: () => walletManager.getAllPublicKeys(),
+        getWalletAddress: (walletId) => walletManager.getWallet(walletId)?.getPublicKey(),
+        getDecimals: (mint) => tokenAdapter.getMintDecimals(mint),
+        priceOracle: config.PRICE_ORACLE === "static"
+          ? StaticPriceOracle.parse(config.STATIC_PRICES_USD)
+          : new OrcaPriceOracle({
+            connection: solanaClient.connection,
+            getDecimals: (mint) => tokenAdapter.getMintDecimals(mint),
+          }),
+        stateStore: policyStateStore,
+        auditLog,
+      }),
+    }).load();
+  } else {
+    policyEngine.register(
+      new SpendingLimitPolicy(config.MAX_SPEND_LAMPORTS, undefined, { stateStore: policyStateStore }),
+    );
+    policyEngine.register(new BalanceReservePolicy(config.MIN_BALANCE_LAMPORTS));
+    policyEngine.register(
+      new SwapSlippagePolicy({
+        maxSlippageBps: config.MAX_SWAP_SLIPPAGE_BPS,
+        maxPriceImpactBps: config.MAX_PRICE_IMPACT_BPS,
+      }),
+    );
+    policyEngine.register(
+      new TokenGovernancePolicy({
+        allowedAuthorities: config.ALLOWED_TOKEN_AUTHORITIES,
+        allowedDestinations: config.ALLOWED_MINT_DESTINATIONS,
+        getManagedAddresses: () => walletManager.getAllPublicKeys(),
+        getWalletAddress: (walletId) => walletManager.getWallet(walletId)?.getPublicKey(),
+      }),
+    );
+    policyEngine.register(new ProgramWhitelistPolicy(config.ALLOWED_PROGRAMS));
+    policyEngine.register(
+      new RateLimitPolicy(config.MAX_TX_PER_MINUTE, { stateStore: policyStateStore }),
+    );
+  }
 
   const txBuilder = new SolanaTransactionBuilder(
     solanaClient,
     createLogger("TxBuilder"),
     (walletId) => walletManager.getPublicKey(walletId),
     (walletId) => signer.getSecretKey(walletId),
+    {
+      priorityFee: priorityFeeFromConfig(config),
+      transactionVersion: config.TRANSACTION_VERSION,
+      addressLookupTables: config.ADDRESS_LOOKUP_TABLES,
+      defaultSlippageBps: config.SWAP_DEFAULT_SLIPPAGE_BPS,
+    },
   );
 
   const solanaAdapter = new SolanaProtocolAdapter(solanaClient, txBuilder, createLogger("SolanaAdapter"));
@@ -130,6 +193,15 @@ async function main() {
     signer,
     logger: createLogger("Executor"),
     getBalance: async (walletId) => solanaClient.getBalance(walletManager.getPublicKey(walletId)),
+    auditLog,
+    idempotencyStore: new FileIdempotencyStore(config.IDEMPOTENCY_STORE_PATH),
+    retryPolicy: new RetryPolicy({
+      maxAttempts: config.TX_MAX_ATTEMPTS,
+      baseDelayMs: config.TX_RETRY_BASE_DELAY_MS,
+      maxDelayMs: config.TX_RETRY_MAX_DELAY_MS,
+    }),
+    approvalQueue: new FileApprovalQueue(config.APPROVAL_QUEUE_PATH),
+    approvalTtlMs: config.APPROVAL_TTL_MS,
   });
 
   // Verify wallet exists
@@ -147,10 +219,30 @@ async function main() {
   const agentId = "cli-runner";
 
   const startTime = Date.now();
-  const result = await executor.execute(intent, agentId);
+  const result = await executor.execute(intent, agentId, { dryRun: values["dry-run"] });
   const durationMs = Date.now() - startTime;
 
-  if (result.status === "success") {
+  if (result.status === "simulated") {
+    logger.info("Dry run complete (nothing was sent):", {
+      success: result.simulation.success,
+      unitsConsumed: result.simulation.unitsConsumed,
+      balanceChanges: result.simulation.balanceChanges,
+      error: result.simulation.error,
+      durationMs,
+    });
+    for (const line of result.simulation.logs) {
+      console.log(`  ${line}`);
+    }
+    if (!result.simulation.success) process.exit(1);
+  } else if (result.status === "pending_approval") {
+    logger.warn("Intent parked for approval:", {
+      approvalId: result.approvalId,
+      policyId: result.policyId,
+      reason: result.reason,
+      expiresAt: result.expiresAt,
+    });
+    logger.info(`Approve it with: npm run approvals -- approve ${result.approvalId} --by <name>`);
+  } else if (result.status === "success") {
     logger.info("Execution successful:", {
       signature: result.txHash,
       explorer: result.meta?.explorerUrl,
@@ -0,0 +1,20 @@
+// ---------------------------------------------------------------------------
+// ApprovalError — Thrown when an approval request cannot be decided.
+// ---------------------------------------------------------------------------
+
+import { DomainError } from "./DomainError.js";
+
+export type ApprovalErrorCode =
+  | "APPROVAL_NOT_FOUND"
+  | "APPROVAL_NOT_PENDING"
+  | "APPROVAL_EXPIRED";
+
+export class ApprovalError extends DomainError {
+  readonly approvalId: string;
+
+  constructor(code: ApprovalErrorCode, approvalId: string, message: string) {
+    super(code, message);
+    this.name = "ApprovalError";
+    this.approvalId = approvalId;
+  }
+}
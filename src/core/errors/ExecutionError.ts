@@ -1,5 +1,7 @@
 // ---------------------------------------------------------------------------
 // ExecutionError — Thrown when a pipeline stage fails.
+// Adapters mark transient failures (expired blockhash, rate limits, lagging
+// nodes) as retryable so the Executor can rebuild and resend.
 // ---------------------------------------------------------------------------
 
 import { DomainError } from "./DomainError.js";
@@ -7,10 +9,13 @@ import type { PipelineStage } from "../types/ExecutionResult.js";
 
 export class ExecutionError extends DomainError {
   readonly stage: PipelineStage;
+  /** True if the same intent may succeed when rebuilt and resent */
+  readonly retryable: boolean;
 
-  constructor(stage: PipelineStage, message: string, cause?: Error) {
+  constructor(stage: PipelineStage, message: string, cause?: Error, retryable = false) {
     super("EXECUTION_ERROR", `Pipeline failed at "${stage}": ${message}`, cause);
     this.name = "ExecutionError";
     this.stage = stage;
+    this.retryable = retryable;
   }
 }
@@ -0,0 +1,22 @@
+// ---------------------------------------------------------------------------
+// ExpressionError — Thrown when a policy expression cannot be parsed,
+// type-checked or evaluated.
+// ---------------------------------------------------------------------------
+
+import { DomainError } from "./DomainError.js";
+
+export type ExpressionErrorCode =
+  | "EXPRESSION_SYNTAX"
+  | "EXPRESSION_TYPE"
+  | "EXPRESSION_RUNTIME";
+
+export class ExpressionError extends DomainError {
+  /** Offset in the source the error points at */
+  readonly position: number;
+
+  constructor(code: ExpressionErrorCode, message: string, position: number) {
+    super(code, `${message} (at ${position})`);
+    this.name = "ExpressionError";
+    this.position = position;
+  }
+}
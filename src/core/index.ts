@@ -7,36 +7,94 @@ export {
   IntentSchema,
   TransferIntentSchema,
   SwapIntentSchema,
+  PriorityFeeSchema,
+  BatchIntentSchema,
   isTransferIntent,
   isSwapIntent,
+  isBatchIntent,
+  deriveIntentId,
+  reviveIntent,
+} from "./intents/Intent.js";
+export type {
+  Intent,
+  TransferIntent,
+  SwapIntent,
+  BatchIntent,
+  BatchItem,
+  PriorityFee,
 } from "./intents/Intent.js";
-export type { Intent, TransferIntent, SwapIntent } from "./intents/Intent.js";
 
 // Types
 export type {
   ExecutionResult,
   ExecutionSuccess,
   ExecutionFailure,
+  ExecutionSimulated,
+  ExecutionPendingApproval,
   PipelineStage,
 } from "./types/ExecutionResult.js";
-export type { PolicyDecision, PolicyAllow, PolicyDeny } from "./types/PolicyDecision.js";
-export { isPolicyAllowed } from "./types/PolicyDecision.js";
+export type { SimulationOutcome, BalanceChange } from "./types/SimulationOutcome.js";
+export type { TransactionStatus } from "./types/TransactionStatus.js";
+export type {
+  PipelineEvent,
+  StageStartedEvent,
+  StageCompletedEvent,
+  StageFailedEvent,
+  StageRetryingEvent,
+  PipelineFinishedEvent,
+} from "./types/PipelineEvent.js";
+export type { AuditEntry, AuditEntryType, AuditQuery } from "./types/AuditEntry.js";
+export type {
+  PolicyDecision,
+  PolicyAllow,
+  PolicyDeny,
+  PolicyApprovalRequired,
+} from "./types/PolicyDecision.js";
+export { isPolicyAllowed, requiresApproval } from "./types/PolicyDecision.js";
+export type {
+  PolicyPhase,
+  PolicyEvaluation,
+  PolicyReport,
+  PolicyExplanation,
+} from "./types/PolicyReport.js";
+export type { ApprovalRequest, ApprovalStatus, ApprovalGrant } from "./types/Approval.js";
 export type { WalletInfo } from "./types/WalletInfo.js";
 export type { ChainTransaction } from "./types/ChainTransaction.js";
+export type { SwapQuote } from "./types/SwapQuote.js";
+export type {
+  TransactionInspection,
+  InspectedInstruction,
+  NativeTransfer,
+} from "./types/TransactionInspection.js";
 
 // Interfaces
 export type { IAgent, AgentContext } from "./interfaces/IAgent.js";
 export type { IWallet } from "./interfaces/IWallet.js";
 export type { IKeyStore } from "./interfaces/IKeyStore.js";
 export type { ISigner } from "./interfaces/ISigner.js";
-export type { IPolicy, PolicyContext } from "./interfaces/IPolicy.js";
-export type { IPolicyEngine } from "./interfaces/IPolicyEngine.js";
+export type { IPolicy, OnDemandContext, PolicyContext } from "./interfaces/IPolicy.js";
+export type { IPolicyEngine, PolicySets } from "./interfaces/IPolicyEngine.js";
 export type { IProtocolAdapter } from "./interfaces/IProtocolAdapter.js";
-export type { IExecutor } from "./interfaces/IExecutor.js";
+export type { IExecutor, ExecutionOptions } from "./interfaces/IExecutor.js";
 export type { ILogger } from "./interfaces/ILogger.js";
+export type { IPipelineEvents, PipelineEventListener } from "./interfaces/IPipelineEvents.js";
+export type { IAuditLog } from "./interfaces/IAuditLog.js";
+export type { IIdempotencyStore, IdempotencyRecord } from "./interfaces/IIdempotencyStore.js";
+export type { IPriceOracle, TokenPrice } from "./interfaces/IPriceOracle.js";
+export type {
+  IPolicyStateStore,
+  PolicyStateOptions,
+} from "./interfaces/IPolicyStateStore.js";
+export type {
+  IApprovalQueue,
+  NewApprovalRequest,
+  ApprovalDecision,
+} from "./interfaces/IApprovalQueue.js";
 
 // Errors
 export { DomainError } from "./errors/DomainError.js";
 export { PolicyViolation } from "./errors/PolicyViolation.js";
 export { SigningError } from "./errors/SigningError.js";
 export { ExecutionError } from "./errors/ExecutionError.js";
+export { ApprovalError } from "./errors/ApprovalError.js";
+export { ExpressionError } from "./errors/ExpressionError.js";
@@ -3,8 +3,36 @@
 // This is a pure domain type with ZERO blockchain-specific imports.
 // ---------------------------------------------------------------------------
 
+import { createHash } from "node:crypto";
 import { z } from "zod";
 
+// ── Priority fee ───────────────────────────────────────────────────────────
+
+export const PriorityFeeSchema = z.object({
+  /**
+   * How to price compute units:
+   * - "none":       no priority fee
+   * - "fixed":      `microLamports` per compute unit
+   * - "percentile": the given percentile of recent prioritization fees
+   */
+  strategy: z.enum(["none", "fixed", "percentile"]),
+  /** Price per compute unit for the "fixed" strategy */
+  microLamports: z.number().int().nonnegative().optional(),
+  /** Percentile (0–100) of recent fees for the "percentile" strategy */
+  percentile: z.number().int().min(0).max(100).optional(),
+  /** Upper bound on the price per compute unit, whatever the strategy */
+  maxMicroLamports: z.number().int().nonnegative().optional(),
+  /** Compute unit limit, or "simulate" to measure it before sending */
+  computeUnitLimit: z
+    .union([z.number().int().positive().max(1_400_000), z.literal("simulate")])
+    .optional(),
+}).refine((fee) => fee.strategy !== "fixed" || fee.microLamports !== undefined, {
+  message: "microLamports is required for the fixed strategy",
+  path: ["microLamports"],
+});
+
+export type PriorityFee = z.infer<typeof PriorityFeeSchema>;
+
 // ── Shared fields ──────────────────────────────────────────────────────────
 
 const BaseIntentSchema = z.object({
@@ -18,6 +46,8 @@ const BaseIntentSchema = z.object({
   createdAt: z.string().datetime(),
   /** Human-readable reasoning from the agent for this action (for audit/walkthroughs) */
   reasoning: z.string().optional(),
+  /** Optional priority-fee override; defaults to the configured strategy */
+  priorityFee: PriorityFeeSchema.optional(),
 });
 
 // ── Transfer Intent ────────────────────────────────────────────────────────
@@ -78,6 +108,45 @@ export const MintTokenIntentSchema = BaseIntentSchema.extend({
 
 export type MintTokenIntent = z.infer<typeof MintTokenIntentSchema>;
 
+// ── Batch Intent ───────────────────────────────────────────────────────────
+
+/** Create the owner's associated token account if it does not exist yet */
+export const CreateTokenAccountItemSchema = z.object({
+  type: z.literal("create_token_account"),
+  /** SPL mint address */
+  mint: z.string().min(1),
+  /** Wallet that will own the token account */
+  owner: z.string().min(1),
+});
+
+/** Attach a UTF-8 memo to the transaction */
+export const MemoItemSchema = z.object({
+  type: z.literal("memo"),
+  text: z.string().min(1).max(512),
+});
+
+export const BatchItemSchema = z.discriminatedUnion("type", [
+  TransferIntentSchema.pick({ type: true, to: true, amount: true, tokenMint: true }),
+  MintTokenIntentSchema.pick({ type: true, mint: true, to: true, amount: true }),
+  CreateTokenAccountItemSchema,
+  MemoItemSchema,
+]);
+
+export type BatchItem = z.infer<typeof BatchItemSchema>;
+
+export const BatchIntentSchema = BaseIntentSchema.extend({
+  type: z.literal("batch"),
+  /** Operations executed in order, all from `fromWalletId` */
+  items: z.array(BatchItemSchema).min(1).max(32),
+  /**
+   * true (default): all items land in one transaction or none do.
+   * false: items may be split across the fewest transactions that fit.
+   */
+  atomic: z.boolean().default(true),
+});
+
+export type BatchIntent = z.infer<typeof BatchIntentSchema>;
+
 // ── Discriminated Union ────────────────────────────────────────────────────
 
 export const IntentSchema = z.discriminatedUnion("type", [
@@ -85,6 +154,7 @@ export const IntentSchema = z.discriminatedUnion("type", [
   SwapIntentSchema,
   CreateMintIntentSchema,
   MintTokenIntentSchema,
+  BatchIntentSchema,
 ]);
 
 export type Intent = z.infer<typeof IntentSchema>;
@@ -106,3 +176,52 @@ export function isCreateMintIntent(intent: Intent): intent is CreateMintIntent {
 export function isMintTokenIntent(intent: Intent): intent is MintTokenIntent {
   return intent.type === "mint_token";
 }
+
+export function isBatchIntent(intent: Intent): intent is BatchIntent {
+  return intent.type === "batch";
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * Derive a stable, UUID-shaped intent ID from a seed, so the same seed
+ * (e.g. an idempotency key or a parent intent ID plus index) always maps to
+ * the same intent.
+ */
+export function deriveIntentId(seed: string): string {
+  const hex = createHash("sha256").update(seed).digest("hex");
+  const variant = ((parseInt(hex.charAt(16), 16) & 0x3) | 0x8).toString(16);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `5${hex.slice(13, 16)}`,
+    `${variant}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+/** Intent fields holding BigInt amounts, which JSON stores as strings */
+const AMOUNT_FIELDS = ["amount", "amountIn", "minAmountOut"] as const;
+
+/**
+ * Rebuild an intent that was stored as JSON (BigInts as strings), such as a
+ * request parked in the approval queue. Throws if it is no longer valid.
+ */
+export function reviveIntent(stored: Record<string, unknown>): Intent {
+  const revive = (value: Record<string, unknown>): Record<string, unknown> => {
+    const copy = { ...value };
+    for (const field of AMOUNT_FIELDS) {
+      const amount = copy[field];
+      if (typeof amount === "string" || typeof amount === "number") {
+        copy[field] = BigInt(amount);
+      }
+    }
+    return copy;
+  };
+
+  const intent = revive(stored);
+  if (Array.isArray(intent.items)) {
+    intent.items = intent.items.map((item: Record<string, unknown>) => revive(item));
+  }
+  return IntentSchema.parse(intent);
+}
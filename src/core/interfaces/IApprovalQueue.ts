@@ -0,0 +1,36 @@
+// ---------------------------------------------------------------------------
+// IApprovalQueue — Contract for storing intents that await human approval.
+// Pending requests past their expiry are reported as "expired".
+// ---------------------------------------------------------------------------
+
+import type { ApprovalRequest, ApprovalStatus } from "../types/Approval.js";
+import type { ExecutionResult } from "../types/ExecutionResult.js";
+
+export type NewApprovalRequest = Omit<
+  ApprovalRequest,
+  "id" | "status" | "createdAt" | "decidedAt" | "decidedBy" | "note" | "result"
+>;
+
+export interface ApprovalDecision {
+  readonly status: "approved" | "rejected";
+  readonly decidedBy: string;
+  readonly note?: string;
+}
+
+export interface IApprovalQueue {
+  /**
+   * Park an intent. If the intent already has a pending request, that
+   * request is returned instead of creating another.
+   */
+  enqueue(request: NewApprovalRequest): Promise<ApprovalRequest>;
+  get(id: string): Promise<ApprovalRequest | null>;
+  /** Most recent first */
+  list(filter?: { status?: ApprovalStatus; limit?: number }): Promise<ApprovalRequest[]>;
+  /**
+   * Approve or reject a pending request.
+   * @throws ApprovalError if it does not exist, was already decided or expired.
+   */
+  decide(id: string, decision: ApprovalDecision): Promise<ApprovalRequest>;
+  /** Store the result of executing an approved request */
+  complete(id: string, result: ExecutionResult): Promise<void>;
+}
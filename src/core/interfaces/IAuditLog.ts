@@ -0,0 +1,14 @@
+// ---------------------------------------------------------------------------
+// IAuditLog — Contract for the append-only execution journal.
+// Records every intent, policy decision, transaction and result for
+// post-incident review of agent behaviour.
+// ---------------------------------------------------------------------------
+
+import type { AuditEntry, AuditQuery } from "../types/AuditEntry.js";
+
+export interface IAuditLog {
+  /** Durably append an entry to the journal */
+  append(entry: AuditEntry): Promise<void>;
+  /** Return entries matching the filter, oldest first */
+  query(filter?: AuditQuery): Promise<AuditEntry[]>;
+}
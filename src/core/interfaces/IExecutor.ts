@@ -5,13 +5,37 @@
 
 import type { Intent } from "../intents/Intent.js";
 import type { ExecutionResult } from "../types/ExecutionResult.js";
+import type { ApprovalGrant } from "../types/Approval.js";
+import type { PolicyExplanation } from "../types/PolicyReport.js";
+
+/** Per-call execution options. */
+export interface ExecutionOptions {
+  /**
+   * Run validation, policy, build and sign, then simulate instead of sending.
+   * Nothing is broadcast; the result has status "simulated".
+   */
+  readonly dryRun?: boolean;
+  /**
+   * Resume an intent a human approved. Policies that asked for approval
+   * let it through; every other policy is evaluated again.
+   */
+  readonly approval?: ApprovalGrant;
+}
 
 export interface IExecutor {
   /**
    * Execute the full pipeline for an intent.
    * @param intent  - The validated intent from an agent.
    * @param agentId - The agent that created this intent (for policy context).
-   * @returns An ExecutionResult (success with txHash or failure with error details).
+   * @param options - Optional execution flags (e.g. dry run).
+   * @returns An ExecutionResult (success with txHash, failure with error details,
+   *          the simulation outcome for dry runs, or the approval request
+   *          the intent was parked in).
+   */
+  execute(intent: Intent, agentId: string, options?: ExecutionOptions): Promise<ExecutionResult>;
+  /**
+   * Evaluate every policy of both phases against the intent without
+   * executing it, and report each decision.
    */
-  execute(intent: Intent, agentId: string): Promise<ExecutionResult>;
+  explain(intent: Intent, agentId: string): Promise<PolicyExplanation>;
 }
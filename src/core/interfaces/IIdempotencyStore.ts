@@ -0,0 +1,40 @@
+// ---------------------------------------------------------------------------
+// IIdempotencyStore — Contract for deduplicating intent execution.
+// Ensures an intent ID moves funds at most once, even across restarts.
+// ---------------------------------------------------------------------------
+
+import type { ExecutionResult } from "../types/ExecutionResult.js";
+
+export interface IdempotencyRecord {
+  /** Idempotency key (the intent ID) */
+  readonly key: string;
+  /** "in_flight" while executing, "completed" once a result is stored */
+  readonly state: "in_flight" | "completed";
+  /** Agent that first submitted the intent */
+  readonly agentId: string;
+  /** The intent as first submitted (BigInts stored as strings) */
+  readonly intent: Record<string, unknown>;
+  /** ISO-8601 timestamp of the first claim */
+  readonly startedAt: string;
+  /** ISO-8601 timestamp of completion */
+  readonly completedAt?: string;
+  /** Original result (without the `cause` error) once completed */
+  readonly result?: ExecutionResult;
+}
+
+export interface IIdempotencyStore {
+  /**
+   * Atomically claim a key for execution.
+   * @returns null if the claim succeeded, otherwise the existing record.
+   */
+  claim(
+    key: string,
+    owner: { agentId: string; intent: Record<string, unknown> },
+  ): Promise<IdempotencyRecord | null>;
+  /** Store the final result for a claimed key */
+  complete(key: string, result: ExecutionResult): Promise<void>;
+  /** Drop a claim so the key can be executed again (nothing was sent) */
+  release(key: string): Promise<void>;
+  /** Look up a key without claiming it */
+  get(key: string): Promise<IdempotencyRecord | null>;
+}
@@ -0,0 +1,18 @@
+// ---------------------------------------------------------------------------
+// IPipelineEvents — Contract for subscribing to execution progress.
+// ---------------------------------------------------------------------------
+
+import type { PipelineEvent } from "../types/PipelineEvent.js";
+
+export type PipelineEventListener = (event: PipelineEvent) => void;
+
+export interface IPipelineEvents {
+  /**
+   * Subscribe to pipeline events for all intents.
+   * @returns A function that removes the listener.
+   */
+  subscribe(listener: PipelineEventListener): () => void;
+
+  /** Events already emitted for an intent (for late subscribers). */
+  history(intentId: string): PipelineEvent[];
+}
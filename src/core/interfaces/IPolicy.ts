@@ -1,10 +1,16 @@
 // ---------------------------------------------------------------------------
 // IPolicy — Contract for a single policy rule.
-// Policies evaluate intents and return allow/deny decisions.
+// Policies evaluate intents and return allow/deny decisions, or ask for a
+// human to approve the intent. Policies that need the real transaction also
+// implement the post-build phase.
+// Stateful policies reserve on allow and are told by the Executor whether
+// to commit or release the reservation once the outcome is known.
 // ---------------------------------------------------------------------------
 
 import type { Intent } from "../intents/Intent.js";
 import type { PolicyDecision } from "../types/PolicyDecision.js";
+import type { TransactionInspection } from "../types/TransactionInspection.js";
+import type { ApprovalGrant } from "../types/Approval.js";
 
 /** Context provided to policies for evaluation. */
 export interface PolicyContext {
@@ -14,18 +20,52 @@ export interface PolicyContext {
   readonly walletId: string;
   /** Current wallet balance (smallest unit) */
   readonly balance: bigint;
+  /** Estimated network fee for the intent (smallest unit), if known */
+  readonly estimatedFee?: bigint;
+  /** Deposits locked in accounts the intent creates (smallest unit), if known */
+  readonly estimatedRent?: bigint;
+  /**
+   * Rent-exempt minimum of the wallet itself (smallest unit), if known.
+   * Looked up only when a loaded policy needs it.
+   */
+  readonly walletRentExempt?: bigint;
   /** Timestamp of intent evaluation */
   readonly evaluatedAt: string;
+  /**
+   * Set when a human approved the intent. Policies that ask for approval
+   * must allow it instead of asking again.
+   */
+  readonly approval?: ApprovalGrant;
 }
 
+/** Context fields that cost a lookup, made only for policies that read them */
+export type OnDemandContext = "walletRentExempt";
+
 export interface IPolicy {
   /** Unique policy identifier */
   readonly policyId: string;
   /** Human-readable policy name */
   readonly name: string;
+  /** On-demand context this policy reads */
+  readonly needsContext?: readonly OnDemandContext[];
   /**
    * Evaluate an intent against this policy.
-   * Must return a PolicyDecision (allow or deny with reason).
+   * Must return a PolicyDecision (allow, deny or require approval, with a
+   * reason). Stateful policies reserve what an allowed intent would consume,
+   * keyed by intent ID.
    */
   evaluate(intent: Intent, context: PolicyContext): Promise<PolicyDecision>;
+  /**
+   * Optional post-build phase: evaluate the transaction that was actually
+   * built for the intent, before it is signed.
+   */
+  evaluateTransaction?(
+    intent: Intent,
+    transaction: TransactionInspection,
+    context: PolicyContext,
+  ): Promise<PolicyDecision>;
+  /** Make the intent's reservation permanent — it may have landed on chain */
+  commit?(intentId: string): Promise<void>;
+  /** Drop the intent's reservation — it was denied or never broadcast */
+  release?(intentId: string): Promise<void>;
 }
@@ -1,18 +1,67 @@
 // ---------------------------------------------------------------------------
 // IPolicyEngine — Contract for policy aggregation.
-// Evaluates all registered policies. First denial short-circuits.
+// Evaluates all registered policies. First denial short-circuits, except in
+// explain mode, which evaluates every policy and reports each decision.
+// Reservations made while evaluating are committed or released afterwards.
+// Wallets and agents may be bound to their own named policy set; everything
+// else is evaluated against the default set.
 // ---------------------------------------------------------------------------
 
 import type { Intent } from "../intents/Intent.js";
 import type { PolicyDecision } from "../types/PolicyDecision.js";
-import type { IPolicy, PolicyContext } from "./IPolicy.js";
+import type { PolicyReport } from "../types/PolicyReport.js";
+import type { TransactionInspection } from "../types/TransactionInspection.js";
+import type { IPolicy, OnDemandContext, PolicyContext } from "./IPolicy.js";
+
+/** Named policy sets and the wallets / agents bound to them */
+export interface PolicySets {
+  /** Policies per set name, inheritance already applied */
+  readonly sets: ReadonlyMap<string, readonly IPolicy[]>;
+  /** Wallet ID → set name */
+  readonly wallets: ReadonlyMap<string, string>;
+  /** Agent ID → set name; wins over a wallet binding */
+  readonly agents: ReadonlyMap<string, string>;
+}
 
 export interface IPolicyEngine {
-  /** Register a new policy */
+  /** Register a new policy in the default set */
   register(policy: IPolicy): void;
+  /** Replace the default set (and any named sets) in one step */
+  load(policies: IPolicy[], sets?: PolicySets): void;
   /**
-   * Evaluate all registered policies against the intent.
-   * Returns the first denial, or an allow if all pass.
+   * Evaluate the policies of the set resolved from the context.
+   * Returns the first denial, else the first request for approval, else an
+   * allow. A denial or a request for approval releases whatever policies
+   * reserved for the intent.
    */
   evaluateAll(intent: Intent, context: PolicyContext): Promise<PolicyDecision>;
+  /**
+   * Evaluate every policy of the resolved set with a post-build phase
+   * against the built transaction. Returns the first denial, or an allow if all pass.
+   * The transaction phase cannot park an intent: asking for approval there
+   * counts as a denial.
+   */
+  evaluateTransaction(
+    intent: Intent,
+    transaction: TransactionInspection,
+    context: PolicyContext,
+  ): Promise<PolicyDecision>;
+  /**
+   * Evaluate every policy of the resolved set, even after a denial, and
+   * report each decision with its duration. A policy that throws is
+   * reported as a denial. Whatever policies reserved is released.
+   */
+  explain(intent: Intent, context: PolicyContext): Promise<PolicyReport>;
+  /** Explain mode for the post-build phase */
+  explainTransaction(
+    intent: Intent,
+    transaction: TransactionInspection,
+    context: PolicyContext,
+  ): Promise<PolicyReport>;
+  /** Commit every policy's reservation for the intent, across all sets */
+  commit(intentId: string): Promise<void>;
+  /** Release every policy's reservation for the intent, across all sets */
+  release(intentId: string): Promise<void>;
+  /** Whether any loaded policy, in any set, reads the on-demand context field */
+  needsContext(field: OnDemandContext): boolean;
 }
@@ -0,0 +1,25 @@
+// ---------------------------------------------------------------------------
+// IPolicyStateStore — Contract for persisting what stateful policies
+// remember (committed spend, transaction timestamps), so budgets survive
+// restarts and are shared by every process using the same store.
+// State is plain JSON, one value per key; each policy instance owns a key.
+// Reservations of in-flight intents are not state: they stay in memory.
+// ---------------------------------------------------------------------------
+
+export interface IPolicyStateStore {
+  /** The state saved under the key, or null if there is none */
+  get<T>(key: string): Promise<T | null>;
+  /**
+   * Replace the state under the key with what `update` derives from the
+   * current one. Updates made through the same store are serialized.
+   */
+  update<T>(key: string, update: (state: T | null) => T): Promise<T>;
+}
+
+/** Where a stateful policy keeps its state */
+export interface PolicyStateOptions {
+  /** Defaults to an in-memory store private to the policy */
+  readonly stateStore?: IPolicyStateStore;
+  /** Key of the policy's state; defaults to its policy ID */
+  readonly stateKey?: string;
+}
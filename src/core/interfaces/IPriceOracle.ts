@@ -0,0 +1,23 @@
+// ---------------------------------------------------------------------------
+// IPriceOracle — Contract for pricing tokens in US dollars.
+// Implementations may be static fixtures (offline use) or market-derived.
+// ---------------------------------------------------------------------------
+
+export interface TokenPrice {
+  /** Mint address that was priced */
+  readonly mint: string;
+  /** USD value of one whole token (human units, not base units) */
+  readonly usd: number;
+  /** Where the price came from, for audit (e.g. "static", "orca") */
+  readonly source: string;
+  /** ISO-8601 timestamp the price was observed */
+  readonly asOf: string;
+}
+
+export interface IPriceOracle {
+  /**
+   * Get the USD price of one whole token.
+   * Throws if the token cannot be priced.
+   */
+  getUsdPrice(mint: string): Promise<TokenPrice>;
+}
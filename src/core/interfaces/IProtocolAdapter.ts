@@ -5,19 +5,59 @@
 
 import type { Intent } from "../intents/Intent.js";
 import type { ChainTransaction } from "../types/ChainTransaction.js";
+import type { SimulationOutcome } from "../types/SimulationOutcome.js";
+import type { TransactionStatus } from "../types/TransactionStatus.js";
+import type { TransactionInspection } from "../types/TransactionInspection.js";
 
 export interface IProtocolAdapter {
   /** Chain identifier (e.g. "solana", "ethereum") */
   readonly chain: string;
 
+  /**
+   * Optional: split an intent that may span several transactions (a
+   * non-atomic batch) into intents that each build one transaction.
+   * Intents that fit one transaction are returned as a single element.
+   */
+  splitIntent?(intent: Intent): Promise<Intent[]>;
+
   /** Build a chain-native transaction from a domain intent */
   buildTransaction(intent: Intent): Promise<ChainTransaction>;
 
+  /**
+   * Optional: decode a built transaction for post-build policies. Without
+   * it, policies only see the adapter's declared programIds.
+   */
+  inspectTransaction?(chainTx: ChainTransaction): Promise<TransactionInspection>;
+
+  /** Optional: upper-bound network fee for an intent, before it is built */
+  estimateFee?(intent: Intent): Promise<bigint>;
+
+  /**
+   * Optional: deposits the intent will lock up in accounts it creates
+   * (e.g. rent-exempt minimums), before it is built
+   */
+  estimateRent?(intent: Intent): Promise<bigint>;
+
+  /** Optional: rent-exempt minimum of an account holding `dataSize` bytes */
+  rentExemptMinimum?(dataSize: number): Promise<bigint>;
+
+  /** Optional: dry-run a signed transaction without broadcasting it */
+  simulateTransaction?(signedTx: Uint8Array, chainTx: ChainTransaction): Promise<SimulationOutcome>;
+
   /** Submit a signed transaction to the network */
   sendTransaction(signedTx: Uint8Array, chainTx: ChainTransaction): Promise<string>;
 
-  /** Wait for transaction confirmation */
-  confirmTransaction(txHash: string): Promise<boolean>;
+  /**
+   * Wait for transaction confirmation. Passing the built transaction lets the
+   * adapter stop waiting once it can no longer land.
+   */
+  confirmTransaction(txHash: string, chainTx?: ChainTransaction): Promise<boolean>;
+
+  /**
+   * Optional: look up a signed transaction on-chain before resending it.
+   * Returns null if its status cannot be determined, which disables retries.
+   */
+  getTransactionStatus?(signedTx: Uint8Array, chainTx: ChainTransaction): Promise<TransactionStatus | null>;
 
   /** Optional: get a block explorer URL for a confirmed transaction */
   getExplorerUrl?(txHash: string): string;
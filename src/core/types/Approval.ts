@@ -0,0 +1,45 @@
+// ---------------------------------------------------------------------------
+// Approval — An intent parked until a human approves or rejects it.
+// ---------------------------------------------------------------------------
+
+import type { ExecutionResult } from "./ExecutionResult.js";
+
+export type ApprovalStatus = "pending" | "approved" | "rejected" | "expired";
+
+export interface ApprovalRequest {
+  /** Approval ID */
+  readonly id: string;
+  readonly intentId: string;
+  /** Agent that submitted the intent */
+  readonly agentId: string;
+  readonly walletId: string;
+  /** The intent as submitted (BigInts stored as strings) */
+  readonly intent: Record<string, unknown>;
+  /** Policy that asked for approval */
+  readonly policyId: string;
+  /** Why approval is needed */
+  readonly reason: string;
+  readonly meta?: Record<string, unknown>;
+  readonly policySet?: string;
+  readonly status: ApprovalStatus;
+  /** ISO-8601 timestamp of the request */
+  readonly createdAt: string;
+  /** ISO-8601 timestamp after which the request can no longer be approved */
+  readonly expiresAt: string;
+  /** ISO-8601 timestamp of the approval, rejection or expiry */
+  readonly decidedAt?: string;
+  /** Who approved or rejected the request */
+  readonly decidedBy?: string;
+  readonly note?: string;
+  /** Result of the resumed execution (without the `cause` error) */
+  readonly result?: ExecutionResult;
+}
+
+/** Passed to the Executor when resuming an approved intent. */
+export interface ApprovalGrant {
+  readonly approvalId: string;
+  readonly intentId: string;
+  readonly approvedBy: string;
+  /** ISO-8601 timestamp of the approval */
+  readonly approvedAt: string;
+}
@@ -0,0 +1,46 @@
+// ---------------------------------------------------------------------------
+// AuditEntry — One durable record in the execution journal.
+// ---------------------------------------------------------------------------
+
+import type { ExecutionResult } from "./ExecutionResult.js";
+
+export type AuditEntryType =
+  | "intent_received"
+  | "policy_decision"
+  | "approval_requested"
+  | "transaction_built"
+  | "transaction_sent"
+  | "transaction_retry"
+  | "execution_result";
+
+export interface AuditEntry {
+  readonly type: AuditEntryType;
+  /** ISO-8601 timestamp when the entry was recorded */
+  readonly timestamp: string;
+  readonly intentId: string;
+  readonly agentId: string;
+  readonly walletId: string;
+  /** Final pipeline status — only set on "execution_result" entries */
+  readonly status?: ExecutionResult["status"];
+  /** Entry-specific payload (BigInts are stored as strings) */
+  readonly data: Record<string, unknown>;
+}
+
+/** Filter for querying the journal. All fields are optional and ANDed. */
+export interface AuditQuery {
+  readonly intentId?: string;
+  readonly agentId?: string;
+  readonly walletId?: string;
+  readonly type?: AuditEntryType;
+  /** Inclusive lower bound (ISO-8601) */
+  readonly from?: string;
+  /** Inclusive upper bound (ISO-8601) */
+  readonly to?: string;
+  /**
+   * Only return entries of intents whose final result has this status.
+   * Matches every entry of the intent, not just its "execution_result".
+   */
+  readonly status?: ExecutionResult["status"];
+  /** Return at most this many entries (most recent) */
+  readonly limit?: number;
+}
@@ -3,6 +3,8 @@
 // Adapters produce this; the Signer consumes the serialized payload.
 // ---------------------------------------------------------------------------
 
+import type { SwapQuote } from "./SwapQuote.js";
+
 export interface ChainTransaction {
   /** Chain identifier (e.g. "solana") */
   readonly chain: string;
@@ -12,6 +14,8 @@ export interface ChainTransaction {
   readonly programIds: string[];
   /** Estimated fee in the chain's smallest unit */
   readonly estimatedFee?: bigint;
+  /** Quote a swap transaction was built from */
+  readonly swapQuote?: SwapQuote;
   /** Optional metadata for logging / auditing */
   readonly meta?: Record<string, unknown>;
 }
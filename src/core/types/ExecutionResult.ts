@@ -2,9 +2,13 @@
 // ExecutionResult — Result envelope for the execution pipeline.
 // ---------------------------------------------------------------------------
 
+import type { SimulationOutcome } from "./SimulationOutcome.js";
+
 export type ExecutionResult =
   | ExecutionSuccess
-  | ExecutionFailure;
+  | ExecutionFailure
+  | ExecutionSimulated
+  | ExecutionPendingApproval;
 
 export interface ExecutionSuccess {
   readonly status: "success";
@@ -28,6 +32,34 @@ export interface ExecutionFailure {
   readonly failedAt: PipelineStage;
   /** Original error for debugging */
   readonly cause?: Error;
+  /** Transactions that confirmed before the failure (split batches only) */
+  readonly completedTxHashes?: string[];
+}
+
+/** Returned by dry runs: the transaction was built and signed but never sent. */
+export interface ExecutionSimulated {
+  readonly status: "simulated";
+  /** Chain identifier (e.g. "solana") */
+  readonly chain: string;
+  /** ISO-8601 timestamp of the simulation */
+  readonly simulatedAt: string;
+  /** What the chain reported the transaction would do */
+  readonly simulation: SimulationOutcome;
+  /** Optional metadata */
+  readonly meta?: Record<string, unknown>;
+}
+
+/** A policy asked for human approval; nothing was built or sent. */
+export interface ExecutionPendingApproval {
+  readonly status: "pending_approval";
+  /** ID of the request in the approval queue */
+  readonly approvalId: string;
+  /** Policy that asked for approval */
+  readonly policyId: string;
+  /** Why approval is needed */
+  readonly reason: string;
+  /** ISO-8601 timestamp after which the request expires */
+  readonly expiresAt: string;
 }
 
 export type PipelineStage =
@@ -35,5 +67,6 @@ export type PipelineStage =
   | "policy"
   | "build"
   | "sign"
+  | "simulate"
   | "send"
   | "confirm";
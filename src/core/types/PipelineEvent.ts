@@ -0,0 +1,63 @@
+// ---------------------------------------------------------------------------
+// PipelineEvent — Progress events emitted by the executor for each stage.
+// ---------------------------------------------------------------------------
+
+import type { ExecutionResult, PipelineStage } from "./ExecutionResult.js";
+
+export type PipelineEvent =
+  | StageStartedEvent
+  | StageCompletedEvent
+  | StageFailedEvent
+  | StageRetryingEvent
+  | PipelineFinishedEvent;
+
+interface PipelineEventBase {
+  /** Intent being executed */
+  readonly intentId: string;
+  /** Agent that submitted the intent */
+  readonly agentId: string;
+  /** ISO-8601 timestamp of the event */
+  readonly timestamp: string;
+}
+
+export interface StageStartedEvent extends PipelineEventBase {
+  readonly type: "stage.started";
+  readonly stage: PipelineStage;
+}
+
+export interface StageCompletedEvent extends PipelineEventBase {
+  readonly type: "stage.completed";
+  readonly stage: PipelineStage;
+  /** Wall-clock time spent in the stage */
+  readonly durationMs: number;
+  /** Stage-specific details (e.g. txHash after send) */
+  readonly meta?: Record<string, unknown>;
+}
+
+export interface StageFailedEvent extends PipelineEventBase {
+  readonly type: "stage.failed";
+  readonly stage: PipelineStage;
+  readonly durationMs: number;
+  readonly errorCode: string;
+  readonly errorMessage: string;
+}
+
+/** A transient send/confirm failure that will be retried after a backoff. */
+export interface StageRetryingEvent extends PipelineEventBase {
+  readonly type: "stage.retrying";
+  readonly stage: PipelineStage;
+  /** Attempt that just failed (1-based) */
+  readonly attempt: number;
+  readonly delayMs: number;
+  readonly errorMessage: string;
+  /** Whether the next attempt rebuilds with a fresh blockhash */
+  readonly rebuild: boolean;
+}
+
+/** Always the last event for an intent. */
+export interface PipelineFinishedEvent extends PipelineEventBase {
+  readonly type: "pipeline.finished";
+  /** Total pipeline time */
+  readonly durationMs: number;
+  readonly result: ExecutionResult;
+}
@@ -1,14 +1,19 @@
 // ---------------------------------------------------------------------------
 // PolicyDecision — Result of a single policy evaluation.
+// A decision that requires approval is not allowed: code that only checks
+// `allowed` treats it as a denial.
 // ---------------------------------------------------------------------------
 
 export type PolicyDecision =
   | PolicyAllow
-  | PolicyDeny;
+  | PolicyDeny
+  | PolicyApprovalRequired;
 
 export interface PolicyAllow {
   readonly allowed: true;
   readonly policyId: string;
+  /** Policy set the intent was evaluated under (set by the engine) */
+  readonly policySet?: string;
 }
 
 export interface PolicyDeny {
@@ -18,8 +23,27 @@ export interface PolicyDeny {
   readonly reason: string;
   /** Optional metadata (e.g. current spend vs limit) */
   readonly meta?: Record<string, unknown>;
+  /** Policy set the intent was evaluated under (set by the engine) */
+  readonly policySet?: string;
+}
+
+/** The intent may proceed once a human approves it. */
+export interface PolicyApprovalRequired {
+  readonly allowed: false;
+  readonly requiresApproval: true;
+  readonly policyId: string;
+  /** Human-readable reason approval is needed */
+  readonly reason: string;
+  /** Optional metadata shown to the approver */
+  readonly meta?: Record<string, unknown>;
+  /** Policy set the intent was evaluated under (set by the engine) */
+  readonly policySet?: string;
 }
 
 export function isPolicyAllowed(decision: PolicyDecision): decision is PolicyAllow {
   return decision.allowed;
 }
+
+export function requiresApproval(decision: PolicyDecision): decision is PolicyApprovalRequired {
+  return "requiresApproval" in decision && decision.requiresApproval;
+}
@@ -0,0 +1,51 @@
+// ---------------------------------------------------------------------------
+// PolicyReport — What every policy of a set decided about an intent, instead
+// of only the first denial. Produced by evaluating in explain mode, so an
+// agent can fix all of an intent's violations at once.
+// ---------------------------------------------------------------------------
+
+import type { PolicyDecision } from "./PolicyDecision.js";
+
+/** Intent policies run before the build, transaction policies after it */
+export type PolicyPhase = "intent" | "transaction";
+
+/** One policy's decision, as recorded in a report */
+export interface PolicyEvaluation {
+  readonly policyId: string;
+  readonly name: string;
+  readonly phase: PolicyPhase;
+  readonly allowed: boolean;
+  readonly requiresApproval?: boolean;
+  readonly reason?: string;
+  readonly meta?: Record<string, unknown>;
+  /** Time spent in the policy */
+  readonly durationMs: number;
+  /** Set if the policy threw instead of deciding; counted as a denial */
+  readonly error?: string;
+}
+
+export interface PolicyReport {
+  readonly phase: PolicyPhase;
+  readonly policySet: string;
+  /** The decision the engine reaches in normal mode */
+  readonly decision: PolicyDecision;
+  /** Every policy of the set that has this phase, in evaluation order */
+  readonly evaluations: PolicyEvaluation[];
+}
+
+/** Reports for both phases of an intent that was evaluated but not executed */
+export interface PolicyExplanation {
+  readonly intentId: string;
+  readonly agentId: string;
+  readonly policySet: string;
+  /** The decision the Executor would act on, across both phases */
+  readonly decision: PolicyDecision;
+  readonly intent: PolicyReport;
+  /** One per transaction built; a split batch has several */
+  readonly transactions: PolicyReport[];
+  /** Why the transaction could not be built, if it could not */
+  readonly buildError?: string;
+  /** Every denial across both phases, in evaluation order */
+  readonly violations: PolicyEvaluation[];
+  readonly evaluatedAt: string;
+}
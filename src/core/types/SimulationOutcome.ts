@@ -0,0 +1,28 @@
+// ---------------------------------------------------------------------------
+// SimulationOutcome — Chain-agnostic result of a dry-run transaction.
+// Adapters produce this; nothing is broadcast to the network.
+// ---------------------------------------------------------------------------
+
+export interface SimulationOutcome {
+  /** True if the transaction would have executed without error */
+  readonly success: boolean;
+  /** Program / runtime logs emitted during simulation */
+  readonly logs: string[];
+  /** Compute units (or gas) consumed, if reported by the chain */
+  readonly unitsConsumed?: number;
+  /** Native balance changes of the accounts touched by the transaction */
+  readonly balanceChanges: BalanceChange[];
+  /** Chain-reported error, if the simulated execution failed */
+  readonly error?: string;
+}
+
+export interface BalanceChange {
+  /** Account address (base58 for Solana) */
+  readonly account: string;
+  /** Balance before execution (smallest unit) */
+  readonly before: bigint;
+  /** Balance after execution (smallest unit) */
+  readonly after: bigint;
+  /** after - before */
+  readonly delta: bigint;
+}
@@ -0,0 +1,21 @@
+// ---------------------------------------------------------------------------
+// SwapQuote — The quote a swap transaction was built from.
+// All amounts are in the smallest unit of their token.
+// ---------------------------------------------------------------------------
+
+export interface SwapQuote {
+  readonly inputMint: string;
+  readonly outputMint: string;
+  readonly amountIn: bigint;
+  /** Output expected at the quoted pool state */
+  readonly estimatedAmountOut: bigint;
+  /** Output below which the swap fails on chain */
+  readonly minAmountOut: bigint;
+  /** Tolerance between the estimated and minimum output, in basis points */
+  readonly slippageBps: number;
+  /**
+   * How far the quoted price is from the pool's spot price, fees aside, in
+   * basis points. Undefined if the spot price could not be read.
+   */
+  readonly priceImpactBps?: number;
+}
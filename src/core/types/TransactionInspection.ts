@@ -0,0 +1,47 @@
+// ---------------------------------------------------------------------------
+// TransactionInspection — What a built transaction will actually do.
+// Produced by adapters from the serialized payload, so post-build policies
+// judge the bytes that get signed rather than the intent that asked for them.
+// ---------------------------------------------------------------------------
+
+import type { SwapQuote } from "./SwapQuote.js";
+
+export interface InspectedInstruction {
+  /** Program invoked by this instruction */
+  readonly programId: string;
+  /** Every account the instruction references, in order */
+  readonly accounts: string[];
+  /** The subset of accounts the instruction may write */
+  readonly writableAccounts: string[];
+}
+
+/** A decoded movement of the chain's native token (e.g. lamports) */
+export interface NativeTransfer {
+  readonly from: string;
+  readonly to: string;
+  /** Amount in the smallest unit */
+  readonly amount: bigint;
+}
+
+export interface TransactionInspection {
+  /** Chain identifier (e.g. "solana") */
+  readonly chain: string;
+  /** Top-level instructions in execution order */
+  readonly instructions: InspectedInstruction[];
+  /** Distinct programs invoked, in first-use order */
+  readonly programIds: string[];
+  /** Distinct writable accounts across all instructions */
+  readonly writableAccounts: string[];
+  /** Accounts whose signatures the transaction requires */
+  readonly signers: string[];
+  /** Native-token movements decoded from known instructions */
+  readonly nativeTransfers: NativeTransfer[];
+  /** The quote a swap was built from, if the transaction is a swap */
+  readonly swap?: SwapQuote;
+  /**
+   * false when the inspection is partial — the payload could not be decoded
+   * (programIds come from the adapter's declaration) or the transaction is
+   * finalized elsewhere (e.g. an SDK adds instructions at send time).
+   */
+  readonly complete: boolean;
+}
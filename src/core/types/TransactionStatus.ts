@@ -0,0 +1,18 @@
+// ---------------------------------------------------------------------------
+// TransactionStatus — Where a previously sent transaction stands on-chain.
+// Checked before any resend so an intent never lands twice.
+// ---------------------------------------------------------------------------
+
+export interface TransactionStatus {
+  /** Transaction hash / signature derived from the signed payload */
+  readonly txHash: string;
+  /**
+   * - "confirmed": landed successfully
+   * - "failed":    landed with an on-chain error
+   * - "pending":   not seen yet, but could still land
+   * - "expired":   not seen and can no longer land — safe to rebuild
+   */
+  readonly state: "confirmed" | "failed" | "pending" | "expired";
+  /** On-chain error for "failed" transactions */
+  readonly error?: string;
+}
@@ -0,0 +1,82 @@
+// ---------------------------------------------------------------------------
+// JsonlAuditLog — Append-only JSON Lines journal on the local filesystem.
+// One entry per line; queries scan the file. Suitable for the prototype —
+// a production deployment would back IAuditLog with a database.
+// ---------------------------------------------------------------------------
+
+import { appendFile, readFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { IAuditLog } from "../../core/interfaces/IAuditLog.js";
+import type { AuditEntry, AuditQuery } from "../../core/types/AuditEntry.js";
+
+export class JsonlAuditLog implements IAuditLog {
+  private readonly filePath: string;
+  /** Serializes appends so lines never interleave within this process */
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    const line = JSON.stringify(entry, this.bigIntReplacer) + "\n";
+    const write = this.writeQueue.then(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, line, "utf-8");
+    });
+    // Keep the queue alive even if this write fails
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  async query(filter: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.writeQueue;
+    const entries = await this.readAll();
+
+    let statusIntents: Set<string> | null = null;
+    if (filter.status) {
+      statusIntents = new Set(
+        entries
+          .filter((e) => e.type === "execution_result" && e.status === filter.status)
+          .map((e) => e.intentId),
+      );
+    }
+
+    const matches = entries.filter((e) =>
+      (!filter.intentId || e.intentId === filter.intentId) &&
+      (!filter.agentId || e.agentId === filter.agentId) &&
+      (!filter.walletId || e.walletId === filter.walletId) &&
+      (!filter.type || e.type === filter.type) &&
+      (!filter.from || e.timestamp >= filter.from) &&
+      (!filter.to || e.timestamp <= filter.to) &&
+      (!statusIntents || statusIntents.has(e.intentId)),
+    );
+
+    return filter.limit !== undefined ? matches.slice(-filter.limit) : matches;
+  }
+
+  private async readAll(): Promise<AuditEntry[]> {
+    let data: string;
+    try {
+      data = await readFile(this.filePath, "utf-8");
+    } catch {
+      return []; // Journal not created yet
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of data.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // Skip a torn final line from an interrupted write
+      }
+    }
+    return entries;
+  }
+
+  /** Handle BigInt serialization in JSON.stringify */
+  private bigIntReplacer(_key: string, value: unknown): unknown {
+    return typeof value === "bigint" ? value.toString() : value;
+  }
+}
@@ -4,6 +4,8 @@
 
 import { config as loadDotenv } from "dotenv";
 import { z } from "zod";
+import { PriorityFeeSchema } from "../../core/intents/Intent.js";
+import type { PriorityFee } from "../../core/intents/Intent.js";
 
 const ConfigSchema = z.object({
   NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
@@ -15,14 +17,80 @@ const ConfigSchema = z.object({
   // Policy
   MAX_SPEND_LAMPORTS: z.coerce.bigint().default(1_000_000_000n),
   MAX_TX_PER_MINUTE: z.coerce.number().int().positive().default(10),
+  /** SOL each wallet keeps for fees and rent; intents that would dip below it are denied */
+  MIN_BALANCE_LAMPORTS: z.coerce.bigint().default(10_000_000n),
+  /** Largest slippage tolerance a swap may be built with (bps) */
+  MAX_SWAP_SLIPPAGE_BPS: z.coerce.number().int().nonnegative().max(10_000).default(300),
+  /** Largest price impact a swap may have against the pool's spot price (bps) */
+  MAX_PRICE_IMPACT_BPS: z.coerce.number().int().nonnegative().max(10_000).default(500),
   ALLOWED_PROGRAMS: z
     .string()
-    .default("11111111111111111111111111111111,TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA")
+    .default(
+      "11111111111111111111111111111111,TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA," +
+        "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL,MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr," +
+        "ComputeBudget111111111111111111111111111111,whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc",
+    )
     .transform((s) => s.split(",")),
+  /** Mint and freeze authorities allowed besides the managed wallets (comma-separated) */
+  ALLOWED_TOKEN_AUTHORITIES: z
+    .string()
+    .default("")
+    .transform((s) => s.split(",").filter(Boolean)),
+  /** Mint destinations allowed besides the managed wallets (comma-separated) */
+  ALLOWED_MINT_DESTINATIONS: z
+    .string()
+    .default("")
+    .transform((s) => s.split(",").filter(Boolean)),
+  /** JSON policy document; replaces the policy variables above when set */
+  POLICY_FILE: z.string().min(1).optional(),
+  POLICY_RELOAD_INTERVAL_MS: z.coerce.number().int().positive().default(1_000),
+  /** USD prices for the usd-budget policy: Orca pools, or fixed prices */
+  PRICE_ORACLE: z.enum(["orca", "static"]).default("orca"),
+  /** "MINT=USD" pairs for the static oracle ("SOL" for native SOL) */
+  STATIC_PRICES_USD: z.string().default(""),
+
+  // Priority fees (default for intents without their own priorityFee)
+  PRIORITY_FEE_STRATEGY: z.enum(["none", "fixed", "percentile"]).default("none"),
+  PRIORITY_FEE_MICROLAMPORTS: z.coerce.number().int().nonnegative().optional(),
+  PRIORITY_FEE_PERCENTILE: z.coerce.number().int().min(0).max(100).default(50),
+  PRIORITY_FEE_MAX_MICROLAMPORTS: z.coerce.number().int().nonnegative().optional(),
+  COMPUTE_UNIT_LIMIT: z
+    .union([z.literal("simulate"), z.coerce.number().int().positive().max(1_400_000)])
+    .optional(),
+
+  // Transaction format
+  TRANSACTION_VERSION: z.enum(["legacy", "v0", "auto"]).default("auto"),
+  ADDRESS_LOOKUP_TABLES: z
+    .string()
+    .default("")
+    .transform((s) => s.split(",").map((a) => a.trim()).filter(Boolean)),
+
+  // Swaps
+  /** Slippage tolerance for swap intents without a minAmountOut (bps) */
+  SWAP_DEFAULT_SLIPPAGE_BPS: z.coerce.number().int().nonnegative().max(10_000).default(100),
+
+  // Transaction retries (send + confirm)
+  TX_MAX_ATTEMPTS: z.coerce.number().int().positive().default(3),
+  TX_RETRY_BASE_DELAY_MS: z.coerce.number().int().nonnegative().default(500),
+  TX_RETRY_MAX_DELAY_MS: z.coerce.number().int().nonnegative().default(4_000),
 
   // Logging
   LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default("info"),
 
+  // Audit
+  AUDIT_LOG_PATH: z.string().min(1).default("./.data/audit.jsonl"),
+
+  // Policy state (spend and rate windows), shared by the server, CLI and scenarios
+  POLICY_STATE_PATH: z.string().min(1).default("./.data/policy-state.json"),
+
+  // Idempotency
+  IDEMPOTENCY_STORE_PATH: z.string().min(1).default("./.data/idempotency.json"),
+
+  // Approvals
+  APPROVAL_QUEUE_PATH: z.string().min(1).default("./.data/approvals.json"),
+  /** How long a parked intent waits for approval before it expires */
+  APPROVAL_TTL_MS: z.coerce.number().int().positive().default(86_400_000),
+
   // Simulation
   SIMULATION_AGENT_COUNT: z.coerce.number().int().positive().default(2),
   SIMULATION_ROUNDS: z.coerce.number().int().positive().default(5),
@@ -61,3 +129,24 @@ export function loadConfig(): AppConfig {
   cachedConfig = result.data;
   return cachedConfig;
 }
+
+/**
+ * Build the default priority-fee strategy from configuration.
+ * Throws if the combination is invalid (e.g. "fixed" without a price).
+ */
+export function priorityFeeFromConfig(config: AppConfig): PriorityFee {
+  const result = PriorityFeeSchema.safeParse({
+    strategy: config.PRIORITY_FEE_STRATEGY,
+    microLamports: config.PRIORITY_FEE_MICROLAMPORTS,
+    percentile: config.PRIORITY_FEE_PERCENTILE,
+    maxMicroLamports: config.PRIORITY_FEE_MAX_MICROLAMPORTS,
+    computeUnitLimit: config.COMPUTE_UNIT_LIMIT,
+  });
+  if (!result.success) {
+    const formatted = result.error.issues
+      .map((i) => `  - ${i.path.join(".")}: ${i.message}`)
+      .join("\n");
+    throw new Error(`Priority fee configuration is invalid:\n${formatted}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,43 @@
+// ---------------------------------------------------------------------------
+// StaticPriceOracle — Fixed USD prices for offline use, tests and devnet,
+// where market prices are unavailable or meaningless.
+// ---------------------------------------------------------------------------
+
+import type { IPriceOracle, TokenPrice } from "../../core/interfaces/IPriceOracle.js";
+import { NATIVE_TOKEN, WRAPPED_SOL_MINT } from "../../wallet/policies/TokenAmounts.js";
+
+export class StaticPriceOracle implements IPriceOracle {
+  private readonly prices: Map<string, number>;
+
+  /** @param prices USD per whole token, keyed by mint address ("SOL" for native SOL) */
+  constructor(prices: Record<string, number>) {
+    this.prices = new Map(
+      Object.entries(prices).map(([mint, usd]) => [mint === NATIVE_TOKEN ? WRAPPED_SOL_MINT : mint, usd]),
+    );
+  }
+
+  /**
+   * Parse "SOL=150,EPjF...=1" into a price map.
+   * Throws on malformed entries.
+   */
+  static parse(spec: string): StaticPriceOracle {
+    const prices: Record<string, number> = {};
+    for (const entry of spec.split(",").map((e) => e.trim()).filter(Boolean)) {
+      const [mint, value] = entry.split("=").map((part) => part.trim());
+      const usd = Number(value);
+      if (!mint || !value || !Number.isFinite(usd) || usd < 0) {
+        throw new Error(`Invalid static price "${entry}" (expected MINT=USD)`);
+      }
+      prices[mint] = usd;
+    }
+    return new StaticPriceOracle(prices);
+  }
+
+  async getUsdPrice(mint: string): Promise<TokenPrice> {
+    const usd = this.prices.get(mint);
+    if (usd === undefined) {
+      throw new Error(`No static USD price for ${mint}`);
+    }
+    return { mint, usd, source: "static", asOf: new Date().toISOString() };
+  }
+}
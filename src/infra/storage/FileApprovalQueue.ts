@@ -0,0 +1,161 @@
+// ---------------------------------------------------------------------------
+// FileApprovalQueue — JSON-file backed IApprovalQueue.
+// All requests live in one file, which is read again under a cross-process
+// lock on every operation, so the server and the CLI see the requests each
+// other parks and never overwrite them.
+// Pending requests are marked expired as soon as they are read past their
+// expiry, so a stale request can never be approved.
+// ---------------------------------------------------------------------------
+
+import { randomUUID } from "node:crypto";
+import type {
+  ApprovalDecision,
+  IApprovalQueue,
+  NewApprovalRequest,
+} from "../../core/interfaces/IApprovalQueue.js";
+import type { ApprovalRequest, ApprovalStatus } from "../../core/types/Approval.js";
+import type { ExecutionResult } from "../../core/types/ExecutionResult.js";
+import { ApprovalError } from "../../core/errors/ApprovalError.js";
+import { FileStorage, toSerializable } from "./FileStorage.js";
+import { withFileLock } from "./FileLock.js";
+
+/** Decided requests older than this are pruned on write */
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class FileApprovalQueue implements IApprovalQueue {
+  private readonly filePath: string;
+  private readonly retentionMs: number;
+  private readonly storage = new FileStorage();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string, retentionMs: number = DEFAULT_RETENTION_MS) {
+    this.filePath = filePath;
+    this.retentionMs = retentionMs;
+  }
+
+  enqueue(request: NewApprovalRequest): Promise<ApprovalRequest> {
+    return this.serialize(async () => {
+      const requests = await this.load();
+      for (const existing of requests.values()) {
+        if (existing.intentId === request.intentId && existing.status === "pending") {
+          return existing;
+        }
+      }
+
+      const created: ApprovalRequest = {
+        ...toSerializable(request),
+        id: randomUUID(),
+        status: "pending",
+        createdAt: new Date().toISOString(),
+      };
+      requests.set(created.id, created);
+      await this.persist(requests);
+      return created;
+    });
+  }
+
+  get(id: string): Promise<ApprovalRequest | null> {
+    return this.serialize(async () => {
+      const requests = await this.load();
+      return requests.get(id) ?? null;
+    });
+  }
+
+  list(filter: { status?: ApprovalStatus; limit?: number } = {}): Promise<ApprovalRequest[]> {
+    return this.serialize(async () => {
+      const requests = await this.load();
+      const matching = Array.from(requests.values())
+        .filter((request) => !filter.status || request.status === filter.status)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      return filter.limit !== undefined ? matching.slice(0, filter.limit) : matching;
+    });
+  }
+
+  decide(id: string, decision: ApprovalDecision): Promise<ApprovalRequest> {
+    return this.serialize(async () => {
+      const requests = await this.load();
+      const existing = requests.get(id);
+      if (!existing) {
+        throw new ApprovalError("APPROVAL_NOT_FOUND", id, `Approval request ${id} not found`);
+      }
+      if (existing.status === "expired") {
+        throw new ApprovalError(
+          "APPROVAL_EXPIRED",
+          id,
+          `Approval request ${id} expired at ${existing.expiresAt}`,
+        );
+      }
+      if (existing.status !== "pending") {
+        throw new ApprovalError(
+          "APPROVAL_NOT_PENDING",
+          id,
+          `Approval request ${id} was already ${existing.status}`,
+        );
+      }
+
+      const decided: ApprovalRequest = {
+        ...existing,
+        status: decision.status,
+        decidedAt: new Date().toISOString(),
+        decidedBy: decision.decidedBy,
+        ...(decision.note ? { note: decision.note } : {}),
+      };
+      requests.set(id, decided);
+      await this.persist(requests);
+      return decided;
+    });
+  }
+
+  complete(id: string, result: ExecutionResult): Promise<void> {
+    return this.serialize(async () => {
+      const requests = await this.load();
+      const existing = requests.get(id);
+      if (!existing) return;
+
+      // The cause Error does not survive JSON; errorMessage already carries it
+      const { cause: _cause, ...stored } = result as ExecutionResult & { cause?: Error };
+
+      requests.set(id, { ...existing, result: toSerializable(stored as ExecutionResult) });
+      await this.persist(requests);
+    });
+  }
+
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(() => withFileLock(this.filePath, operation));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async load(): Promise<Map<string, ApprovalRequest>> {
+    const stored = await this.storage.read<ApprovalRequest[]>(this.filePath);
+    const requests = new Map((stored ?? []).map((r) => [r.id, r]));
+    if (this.expire(requests)) {
+      await this.persist(requests);
+    }
+    return requests;
+  }
+
+  /** Mark overdue pending requests as expired. Returns true if any changed. */
+  private expire(requests: Map<string, ApprovalRequest>): boolean {
+    const now = Date.now();
+    let changed = false;
+    for (const [id, request] of requests) {
+      if (request.status === "pending" && Date.parse(request.expiresAt) <= now) {
+        requests.set(id, { ...request, status: "expired", decidedAt: new Date(now).toISOString() });
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  private async persist(requests: Map<string, ApprovalRequest>): Promise<void> {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, request] of requests) {
+      if (request.decidedAt && Date.parse(request.decidedAt) < cutoff) {
+        requests.delete(id);
+      }
+    }
+
+    await this.storage.write(this.filePath, Array.from(requests.values()));
+  }
+}
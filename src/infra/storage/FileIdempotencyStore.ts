@@ -0,0 +1,118 @@
+// ---------------------------------------------------------------------------
+// FileIdempotencyStore — JSON-file backed IIdempotencyStore.
+// All records live in one file, which is read again under a cross-process
+// lock on every operation, so a claim is atomic across the server, the CLI
+// and the scenarios sharing the file. A record left in flight by a crashed
+// process is never reclaimed automatically (its transaction may have
+// landed); an operator checks the chain and clears it with
+// `npm run idempotency -- clear <intentId>`.
+// ---------------------------------------------------------------------------
+
+import type {
+  IIdempotencyStore,
+  IdempotencyRecord,
+} from "../../core/interfaces/IIdempotencyStore.js";
+import type { ExecutionResult } from "../../core/types/ExecutionResult.js";
+import { FileStorage, toSerializable } from "./FileStorage.js";
+import { withFileLock } from "./FileLock.js";
+
+/** Completed records older than this are pruned on write */
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class FileIdempotencyStore implements IIdempotencyStore {
+  private readonly filePath: string;
+  private readonly retentionMs: number;
+  private readonly storage = new FileStorage();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string, retentionMs: number = DEFAULT_RETENTION_MS) {
+    this.filePath = filePath;
+    this.retentionMs = retentionMs;
+  }
+
+  claim(
+    key: string,
+    owner: { agentId: string; intent: Record<string, unknown> },
+  ): Promise<IdempotencyRecord | null> {
+    return this.serialize(async () => {
+      const records = await this.load();
+      const existing = records.get(key);
+      if (existing) return existing;
+
+      records.set(key, {
+        key,
+        state: "in_flight",
+        agentId: owner.agentId,
+        intent: toSerializable(owner.intent),
+        startedAt: new Date().toISOString(),
+      });
+      await this.persist(records);
+      return null;
+    });
+  }
+
+  complete(key: string, result: ExecutionResult): Promise<void> {
+    return this.serialize(async () => {
+      const records = await this.load();
+      const existing = records.get(key);
+      if (!existing) return;
+
+      // The cause Error does not survive JSON; errorMessage already carries it
+      const { cause: _cause, ...stored } = result as ExecutionResult & { cause?: Error };
+
+      records.set(key, {
+        ...existing,
+        state: "completed",
+        completedAt: new Date().toISOString(),
+        result: toSerializable(stored as ExecutionResult),
+      });
+      await this.persist(records);
+    });
+  }
+
+  release(key: string): Promise<void> {
+    return this.serialize(async () => {
+      const records = await this.load();
+      if (records.delete(key)) {
+        await this.persist(records);
+      }
+    });
+  }
+
+  get(key: string): Promise<IdempotencyRecord | null> {
+    return this.serialize(async () => {
+      const records = await this.load();
+      return records.get(key) ?? null;
+    });
+  }
+
+  /** Every stored record, oldest claim first */
+  list(): Promise<IdempotencyRecord[]> {
+    return this.serialize(async () => {
+      const records = await this.load();
+      return Array.from(records.values()).sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+    });
+  }
+
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(() => withFileLock(this.filePath, operation));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async load(): Promise<Map<string, IdempotencyRecord>> {
+    const stored = await this.storage.read<IdempotencyRecord[]>(this.filePath);
+    return new Map((stored ?? []).map((r) => [r.key, r]));
+  }
+
+  private async persist(records: Map<string, IdempotencyRecord>): Promise<void> {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [key, record] of records) {
+      if (record.completedAt && Date.parse(record.completedAt) < cutoff) {
+        records.delete(key);
+      }
+    }
+
+    await this.storage.write(this.filePath, Array.from(records.values()));
+  }
+}
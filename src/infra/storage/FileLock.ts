@@ -0,0 +1,74 @@
+// ---------------------------------------------------------------------------
+// FileLock — Cross-process lock around a read-modify-write of a JSON file.
+// The lock is a sibling `<file>.lock` created with O_EXCL, so only one
+// process holds it at a time; the others retry until it is released. A lock
+// left behind by a crashed process is broken once it is older than
+// `staleMs`, which must comfortably exceed the time an update holds it.
+// ---------------------------------------------------------------------------
+
+import { mkdir, open, rm, stat } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export interface FileLockOptions {
+  /** Delay between attempts to take the lock (default 25 ms) */
+  retryMs?: number;
+  /** Give up after waiting this long (default 10 s) */
+  timeoutMs?: number;
+  /** Break a lock older than this (default 30 s) */
+  staleMs?: number;
+}
+
+const DEFAULT_RETRY_MS = 25;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_STALE_MS = 30_000;
+
+/** Run `operation` while holding the lock for `filePath` */
+export async function withFileLock<T>(
+  filePath: string,
+  operation: () => Promise<T>,
+  options: FileLockOptions = {},
+): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  await acquire(lockPath, options);
+  try {
+    return await operation();
+  } finally {
+    await rm(lockPath, { force: true });
+  }
+}
+
+async function acquire(lockPath: string, options: FileLockOptions): Promise<void> {
+  const retryMs = options.retryMs ?? DEFAULT_RETRY_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  await mkdir(dirname(lockPath), { recursive: true });
+
+  for (;;) {
+    try {
+      const handle = await open(lockPath, "wx");
+      await handle.writeFile(`${process.pid}\n`, "utf-8");
+      await handle.close();
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+
+    if (await isStale(lockPath, staleMs)) {
+      await rm(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, retryMs));
+  }
+}
+
+async function isStale(lockPath: string, staleMs: number): Promise<boolean> {
+  try {
+    const { mtimeMs } = await stat(lockPath);
+    return Date.now() - mtimeMs > staleMs;
+  } catch {
+    return false; // Released in the meantime; the next attempt takes it
+  }
+}
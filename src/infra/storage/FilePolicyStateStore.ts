@@ -0,0 +1,51 @@
+// ---------------------------------------------------------------------------
+// FilePolicyStateStore — JSON-file backed IPolicyStateStore.
+// All keys live in one file, which is read again on every operation so the
+// server, the CLI and the scenarios see each other's commits. Updates hold
+// a cross-process lock from read to write, so concurrent processes never
+// lose each other's changes; FileStorage replaces the file atomically, so a
+// reader never sees a partial write.
+// ---------------------------------------------------------------------------
+
+import type { IPolicyStateStore } from "../../core/interfaces/IPolicyStateStore.js";
+import { FileStorage } from "./FileStorage.js";
+import { withFileLock } from "./FileLock.js";
+
+type StateFile = Record<string, unknown>;
+
+export class FilePolicyStateStore implements IPolicyStateStore {
+  private readonly filePath: string;
+  private readonly storage = new FileStorage();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const states = await this.load();
+    return (states[key] as T | undefined) ?? null;
+  }
+
+  update<T>(key: string, update: (state: T | null) => T): Promise<T> {
+    return this.serialize(() =>
+      withFileLock(this.filePath, async () => {
+        const states = await this.load();
+        const next = update((states[key] as T | undefined) ?? null);
+        states[key] = next;
+        await this.storage.write(this.filePath, states);
+        return next;
+      }),
+    );
+  }
+
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(operation);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async load(): Promise<StateFile> {
+    return (await this.storage.read<StateFile>(this.filePath)) ?? {};
+  }
+}
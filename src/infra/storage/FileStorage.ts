@@ -2,27 +2,51 @@
 // FileStorage — Simple file-based persistence for simulation state.
 // ---------------------------------------------------------------------------
 
-import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { readFile, writeFile, mkdir, rename } from "node:fs/promises";
 import { dirname } from "node:path";
 
 export class FileStorage {
   /**
-   * Read and parse a JSON file.
+   * Read and parse a JSON file; null if it does not exist. A file that
+   * cannot be read or parsed throws rather than reading as empty, so a
+   * corrupt state file never silently resets what it held.
    */
   async read<T>(filePath: string): Promise<T | null> {
+    let data: string;
+    try {
+      data = await readFile(filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+
     try {
-      const data = await readFile(filePath, "utf-8");
       return JSON.parse(data) as T;
-    } catch {
-      return null;
+    } catch (error) {
+      throw new Error(
+        `Cannot parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
+      );
     }
   }
 
   /**
-   * Write an object to a JSON file (pretty-printed).
+   * Write an object to a JSON file (pretty-printed). The file is replaced
+   * in one step, so concurrent readers see the old or the new content.
    */
   async write(filePath: string, data: unknown): Promise<void> {
     await mkdir(dirname(filePath), { recursive: true });
-    await writeFile(filePath, JSON.stringify(data, null, 2), "utf-8");
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data, null, 2), "utf-8");
+    await rename(tempPath, filePath);
   }
 }
+
+/** Round-trip through JSON so in-memory records match what is reloaded from disk */
+export function toSerializable<T>(value: T): T {
+  return JSON.parse(
+    JSON.stringify(value, (_key, val: unknown) =>
+      typeof val === "bigint" ? val.toString() : val,
+    ),
+  ) as T;
+}
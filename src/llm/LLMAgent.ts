@@ -58,12 +58,27 @@ The intent MUST be one of these types, with EXACTLY these fields:
   "reasoning": "<your reasoning>"
 }
 
+5. BATCH (several operations from the same wallet in one go)
+{
+  "type": "batch",
+  "fromWalletId": "<sender public key>",
+  "atomic": true,
+  "items": [
+    { "type": "create_token_account", "mint": "<mint address>", "owner": "<owner public key>" },
+    { "type": "transfer", "to": "<recipient public key>", "amount": "<amount as string>", "tokenMint": "<optional mint address>" },
+    { "type": "mint_token", "mint": "<mint address>", "to": "<recipient public key>", "amount": "<amount as string>" },
+    { "type": "memo", "text": "<short note>" }
+  ],
+  "reasoning": "<your reasoning>"
+}
+
 Rules:
 - Output ONLY raw JSON with no markdown, no code fences, no explanation.
 - Use the exact fromWalletId provided in the user context.
 - For amount fields use strings (the system will convert to BigInt). 1 SOL = 1000000000 lamports.
 - For SWAP intents: use token symbols (e.g. "SOL", "USDC") for tokenInMint/tokenOutMint — do NOT include poolAddress, the system finds the best pool automatically.
 - For SWAP intents: to apply slippage, estimate the minAmountOut based on current market prices and the requested slippage. Set minAmountOut to "0" if slippage is not mentioned or you cannot estimate it.
+- Use BATCH only when the user asks for several operations at once; set "atomic" to false only if partial completion is acceptable.
 - If the request is ambiguous or unsafe, still output a best-guess JSON intent.
 - The reasoning field should be a concise human-readable explanation of your decision.`;
 
@@ -129,13 +144,21 @@ Respond with ONLY a JSON intent object:`;
       parsed = await this.enrichSwapIntent(parsed);
     }
 
-    // Convert string amount fields to BigInt
-    for (const field of ["amount", "amountIn", "minAmountOut"]) {
-      if (typeof parsed[field] === "string" || typeof parsed[field] === "number") {
-        try {
-          parsed[field] = BigInt(parsed[field] as string | number);
-        } catch {
-          // Let Zod surface the error
+    // Convert string amount fields to BigInt (including batch items)
+    const targets: Record<string, unknown>[] = [parsed];
+    if (Array.isArray(parsed.items)) {
+      targets.push(...parsed.items.filter(
+        (item: unknown): item is Record<string, unknown> => typeof item === "object" && item !== null,
+      ));
+    }
+    for (const target of targets) {
+      for (const field of ["amount", "amountIn", "minAmountOut"]) {
+        if (typeof target[field] === "string" || typeof target[field] === "number") {
+          try {
+            target[field] = BigInt(target[field] as string | number);
+          } catch {
+            // Let Zod surface the error
+          }
         }
       }
     }
@@ -0,0 +1,93 @@
+// ---------------------------------------------------------------------------
+// ApprovalService — Lets a human decide intents parked in the approval queue.
+// Approving resumes the intent through the Executor from the policy stage:
+// policies are evaluated again against the current state, except that the
+// ones which asked for approval now let it through.
+// ---------------------------------------------------------------------------
+
+import type { IApprovalQueue } from "../core/interfaces/IApprovalQueue.js";
+import type { IExecutor } from "../core/interfaces/IExecutor.js";
+import type { ILogger } from "../core/interfaces/ILogger.js";
+import type { ApprovalRequest, ApprovalStatus } from "../core/types/Approval.js";
+import type { ExecutionResult } from "../core/types/ExecutionResult.js";
+import { reviveIntent } from "../core/intents/Intent.js";
+
+export class ApprovalService {
+  private readonly queue: IApprovalQueue;
+  private readonly executor: IExecutor;
+  private readonly logger: ILogger;
+
+  constructor(deps: { queue: IApprovalQueue; executor: IExecutor; logger: ILogger }) {
+    this.queue = deps.queue;
+    this.executor = deps.executor;
+    this.logger = deps.logger;
+  }
+
+  list(filter?: { status?: ApprovalStatus; limit?: number }): Promise<ApprovalRequest[]> {
+    return this.queue.list(filter);
+  }
+
+  get(id: string): Promise<ApprovalRequest | null> {
+    return this.queue.get(id);
+  }
+
+  /**
+   * Approve a pending request and execute its intent.
+   * @throws ApprovalError if the request is unknown, decided or expired.
+   */
+  async approve(
+    id: string,
+    decidedBy: string,
+    note?: string,
+  ): Promise<{ request: ApprovalRequest; result: ExecutionResult }> {
+    const request = await this.queue.decide(id, { status: "approved", decidedBy, note });
+    this.logger.info("Approval granted", {
+      approvalId: id,
+      intentId: request.intentId,
+      decidedBy,
+    });
+
+    let result: ExecutionResult;
+    try {
+      const intent = reviveIntent(request.intent);
+      result = await this.executor.execute(intent, request.agentId, {
+        approval: {
+          approvalId: request.id,
+          intentId: request.intentId,
+          approvedBy: decidedBy,
+          approvedAt: request.decidedAt ?? new Date().toISOString(),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result = {
+        status: "failure",
+        errorCode: "VALIDATION_ERROR",
+        errorMessage: `Stored intent is no longer valid: ${message}`,
+        failedAt: "validation",
+      };
+    }
+
+    await this.queue.complete(id, result);
+    this.logger.info("Approved intent executed", {
+      approvalId: id,
+      intentId: request.intentId,
+      status: result.status,
+    });
+    return { request: { ...request, result }, result };
+  }
+
+  /**
+   * Reject a pending request; its intent is never executed.
+   * @throws ApprovalError if the request is unknown, decided or expired.
+   */
+  async reject(id: string, decidedBy: string, note?: string): Promise<ApprovalRequest> {
+    const request = await this.queue.decide(id, { status: "rejected", decidedBy, note });
+    this.logger.info("Approval rejected", {
+      approvalId: id,
+      intentId: request.intentId,
+      decidedBy,
+    });
+    return request;
+  }
+}
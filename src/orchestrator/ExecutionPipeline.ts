@@ -21,7 +21,8 @@ export const PIPELINE_STAGES: readonly PipelineStageInfo[] = [
   {
     stage: "policy",
     name: "Policy Enforcement",
-    description: "Evaluate all policies — deny short-circuits",
+    description:
+      "Evaluate all policies against the intent, then against the built transaction — deny short-circuits",
   },
   {
     stage: "build",
@@ -33,10 +34,15 @@ export const PIPELINE_STAGES: readonly PipelineStageInfo[] = [
     name: "Transaction Signing",
     description: "Sign via Signer using KeyStore",
   },
+  {
+    stage: "simulate",
+    name: "Transaction Simulation",
+    description: "Dry runs only — simulate instead of sending",
+  },
   {
     stage: "send",
     name: "Transaction Send",
-    description: "Submit signed transaction to the network",
+    description: "Submit signed transaction to the network (retried if transient)",
   },
   {
     stage: "confirm",
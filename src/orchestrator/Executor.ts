@@ -1,26 +1,217 @@
 // ---------------------------------------------------------------------------
 // Executor — Runs the full execution pipeline:
-// Validate Intent → Enforce Policy → Build Tx → Sign → Send → Confirm
+// Validate Intent → Enforce Policy → Build Tx → Enforce Policy on the built
+// transaction → Sign → Send → Confirm
+// Dry runs stop after signing and simulate instead of sending.
+// Intents a policy wants a human to approve are parked in the approval queue
+// and run again from the policy stage once approved. Explaining an intent
+// runs both policy phases in explain mode and stops before signing.
+// Every stage transition is published on the pipeline event bus, and every
+// intent, decision, transaction and result is appended to the audit log.
+// Intents are idempotent by ID: a resubmitted intent returns its original
+// result instead of executing again. Transient send/confirm failures are
+// retried, rebuilding with a fresh blockhash only once the old one expired.
 // ---------------------------------------------------------------------------
 
-import type { IExecutor } from "../core/interfaces/IExecutor.js";
+import { randomUUID } from "node:crypto";
+
+import type { IExecutor, ExecutionOptions } from "../core/interfaces/IExecutor.js";
 import type { IPolicyEngine } from "../core/interfaces/IPolicyEngine.js";
 import type { ISigner } from "../core/interfaces/ISigner.js";
 import type { ILogger } from "../core/interfaces/ILogger.js";
+import type { IPipelineEvents } from "../core/interfaces/IPipelineEvents.js";
+import type { IAuditLog } from "../core/interfaces/IAuditLog.js";
+import type {
+  IIdempotencyStore,
+  IdempotencyRecord,
+} from "../core/interfaces/IIdempotencyStore.js";
+import type { IApprovalQueue } from "../core/interfaces/IApprovalQueue.js";
 import type { PolicyContext } from "../core/interfaces/IPolicy.js";
+import type { IProtocolAdapter } from "../core/interfaces/IProtocolAdapter.js";
 import type { Intent } from "../core/intents/Intent.js";
-import type { ExecutionResult } from "../core/types/ExecutionResult.js";
+import type {
+  ExecutionFailure,
+  ExecutionPendingApproval,
+  ExecutionResult,
+  PipelineStage,
+} from "../core/types/ExecutionResult.js";
+import type { PolicyApprovalRequired } from "../core/types/PolicyDecision.js";
+import type { PolicyExplanation, PolicyReport } from "../core/types/PolicyReport.js";
+import type { ApprovalGrant } from "../core/types/Approval.js";
+import type { AuditEntryType } from "../core/types/AuditEntry.js";
+import type { ChainTransaction } from "../core/types/ChainTransaction.js";
+import type { SimulationOutcome, BalanceChange } from "../core/types/SimulationOutcome.js";
+import type { TransactionInspection } from "../core/types/TransactionInspection.js";
 import { IntentSchema } from "../core/intents/Intent.js";
+import { requiresApproval } from "../core/types/PolicyDecision.js";
 import { IntentRouter } from "./IntentRouter.js";
+import { PipelineEventBus } from "./PipelineEventBus.js";
+import { RetryPolicy } from "./RetryPolicy.js";
 import { PolicyViolation } from "../core/errors/PolicyViolation.js";
 import { ExecutionError } from "../core/errors/ExecutionError.js";
 
+/** Failures at these stages happen before anything reaches the network. */
+const PRE_SEND_STAGES: readonly PipelineStage[] = ["validation", "policy", "build", "sign"];
+
+/** How long a parked intent waits for a human before it expires */
+const DEFAULT_APPROVAL_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Outcome of a successful send + confirm, possibly after retries */
+interface Delivery {
+  readonly status: "confirmed";
+  readonly txHash: string;
+  readonly attempts: number;
+}
+
+/**
+ * Combine the simulations of a split batch. Each part is simulated against
+ * the current chain state, so balance deltas are summed per account.
+ */
+function mergeSimulations(simulations: SimulationOutcome[]): SimulationOutcome {
+  if (simulations.length === 1 && simulations[0]) return simulations[0];
+
+  const changes = new Map<string, BalanceChange>();
+  for (const change of simulations.flatMap((s) => s.balanceChanges)) {
+    const existing = changes.get(change.account);
+    const delta = (existing?.delta ?? 0n) + change.delta;
+    const before = existing?.before ?? change.before;
+    changes.set(change.account, { account: change.account, before, after: before + delta, delta });
+  }
+
+  const units = simulations.map((s) => s.unitsConsumed);
+  return {
+    success: simulations.every((s) => s.success),
+    logs: simulations.flatMap((s) => s.logs),
+    unitsConsumed: units.every((u) => u !== undefined)
+      ? units.reduce<number>((sum, u) => sum + (u ?? 0), 0)
+      : undefined,
+    balanceChanges: Array.from(changes.values()),
+    error: simulations.find((s) => s.error)?.error,
+  };
+}
+
+/** Fallback for adapters that cannot decode their transactions */
+function declaredInspection(chainTx: ChainTransaction): TransactionInspection {
+  return {
+    chain: chainTx.chain,
+    instructions: [],
+    programIds: chainTx.programIds,
+    writableAccounts: [],
+    signers: [],
+    nativeTransfers: [],
+    swap: chainTx.swapQuote,
+    complete: false,
+  };
+}
+
+/** Whether any transaction of the run may have reached the network */
+function wasBroadcast(result: ExecutionResult): boolean {
+  if (result.status !== "failure") return result.status === "success";
+  return !PRE_SEND_STAGES.includes(result.failedAt) || !!result.completedTxHashes?.length;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Tracks the active stage of one pipeline run and publishes
+ * started / completed / failed events with timings.
+ */
+class StageTracker {
+  current: PipelineStage | null = null;
+  private stageStartedAt = 0;
+  private readonly bus: PipelineEventBus;
+  private readonly intentId: string;
+  private readonly agentId: string;
+
+  constructor(bus: PipelineEventBus, intentId: string, agentId: string) {
+    this.bus = bus;
+    this.intentId = intentId;
+    this.agentId = agentId;
+    // A resumed or re-run intent must not replay the previous run's finish
+    bus.startRun(intentId);
+  }
+
+  start(stage: PipelineStage): void {
+    this.current = stage;
+    this.stageStartedAt = Date.now();
+    this.bus.emit({ type: "stage.started", stage, ...this.base() });
+  }
+
+  complete(meta?: Record<string, unknown>): void {
+    if (!this.current) return;
+    this.bus.emit({
+      type: "stage.completed",
+      stage: this.current,
+      durationMs: Date.now() - this.stageStartedAt,
+      meta,
+      ...this.base(),
+    });
+    this.current = null;
+  }
+
+  /** Publish that the current stage failed and will be attempted again. */
+  retry(attempt: number, delayMs: number, errorMessage: string, rebuild: boolean): void {
+    if (!this.current) return;
+    this.bus.emit({
+      type: "stage.retrying",
+      stage: this.current,
+      attempt,
+      delayMs,
+      errorMessage,
+      rebuild,
+      ...this.base(),
+    });
+    this.current = null;
+  }
+
+  /** Publish a stage failure and pass the failure result through. */
+  fail(result: ExecutionFailure): ExecutionFailure {
+    this.bus.emit({
+      type: "stage.failed",
+      stage: result.failedAt,
+      durationMs: this.current ? Date.now() - this.stageStartedAt : 0,
+      errorCode: result.errorCode,
+      errorMessage: result.errorMessage,
+      ...this.base(),
+    });
+    this.current = null;
+    return result;
+  }
+
+  finish(result: ExecutionResult, startTime: number): void {
+    this.bus.emit({
+      type: "pipeline.finished",
+      durationMs: Date.now() - startTime,
+      result,
+      ...this.base(),
+    });
+  }
+
+  private base() {
+    return {
+      intentId: this.intentId,
+      agentId: this.agentId,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
 export class Executor implements IExecutor {
   private readonly router: IntentRouter;
   private readonly policyEngine: IPolicyEngine;
   private readonly signer: ISigner;
   private readonly logger: ILogger;
   private readonly getBalance: (walletId: string) => Promise<bigint>;
+  private readonly bus: PipelineEventBus;
+  private readonly auditLog?: IAuditLog;
+  private readonly idempotencyStore?: IIdempotencyStore;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly approvalQueue?: IApprovalQueue;
+  private readonly approvalTtlMs: number;
+  /** Runs in progress in this process, keyed by intent ID */
+  private readonly inFlight = new Map<string, Promise<ExecutionResult>>();
 
   constructor(deps: {
     router: IntentRouter;
@@ -28,56 +219,415 @@ export class Executor implements IExecutor {
     signer: ISigner;
     logger: ILogger;
     getBalance: (walletId: string) => Promise<bigint>;
+    events?: PipelineEventBus;
+    auditLog?: IAuditLog;
+    idempotencyStore?: IIdempotencyStore;
+    retryPolicy?: RetryPolicy;
+    approvalQueue?: IApprovalQueue;
+    approvalTtlMs?: number;
   }) {
     this.router = deps.router;
     this.policyEngine = deps.policyEngine;
     this.signer = deps.signer;
     this.logger = deps.logger;
     this.getBalance = deps.getBalance;
+    this.bus = deps.events ?? new PipelineEventBus({ logger: deps.logger });
+    this.auditLog = deps.auditLog;
+    this.idempotencyStore = deps.idempotencyStore;
+    this.retryPolicy = deps.retryPolicy ?? new RetryPolicy();
+    this.approvalQueue = deps.approvalQueue;
+    this.approvalTtlMs = deps.approvalTtlMs ?? DEFAULT_APPROVAL_TTL_MS;
+  }
+
+  /** Subscribe to stage progress for every intent this executor runs. */
+  get events(): IPipelineEvents {
+    return this.bus;
+  }
+
+  async execute(
+    intent: Intent,
+    agentId: string,
+    options: ExecutionOptions = {},
+  ): Promise<ExecutionResult> {
+    // Dry runs never move funds, so they are not deduplicated
+    if (options.dryRun) {
+      return this.executeOnce(intent, agentId, options);
+    }
+
+    const pending = this.inFlight.get(intent.id);
+    if (pending) {
+      this.logger.warn("Duplicate intent while in flight — awaiting original run", {
+        intentId: intent.id,
+        agentId,
+      });
+      return pending;
+    }
+
+    const run = this.executeIdempotent(intent, agentId, options);
+    this.inFlight.set(intent.id, run);
+    try {
+      return await run;
+    } finally {
+      this.inFlight.delete(intent.id);
+    }
   }
 
-  async execute(intent: Intent, agentId: string): Promise<ExecutionResult> {
+  /**
+   * Run an intent through both policy phases in explain mode, so every
+   * violation is reported rather than the first. The transaction is built
+   * (not signed) for the post-build phase. Nothing is audited, sent, parked
+   * or reserved: policies see a copy of the intent under a fresh ID, so
+   * explaining never touches the reservations of a run in flight.
+   * @throws ExecutionError if the intent is invalid or its chain unsupported.
+   */
+  async explain(intent: Intent, agentId: string): Promise<PolicyExplanation> {
+    const validation = IntentSchema.safeParse(intent);
+    if (!validation.success) {
+      throw new ExecutionError("validation", `Invalid intent: ${validation.error.message}`);
+    }
+
+    const probe: Intent = { ...intent, id: randomUUID() };
+    const adapter = this.router.resolve(intent);
+    const policyContext = await this.policyContext(intent, agentId, adapter);
+    const intentReport = await this.policyEngine.explain(probe, policyContext);
+
+    const transactions: PolicyReport[] = [];
+    let buildError: string | undefined;
+    try {
+      const parts = adapter.splitIntent ? await adapter.splitIntent(intent) : [intent];
+      for (const part of parts) {
+        const chainTx = await adapter.buildTransaction(part);
+        const inspection = adapter.inspectTransaction
+          ? await adapter.inspectTransaction(chainTx)
+          : declaredInspection(chainTx);
+        transactions.push(
+          await this.policyEngine.explainTransaction(probe, inspection, policyContext),
+        );
+      }
+    } catch (error) {
+      buildError = error instanceof Error ? error.message : String(error);
+    }
+
+    // Acted on as the pipeline would: an intent denial stops it before the
+    // build, and a transaction denial before signing
+    const transactionDenial = transactions.find((report) => !report.decision.allowed)?.decision;
+    const decision =
+      !intentReport.decision.allowed && !requiresApproval(intentReport.decision)
+        ? intentReport.decision
+        : transactionDenial ?? intentReport.decision;
+    const violations = [intentReport, ...transactions].flatMap((report) =>
+      report.evaluations.filter((evaluation) => !evaluation.allowed),
+    );
+
+    this.logger.info("Intent explained", {
+      intentId: intent.id,
+      agentId,
+      allowed: decision.allowed,
+      violations: violations.map((evaluation) => evaluation.policyId),
+      ...(buildError ? { buildError } : {}),
+    });
+
+    return {
+      intentId: intent.id,
+      agentId,
+      policySet: intentReport.policySet,
+      decision,
+      intent: intentReport,
+      transactions,
+      ...(buildError ? { buildError } : {}),
+      violations,
+      evaluatedAt: policyContext.evaluatedAt,
+    };
+  }
+
+  /**
+   * Claim the intent ID in the persistent store before executing.
+   * Completed intents return their stored result; intents claimed by another
+   * process (or interrupted mid-flight) are refused rather than re-sent.
+   */
+  private async executeIdempotent(
+    intent: Intent,
+    agentId: string,
+    options: ExecutionOptions,
+  ): Promise<ExecutionResult> {
+    if (!this.idempotencyStore) {
+      return this.executeOnce(intent, agentId, options);
+    }
+
+    let existing: IdempotencyRecord | null;
+    try {
+      existing = await this.idempotencyStore.claim(intent.id, { agentId, intent });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error("Idempotency store unavailable", { intentId: intent.id, error: message });
+      return {
+        status: "failure",
+        errorCode: "IDEMPOTENCY_UNAVAILABLE",
+        errorMessage: `Could not claim intent ${intent.id}: ${message}`,
+        failedAt: "validation",
+        cause: error instanceof Error ? error : undefined,
+      };
+    }
+
+    if (existing?.state === "completed" && existing.result) {
+      this.logger.warn("Duplicate intent — returning original result", {
+        intentId: intent.id,
+        agentId,
+        originalAgentId: existing.agentId,
+        completedAt: existing.completedAt,
+      });
+      return existing.result;
+    }
+    if (existing) {
+      this.logger.warn("Duplicate intent — already in flight", {
+        intentId: intent.id,
+        agentId,
+        startedAt: existing.startedAt,
+      });
+      return {
+        status: "failure",
+        errorCode: "INTENT_IN_FLIGHT",
+        errorMessage: `Intent ${intent.id} is already being executed (started ${existing.startedAt})`,
+        failedAt: "validation",
+      };
+    }
+
+    const result = await this.executeOnce(intent, agentId, options);
+
+    try {
+      // Nothing was broadcast — let the same intent be resubmitted
+      if (!wasBroadcast(result)) {
+        await this.idempotencyStore.release(intent.id);
+      } else {
+        await this.idempotencyStore.complete(intent.id, result);
+      }
+    } catch (error) {
+      this.logger.error("Failed to record idempotency result", {
+        intentId: intent.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return result;
+  }
+
+  private async executeOnce(
+    intent: Intent,
+    agentId: string,
+    options: ExecutionOptions,
+  ): Promise<ExecutionResult> {
     const startTime = Date.now();
+    const tracker = new StageTracker(this.bus, intent.id, agentId);
+
     this.logger.info("Pipeline started", {
       intentId: intent.id,
       agentId,
       type: intent.type,
       chain: intent.chain,
+      dryRun: options.dryRun ?? false,
+      approvalId: options.approval?.approvalId,
+    });
+    await this.audit("intent_received", intent, agentId, {
+      intent,
+      dryRun: options.dryRun ?? false,
+      ...(options.approval ? { approval: options.approval } : {}),
     });
 
+    const result = await this.runPipeline(intent, agentId, options, tracker, startTime);
+    await this.settlePolicies(intent, result);
+
+    const { cause, ...resultData } = result as ExecutionResult & { cause?: Error };
+    await this.audit(
+      "execution_result",
+      intent,
+      agentId,
+      { ...resultData, ...(cause ? { cause: cause.message } : {}) },
+      result.status,
+    );
+
+    tracker.finish(result, startTime);
+    return result;
+  }
+
+  /**
+   * Settle what policies reserved while evaluating the intent. Reservations
+   * are committed once something may have landed on chain (a send that
+   * failed to confirm may still land, and fees are paid either way) and
+   * released when nothing was broadcast or the run was only simulated.
+   */
+  private async settlePolicies(intent: Intent, result: ExecutionResult): Promise<void> {
+    const landed = wasBroadcast(result);
+    try {
+      if (landed) {
+        await this.policyEngine.commit(intent.id);
+      } else {
+        await this.policyEngine.release(intent.id);
+      }
+    } catch (error) {
+      this.logger.error("Failed to settle policy reservations", {
+        intentId: intent.id,
+        commit: landed,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /** Balance and cost estimates the policies judge the intent against */
+  private async policyContext(
+    intent: Intent,
+    agentId: string,
+    adapter: IProtocolAdapter,
+    approval?: ApprovalGrant,
+  ): Promise<PolicyContext> {
+    const [balance, estimatedFee, estimatedRent, walletRentExempt] = await Promise.all([
+      this.getBalance(intent.fromWalletId),
+      adapter.estimateFee?.(intent),
+      adapter.estimateRent?.(intent),
+      this.policyEngine.needsContext("walletRentExempt")
+        ? this.walletRentExempt(intent, adapter)
+        : undefined,
+    ]);
+    return {
+      agentId,
+      walletId: intent.fromWalletId,
+      balance,
+      estimatedFee,
+      estimatedRent,
+      walletRentExempt,
+      evaluatedAt: new Date().toISOString(),
+      approval,
+    };
+  }
+
+  /**
+   * The wallet's rent-exempt minimum; undefined if the network cannot be
+   * asked, so the policy falls back to its own figure instead of failing.
+   */
+  private async walletRentExempt(
+    intent: Intent,
+    adapter: IProtocolAdapter,
+  ): Promise<bigint | undefined> {
+    try {
+      return await adapter.rentExemptMinimum?.(0);
+    } catch (error) {
+      this.logger.warn("Wallet rent-exempt minimum unavailable", {
+        intentId: intent.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /** Put the intent in the approval queue; nothing is built until it is approved. */
+  private async park(
+    intent: Intent,
+    agentId: string,
+    decision: PolicyApprovalRequired,
+    queue: IApprovalQueue,
+    tracker: StageTracker,
+  ): Promise<ExecutionPendingApproval> {
+    const request = await queue.enqueue({
+      intentId: intent.id,
+      agentId,
+      walletId: intent.fromWalletId,
+      intent,
+      policyId: decision.policyId,
+      reason: decision.reason,
+      meta: decision.meta,
+      policySet: decision.policySet,
+      expiresAt: new Date(Date.now() + this.approvalTtlMs).toISOString(),
+    });
+
+    this.logger.warn("Intent requires approval", {
+      intentId: intent.id,
+      approvalId: request.id,
+      policyId: decision.policyId,
+      reason: decision.reason,
+      expiresAt: request.expiresAt,
+    });
+    await this.audit("approval_requested", intent, agentId, {
+      approvalId: request.id,
+      policyId: request.policyId,
+      reason: request.reason,
+      expiresAt: request.expiresAt,
+    });
+    tracker.complete({ approvalId: request.id, requiresApproval: true });
+
+    return {
+      status: "pending_approval",
+      approvalId: request.id,
+      policyId: request.policyId,
+      reason: request.reason,
+      expiresAt: request.expiresAt,
+    };
+  }
+
+  private async runPipeline(
+    intent: Intent,
+    agentId: string,
+    options: ExecutionOptions,
+    tracker: StageTracker,
+    startTime: number,
+  ): Promise<ExecutionResult> {
+    // Transactions already confirmed — non-atomic batches can fail part-way
+    const completedTxHashes: string[] = [];
+
     try {
       // ── Stage 1: Validation ────────────────────────────────────────
+      tracker.start("validation");
       const validation = IntentSchema.safeParse(intent);
       if (!validation.success) {
-        return {
+        return tracker.fail({
           status: "failure",
           errorCode: "VALIDATION_ERROR",
           errorMessage: `Invalid intent: ${validation.error.message}`,
           failedAt: "validation",
-        };
+        });
+      }
+      if (options.approval && options.approval.intentId !== intent.id) {
+        return tracker.fail({
+          status: "failure",
+          errorCode: "APPROVAL_MISMATCH",
+          errorMessage: `Approval ${options.approval.approvalId} was granted for intent ${options.approval.intentId}, not ${intent.id}`,
+          failedAt: "validation",
+        });
       }
+      tracker.complete({ type: intent.type });
 
       // ── Stage 2: Policy Enforcement ────────────────────────────────
-      const balance = await this.getBalance(intent.fromWalletId);
-      const policyContext: PolicyContext = {
-        agentId,
-        walletId: intent.fromWalletId,
-        balance,
-        evaluatedAt: new Date().toISOString(),
-      };
+      tracker.start("policy");
+      const adapter = this.router.resolve(intent);
+      const policyContext = await this.policyContext(intent, agentId, adapter, options.approval);
 
       const policyDecision = await this.policyEngine.evaluateAll(
         intent,
         policyContext,
       );
+      await this.audit("policy_decision", intent, agentId, {
+        ...policyDecision,
+        estimatedFee: policyContext.estimatedFee,
+        estimatedRent: policyContext.estimatedRent,
+      });
 
+      if (requiresApproval(policyDecision)) {
+        // Dry runs and approved resumes never park the intent
+        if (options.dryRun || options.approval || !this.approvalQueue) {
+          return tracker.fail({
+            status: "failure",
+            errorCode: "APPROVAL_REQUIRED",
+            errorMessage: policyDecision.reason,
+            failedAt: "policy",
+          });
+        }
+        return this.park(intent, agentId, policyDecision, this.approvalQueue, tracker);
+      }
       if (!policyDecision.allowed) {
         this.logger.warn("Policy denied intent", {
           intentId: intent.id,
           policyId: policyDecision.policyId,
           reason: policyDecision.reason,
         });
-        return {
+        return tracker.fail({
           status: "failure",
           errorCode: "POLICY_VIOLATION",
           errorMessage: policyDecision.reason,
@@ -86,47 +636,101 @@ export class Executor implements IExecutor {
             policyDecision.policyId,
             policyDecision.reason,
           ),
-        };
+        });
       }
+      tracker.complete();
 
       // ── Stage 3: Build Transaction ─────────────────────────────────
-      const adapter = this.router.resolve(intent);
-      const chainTx = await adapter.buildTransaction(intent);
+      tracker.start("build");
+      // Non-atomic batches may need several transactions; intent policies
+      // above already evaluated the batch as a whole.
+      const parts = adapter.splitIntent ? await adapter.splitIntent(intent) : [intent];
+      const simulations: SimulationOutcome[] = [];
+      let attempts = 0;
 
-      this.logger.debug("Transaction built", {
-        intentId: intent.id,
-        programIds: chainTx.programIds,
-      });
+      for (const [index, part] of parts.entries()) {
+        const partMeta = parts.length > 1 ? { part: index + 1, of: parts.length } : {};
+        const build = () =>
+          this.buildChecked(intent, part, agentId, adapter, policyContext, tracker, partMeta);
+        const chainTx = await build();
 
-      // ── Stage 4: Sign Transaction ──────────────────────────────────
-      const signedTx = await this.signer.sign(
-        intent.fromWalletId,
-        chainTx.payload,
-      );
+        // ── Stage 4: Sign Transaction ────────────────────────────────
+        tracker.start("sign");
+        const signedTx = await this.signer.sign(
+          intent.fromWalletId,
+          chainTx.payload,
+        );
+        tracker.complete();
 
-      // ── Stage 5: Send Transaction ──────────────────────────────────
-      const txHash = await adapter.sendTransaction(signedTx, chainTx);
+        // ── Dry run: Simulate instead of Send ────────────────────────
+        if (options.dryRun) {
+          tracker.start("simulate");
+          if (!adapter.simulateTransaction) {
+            return tracker.fail({
+              status: "failure",
+              errorCode: "SIMULATION_UNSUPPORTED",
+              errorMessage: `Adapter for chain "${adapter.chain}" does not support simulation`,
+              failedAt: "simulate",
+            });
+          }
 
-      // ── Stage 6: Confirm Transaction ───────────────────────────────
-      const confirmed = await adapter.confirmTransaction(txHash);
+          const simulation = await adapter.simulateTransaction(signedTx, chainTx);
+          tracker.complete({
+            success: simulation.success,
+            unitsConsumed: simulation.unitsConsumed,
+            ...partMeta,
+          });
+          simulations.push(simulation);
+          continue;
+        }
+
+        // ── Stages 5–6: Send + Confirm (with retries) ────────────────
+        const delivery = await this.deliver(intent, agentId, adapter, chainTx, signedTx, tracker, build);
+        if (delivery.status === "failure") {
+          return completedTxHashes.length > 0
+            ? { ...delivery, completedTxHashes: [...completedTxHashes] }
+            : delivery;
+        }
+        completedTxHashes.push(delivery.txHash);
+        attempts += delivery.attempts;
+
+        if (index < parts.length - 1) {
+          tracker.complete({ txHash: delivery.txHash, ...partMeta });
+        }
+      }
+
+      const elapsed = Date.now() - startTime;
+
+      if (options.dryRun) {
+        const simulation = mergeSimulations(simulations);
+        this.logger.info("Dry run completed", {
+          intentId: intent.id,
+          success: simulation.success,
+          unitsConsumed: simulation.unitsConsumed,
+          transactions: parts.length,
+          elapsedMs: elapsed,
+        });
 
-      if (!confirmed) {
         return {
-          status: "failure",
-          errorCode: "CONFIRMATION_FAILED",
-          errorMessage: `Transaction ${txHash} failed to confirm`,
-          failedAt: "confirm",
+          status: "simulated",
+          chain: intent.chain,
+          simulatedAt: new Date().toISOString(),
+          simulation,
+          meta: { elapsedMs: elapsed, ...(parts.length > 1 ? { transactions: parts.length } : {}) },
         };
       }
 
-      const elapsed = Date.now() - startTime;
+      const txHash = completedTxHashes[completedTxHashes.length - 1] ?? "";
       const explorerUrl = adapter.getExplorerUrl ? adapter.getExplorerUrl(txHash) : undefined;
+      tracker.complete({ txHash, explorerUrl });
 
       this.logger.info("Pipeline completed", {
         intentId: intent.id,
         txHash,
         explorerUrl,
         elapsedMs: elapsed,
+        attempts,
+        transactions: parts.length,
       });
 
       return {
@@ -134,17 +738,24 @@ export class Executor implements IExecutor {
         txHash,
         chain: intent.chain,
         confirmedAt: new Date().toISOString(),
-        meta: { elapsedMs: elapsed, explorerUrl },
+        meta: {
+          elapsedMs: elapsed,
+          explorerUrl,
+          attempts,
+          ...(parts.length > 1 ? { txHashes: [...completedTxHashes] } : {}),
+        },
       };
     } catch (error) {
       const message =
-        error instanceof Error ? error.message : "Unknown pipeline error";
+        error instanceof PolicyViolation
+          ? error.reason
+          : error instanceof Error ? error.message : "Unknown pipeline error";
       const stage =
         error instanceof ExecutionError
           ? error.stage
           : error instanceof PolicyViolation
             ? "policy"
-            : "send";
+            : tracker.current ?? "send";
 
       this.logger.error("Pipeline failed", {
         intentId: intent.id,
@@ -152,13 +763,213 @@ export class Executor implements IExecutor {
         error: message,
       });
 
-      return {
+      return tracker.fail({
         status: "failure",
-        errorCode: error instanceof ExecutionError ? error.code : "PIPELINE_ERROR",
+        errorCode:
+          error instanceof ExecutionError || error instanceof PolicyViolation
+            ? error.code
+            : "PIPELINE_ERROR",
         errorMessage: message,
         failedAt: stage,
         cause: error instanceof Error ? error : undefined,
-      };
+        ...(completedTxHashes.length > 0 ? { completedTxHashes: [...completedTxHashes] } : {}),
+      });
+    }
+  }
+
+  /**
+   * Build one transaction for the intent (or one part of a split batch) and
+   * run the post-build policy phase on what was actually built, so policies
+   * judge the real instructions rather than the intent. Throws
+   * PolicyViolation if a transaction policy denies it.
+   */
+  private async buildChecked(
+    intent: Intent,
+    part: Intent,
+    agentId: string,
+    adapter: IProtocolAdapter,
+    policyContext: PolicyContext,
+    tracker: StageTracker,
+    partMeta: Record<string, unknown>,
+  ): Promise<ChainTransaction> {
+    if (tracker.current !== "build") tracker.start("build");
+    const chainTx = await adapter.buildTransaction(part);
+
+    this.logger.debug("Transaction built", {
+      intentId: intent.id,
+      programIds: chainTx.programIds,
+      ...partMeta,
+    });
+    tracker.complete({ programIds: chainTx.programIds, ...partMeta });
+    await this.audit("transaction_built", intent, agentId, {
+      chain: chainTx.chain,
+      programIds: chainTx.programIds,
+      estimatedFee: chainTx.estimatedFee,
+      payloadBytes: chainTx.payload.length,
+      ...partMeta,
+    });
+
+    // ── Post-build policy phase ──────────────────────────────────────
+    tracker.start("policy");
+    const inspection = adapter.inspectTransaction
+      ? await adapter.inspectTransaction(chainTx)
+      : declaredInspection(chainTx);
+    const decision = await this.policyEngine.evaluateTransaction(intent, inspection, policyContext);
+    await this.audit("policy_decision", intent, agentId, {
+      ...decision,
+      phase: "transaction",
+      programIds: inspection.programIds,
+      writableAccounts: inspection.writableAccounts,
+      nativeTransfers: inspection.nativeTransfers,
+      ...(inspection.swap ? { swap: inspection.swap } : {}),
+      ...partMeta,
+    });
+
+    if (!decision.allowed) {
+      this.logger.warn("Policy denied transaction", {
+        intentId: intent.id,
+        policyId: decision.policyId,
+        reason: decision.reason,
+      });
+      throw new PolicyViolation(decision.policyId, decision.reason);
+    }
+    tracker.complete({ phase: "transaction", programIds: inspection.programIds });
+
+    return chainTx;
+  }
+
+  /**
+   * Send and confirm, retrying transient failures per the retry policy.
+   * Before any retry the previous signature is looked up so an intent never
+   * lands twice: a confirmed signature is reported as delivered, a pending
+   * one is resent (or re-awaited) as-is, and only an expired one is rebuilt
+   * and re-signed with a fresh blockhash. Adapters that cannot report
+   * signature status are never retried. `rebuild` builds and re-checks a
+   * fresh transaction for the same intent (or part of a split batch).
+   */
+  private async deliver(
+    intent: Intent,
+    agentId: string,
+    adapter: IProtocolAdapter,
+    chainTx: ChainTransaction,
+    signedTx: Uint8Array,
+    tracker: StageTracker,
+    rebuild: () => Promise<ChainTransaction>,
+  ): Promise<Delivery | ExecutionFailure> {
+    let pendingTxHash: string | null = null;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        let txHash = pendingTxHash;
+        if (!txHash) {
+          tracker.start("send");
+          txHash = await adapter.sendTransaction(signedTx, chainTx);
+          tracker.complete({ txHash, attempt });
+          await this.audit("transaction_sent", intent, agentId, { txHash, attempt });
+        }
+
+        tracker.start("confirm");
+        const confirmed = await adapter.confirmTransaction(txHash, chainTx);
+        if (!confirmed) {
+          return tracker.fail({
+            status: "failure",
+            errorCode: "CONFIRMATION_FAILED",
+            errorMessage: `Transaction ${txHash} failed to confirm`,
+            failedAt: "confirm",
+          });
+        }
+        return { status: "confirmed", txHash, attempts: attempt };
+      } catch (error) {
+        if (!this.retryPolicy.shouldRetry(error, attempt) || !adapter.getTransactionStatus) {
+          throw error;
+        }
+        const failedStage = tracker.current;
+        const txStatus = await adapter.getTransactionStatus(signedTx, chainTx);
+        if (!txStatus) throw error;
+
+        if (txStatus.state === "confirmed") {
+          return { status: "confirmed", txHash: txStatus.txHash, attempts: attempt };
+        }
+        if (txStatus.state === "failed") {
+          return tracker.fail({
+            status: "failure",
+            errorCode: "CONFIRMATION_FAILED",
+            errorMessage: `Transaction ${txStatus.txHash} failed on-chain: ${txStatus.error}`,
+            failedAt: "confirm",
+          });
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        const needsRebuild = txStatus.state === "expired";
+        const delayMs = this.retryPolicy.delayFor(attempt);
+
+        this.logger.warn("Transient failure — retrying", {
+          intentId: intent.id,
+          stage: failedStage,
+          attempt,
+          maxAttempts: this.retryPolicy.maxAttempts,
+          txHash: txStatus.txHash,
+          txState: txStatus.state,
+          delayMs,
+          error: message,
+        });
+        tracker.retry(attempt, delayMs, message, needsRebuild);
+        await this.audit("transaction_retry", intent, agentId, {
+          attempt,
+          stage: failedStage,
+          txHash: txStatus.txHash,
+          txState: txStatus.state,
+          rebuild: needsRebuild,
+          delayMs,
+          error: message,
+        });
+        await sleep(delayMs);
+
+        if (needsRebuild) {
+          chainTx = await rebuild();
+
+          tracker.start("sign");
+          signedTx = await this.signer.sign(intent.fromWalletId, chainTx.payload);
+          tracker.complete();
+          pendingTxHash = null;
+        } else {
+          // Still able to land: a confirm failure just waits again, while a
+          // send failure resends the same bytes — same signature, so at most
+          // one copy can ever land.
+          pendingTxHash = failedStage === "confirm" ? txStatus.txHash : null;
+        }
+      }
+    }
+  }
+
+  /**
+   * Append an entry to the audit log, if one is configured.
+   * Journal failures are logged but never fail the pipeline.
+   */
+  private async audit(
+    type: AuditEntryType,
+    intent: Intent,
+    agentId: string,
+    data: Record<string, unknown>,
+    status?: ExecutionResult["status"],
+  ): Promise<void> {
+    if (!this.auditLog) return;
+    try {
+      await this.auditLog.append({
+        type,
+        timestamp: new Date().toISOString(),
+        intentId: intent.id,
+        agentId,
+        walletId: intent.fromWalletId,
+        status,
+        data,
+      });
+    } catch (error) {
+      this.logger.warn("Audit log write failed", {
+        intentId: intent.id,
+        type,
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 }
@@ -0,0 +1,72 @@
+// ---------------------------------------------------------------------------
+// PipelineEventBus — In-process pub/sub for pipeline progress events.
+// Keeps a bounded per-intent history so late subscribers can catch up; the
+// history covers only the intent's latest pipeline run.
+// ---------------------------------------------------------------------------
+
+import type { IPipelineEvents, PipelineEventListener } from "../core/interfaces/IPipelineEvents.js";
+import type { ILogger } from "../core/interfaces/ILogger.js";
+import type { PipelineEvent } from "../core/types/PipelineEvent.js";
+
+export class PipelineEventBus implements IPipelineEvents {
+  private readonly listeners = new Set<PipelineEventListener>();
+  private readonly recent = new Map<string, PipelineEvent[]>();
+  private readonly maxTrackedIntents: number;
+  private readonly logger?: ILogger;
+
+  constructor(options?: { maxTrackedIntents?: number; logger?: ILogger }) {
+    this.maxTrackedIntents = options?.maxTrackedIntents ?? 100;
+    this.logger = options?.logger;
+  }
+
+  subscribe(listener: PipelineEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  history(intentId: string): PipelineEvent[] {
+    return [...(this.recent.get(intentId) ?? [])];
+  }
+
+  /** Forget an intent's events when a new pipeline run for it starts */
+  startRun(intentId: string): void {
+    this.recent.delete(intentId);
+  }
+
+  /**
+   * Publish an event to all listeners. Listener errors are logged and
+   * never propagate back into the pipeline.
+   */
+  emit(event: PipelineEvent): void {
+    this.remember(event);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger?.warn("Pipeline event listener failed", {
+          eventType: event.type,
+          intentId: event.intentId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private remember(event: PipelineEvent): void {
+    let events = this.recent.get(event.intentId);
+    if (!events) {
+      events = [];
+      this.recent.set(event.intentId, events);
+
+      // Map iteration order is insertion order — evict the oldest intent
+      if (this.recent.size > this.maxTrackedIntents) {
+        const oldest = this.recent.keys().next().value;
+        if (oldest !== undefined) this.recent.delete(oldest);
+      }
+    }
+    events.push(event);
+  }
+}
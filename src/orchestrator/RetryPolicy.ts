@@ -0,0 +1,51 @@
+// ---------------------------------------------------------------------------
+// RetryPolicy — Decides whether a failed send/confirm is worth another
+// attempt and how long to back off before it.
+// Only errors adapters mark as retryable qualify; everything else is terminal.
+// ---------------------------------------------------------------------------
+
+import { ExecutionError } from "../core/errors/ExecutionError.js";
+
+export interface RetryPolicyConfig {
+  /** Total send attempts per intent, including the first (1 disables retries) */
+  readonly maxAttempts: number;
+  /** Delay before the first retry; doubles on each subsequent retry */
+  readonly baseDelayMs: number;
+  /** Upper bound for the backoff delay */
+  readonly maxDelayMs: number;
+}
+
+const DEFAULT_CONFIG: RetryPolicyConfig = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 4_000,
+};
+
+export class RetryPolicy {
+  private readonly config: RetryPolicyConfig;
+
+  constructor(config: Partial<RetryPolicyConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  get maxAttempts(): number {
+    return this.config.maxAttempts;
+  }
+
+  /** True if the error is transient and attempts remain. */
+  shouldRetry(error: unknown, attempt: number): boolean {
+    return (
+      attempt < this.config.maxAttempts &&
+      error instanceof ExecutionError &&
+      error.retryable
+    );
+  }
+
+  /** Backoff before the given retry (attempt 1 is the first retry). */
+  delayFor(attempt: number): number {
+    return Math.min(
+      this.config.maxDelayMs,
+      this.config.baseDelayMs * 2 ** (attempt - 1),
+    );
+  }
+}
@@ -7,23 +7,41 @@ import Fastify from "fastify";
 import cors from "@fastify/cors";
 import { setWhirlpoolsConfig, setRpc } from "@orca-so/whirlpools";
 
-import { loadConfig } from "../infra/config/ConfigLoader.js";
+import { loadConfig, priorityFeeFromConfig } from "../infra/config/ConfigLoader.js";
 import { createLogger, setDefaultLogLevel } from "../infra/logging/LoggerFactory.js";
 import { EncryptedFileKeyStore } from "../wallet/keystore/EncryptedFileKeyStore.js";
 import { WalletManager } from "../wallet/WalletManager.js";
 import { Signer } from "../wallet/Signer.js";
 import { PolicyEngine } from "../wallet/policies/PolicyEngine.js";
 import { SpendingLimitPolicy } from "../wallet/policies/SpendingLimitPolicy.js";
+import { BalanceReservePolicy } from "../wallet/policies/BalanceReservePolicy.js";
+import { SwapSlippagePolicy } from "../wallet/policies/SwapSlippagePolicy.js";
+import { TokenGovernancePolicy } from "../wallet/policies/TokenGovernancePolicy.js";
+import { ProgramWhitelistPolicy } from "../wallet/policies/ProgramWhitelistPolicy.js";
 import { RateLimitPolicy } from "../wallet/policies/RateLimitPolicy.js";
+import { PolicyLoader } from "../wallet/policies/PolicyLoader.js";
+import { PolicyFactory } from "../wallet/policies/PolicyFactory.js";
 import { SolanaClient } from "../adapters/solana/SolanaClient.js";
 import { SolanaTransactionBuilder } from "../adapters/solana/SolanaTransactionBuilder.js";
 import { SolanaProtocolAdapter } from "../adapters/solana/SolanaProtocolAdapter.js";
+import { SolanaTokenAdapter } from "../adapters/solana/SolanaTokenAdapter.js";
+import { OrcaPriceOracle } from "../adapters/solana/whirlpool/OrcaPriceOracle.js";
+import { StaticPriceOracle } from "../infra/pricing/StaticPriceOracle.js";
 import { AdapterFactory } from "../adapters/AdapterFactory.js";
 import { IntentRouter } from "../orchestrator/IntentRouter.js";
 import { Executor } from "../orchestrator/Executor.js";
+import { RetryPolicy } from "../orchestrator/RetryPolicy.js";
+import { ApprovalService } from "../orchestrator/ApprovalService.js";
+import { JsonlAuditLog } from "../infra/audit/JsonlAuditLog.js";
+import { FileIdempotencyStore } from "../infra/storage/FileIdempotencyStore.js";
+import { FilePolicyStateStore } from "../infra/storage/FilePolicyStateStore.js";
+import { FileApprovalQueue } from "../infra/storage/FileApprovalQueue.js";
 
 import { walletsRoute } from "./routes/wallets.js";
 import { agentRoute } from "./routes/agent.js";
+import { auditRoute } from "./routes/audit.js";
+import { approvalsRoute } from "./routes/approvals.js";
+import { policiesRoute } from "./routes/policies.js";
 
 async function main() {
   // ── Config & logging ───────────────────────────────────────────────────
@@ -40,21 +58,77 @@ async function main() {
   const solanaClient = new SolanaClient(config.SOLANA_RPC_URL, createLogger("SolanaClient"));
   const walletManager = new WalletManager(keyStore, createLogger("WalletManager"));
   const signer = new Signer(keyStore, createLogger("Signer"));
+  const tokenAdapter = new SolanaTokenAdapter(solanaClient, createLogger("TokenAdapter"));
 
   // Load all stored wallets
   await walletManager.loadExistingWallets();
 
   // ── Policy engine ───────────────────────────────────────────────────────
+  // The audit log also feeds the anomaly policy's baselines
+  const auditLog = new JsonlAuditLog(config.AUDIT_LOG_PATH);
+  const policyStateStore = new FilePolicyStateStore(config.POLICY_STATE_PATH);
   const policyEngine = new PolicyEngine(createLogger("PolicyEngine"));
-  policyEngine.register(new SpendingLimitPolicy(config.MAX_SPEND_LAMPORTS));
-  policyEngine.register(new RateLimitPolicy(config.MAX_TX_PER_MINUTE));
+  if (config.POLICY_FILE) {
+    // Declarative policies, reloaded on change without a restart
+    const policyLoader = new PolicyLoader({
+      filePath: config.POLICY_FILE,
+      engine: policyEngine,
+      logger: createLogger("PolicyLoader"),
+      factory: new PolicyFactory({
+        getManagedAddresses: () => walletManager.getAllPublicKeys(),
+        getWalletAddress: (walletId) => walletManager.getWallet(walletId)?.getPublicKey(),
+        getDecimals: (mint) => tokenAdapter.getMintDecimals(mint),
+        priceOracle: config.PRICE_ORACLE === "static"
+          ? StaticPriceOracle.parse(config.STATIC_PRICES_USD)
+          : new OrcaPriceOracle({
+            connection: solanaClient.connection,
+            getDecimals: (mint) => tokenAdapter.getMintDecimals(mint),
+          }),
+        stateStore: policyStateStore,
+        auditLog,
+      }),
+    });
+    await policyLoader.load();
+    policyLoader.watch(config.POLICY_RELOAD_INTERVAL_MS);
+  } else {
+    policyEngine.register(
+      new SpendingLimitPolicy(config.MAX_SPEND_LAMPORTS, undefined, { stateStore: policyStateStore }),
+    );
+    policyEngine.register(new BalanceReservePolicy(config.MIN_BALANCE_LAMPORTS));
+    policyEngine.register(
+      new SwapSlippagePolicy({
+        maxSlippageBps: config.MAX_SWAP_SLIPPAGE_BPS,
+        maxPriceImpactBps: config.MAX_PRICE_IMPACT_BPS,
+      }),
+    );
+    policyEngine.register(
+      new TokenGovernancePolicy({
+        allowedAuthorities: config.ALLOWED_TOKEN_AUTHORITIES,
+        allowedDestinations: config.ALLOWED_MINT_DESTINATIONS,
+        getManagedAddresses: () => walletManager.getAllPublicKeys(),
+        getWalletAddress: (walletId) => walletManager.getWallet(walletId)?.getPublicKey(),
+      }),
+    );
+    policyEngine.register(new ProgramWhitelistPolicy(config.ALLOWED_PROGRAMS));
+    policyEngine.register(
+      new RateLimitPolicy(config.MAX_TX_PER_MINUTE, { stateStore: policyStateStore }),
+    );
+  }
 
   // ── Executor ────────────────────────────────────────────────────────────
+  const idempotencyStore = new FileIdempotencyStore(config.IDEMPOTENCY_STORE_PATH);
+  const approvalQueue = new FileApprovalQueue(config.APPROVAL_QUEUE_PATH);
   const txBuilder = new SolanaTransactionBuilder(
     solanaClient,
     createLogger("TxBuilder"),
     (walletId) => walletManager.getPublicKey(walletId),
     (walletId) => signer.getSecretKey(walletId),
+    {
+      priorityFee: priorityFeeFromConfig(config),
+      transactionVersion: config.TRANSACTION_VERSION,
+      addressLookupTables: config.ADDRESS_LOOKUP_TABLES,
+      defaultSlippageBps: config.SWAP_DEFAULT_SLIPPAGE_BPS,
+    },
   );
   const solanaAdapter = new SolanaProtocolAdapter(solanaClient, txBuilder, createLogger("SolanaAdapter"));
   const adapterFactory = new AdapterFactory();
@@ -66,6 +140,20 @@ async function main() {
     signer,
     logger: createLogger("Executor"),
     getBalance: (walletId) => solanaClient.getBalance(walletManager.getPublicKey(walletId)),
+    auditLog,
+    idempotencyStore,
+    retryPolicy: new RetryPolicy({
+      maxAttempts: config.TX_MAX_ATTEMPTS,
+      baseDelayMs: config.TX_RETRY_BASE_DELAY_MS,
+      maxDelayMs: config.TX_RETRY_MAX_DELAY_MS,
+    }),
+    approvalQueue,
+    approvalTtlMs: config.APPROVAL_TTL_MS,
+  });
+  const approvals = new ApprovalService({
+    queue: approvalQueue,
+    executor,
+    logger: createLogger("Approvals"),
   });
 
   // ── Fastify ─────────────────────────────────────────────────────────────
@@ -75,9 +163,12 @@ async function main() {
     origin: ["http://localhost:3000", "http://localhost:3001"],
   });
 
-  const deps = { walletManager, solanaClient, executor };
+  const deps = { walletManager, solanaClient, executor, auditLog, idempotencyStore, approvals };
   await walletsRoute(fastify, deps);
   await agentRoute(fastify, deps);
+  await auditRoute(fastify, deps);
+  await approvalsRoute(fastify, deps);
+  await policiesRoute(fastify, deps);
 
   // Health check
   fastify.get("/api/health", async () => ({
@@ -2,8 +2,14 @@
 // agent route — POST /api/agent/prompt
 // Accepts a natural-language prompt + walletId, runs it through LLMAgent,
 // executes the resulting intent, and returns the full result.
+// An optional Idempotency-Key header makes retries return the original
+// result instead of executing a second intent.
+//
+// GET /api/agent/intents/:intentId/events
+// Server-Sent Events stream of pipeline stage progress for one intent.
 // ---------------------------------------------------------------------------
 
+import type { OutgoingHttpHeaders } from "node:http";
 import type { FastifyInstance } from "fastify";
 import type { Executor } from "../../orchestrator/Executor.js";
 import type { WalletManager } from "../../wallet/WalletManager.js";
@@ -11,7 +17,16 @@ import type { SolanaClient } from "../../adapters/solana/SolanaClient.js";
 import { LLMAgent } from "../../llm/LLMAgent.js";
 import type { AIClientOptions, AIProvider } from "../../llm/AIClient.js";
 import type { Intent } from "../../core/intents/Intent.js";
+import { deriveIntentId } from "../../core/intents/Intent.js";
 import type { ExecutionResult } from "../../core/types/ExecutionResult.js";
+import type { PipelineEvent } from "../../core/types/PipelineEvent.js";
+import type { IIdempotencyStore } from "../../core/interfaces/IIdempotencyStore.js";
+import { toSerializable } from "../../infra/storage/FileStorage.js";
+
+/** Interval between SSE keep-alive comments */
+const SSE_HEARTBEAT_MS = 15_000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 interface PromptBody {
   prompt: string;
@@ -20,15 +35,32 @@ interface PromptBody {
   provider?: AIProvider;
   /** Override the model ID within the provider (default: GEMINI_MODEL env or "gemini-2.0-flash") */
   model?: string;
+  /** Simulate the resulting transaction instead of sending it */
+  dryRun?: boolean;
+  /**
+   * Client-chosen UUID for the resulting intent, so the client can open the
+   * events stream before submitting the prompt.
+   */
+  intentId?: string;
 }
 
 interface PromptResponse {
   intent: object | null;
-  result: ExecutionResult;
+  result: object;
   reasoning: string;
   agentId: string;
   provider: string;
   model: string;
+  /** True when served from the idempotency store instead of executing */
+  replayed?: boolean;
+}
+
+/**
+ * Map an Idempotency-Key to a stable intent ID. UUID keys are used as-is;
+ * anything else is hashed with the wallet ID into a UUID-shaped value.
+ */
+function intentIdForKey(walletId: string, key: string): string {
+  return UUID_PATTERN.test(key) ? key.toLowerCase() : deriveIntentId(`${walletId}:${key}`);
 }
 
 export async function agentRoute(
@@ -37,10 +69,12 @@ export async function agentRoute(
     executor: Executor;
     walletManager: WalletManager;
     solanaClient: SolanaClient;
+    idempotencyStore?: IIdempotencyStore;
   }
 ): Promise<void> {
   fastify.post<{ Body: PromptBody }>("/api/agent/prompt", async (req, reply) => {
-    const { prompt, walletId, provider = "google", model } = req.body;
+    const { prompt, walletId, provider = "google", model, dryRun = false } = req.body;
+    let intentId = req.body.intentId;
 
     if (!prompt?.trim()) {
       return reply.status(400).send({ error: "prompt is required" });
@@ -55,6 +89,36 @@ export async function agentRoute(
       return reply.status(404).send({ error: `Wallet ${walletId} not found` });
     }
 
+    // Replay or reject retries of an already-submitted prompt
+    const idempotencyKey = req.headers["idempotency-key"];
+    if (Array.isArray(idempotencyKey)) {
+      return reply.status(400).send({ error: "Only one Idempotency-Key header is allowed" });
+    }
+    if (idempotencyKey?.trim()) {
+      const keyedIntentId = intentIdForKey(walletId, idempotencyKey.trim());
+      if (intentId && intentId !== keyedIntentId) {
+        return reply.status(400).send({ error: "intentId does not match the Idempotency-Key" });
+      }
+      intentId = keyedIntentId;
+
+      const record = await deps.idempotencyStore?.get(intentId);
+      if (record?.state === "in_flight") {
+        return reply.status(409).send({ error: `Intent ${intentId} is already being executed` });
+      }
+      if (record?.state === "completed" && record.result) {
+        const replay: PromptResponse = {
+          intent: record.intent,
+          result: toSerializable(record.result),
+          reasoning: typeof record.intent.reasoning === "string" ? record.intent.reasoning : "",
+          agentId: record.agentId,
+          provider,
+          model: model ?? "",
+          replayed: true,
+        };
+        return reply.header("Idempotent-Replayed", "true").send(replay);
+      }
+    }
+
     // Fetch on-chain balance and peer wallets for context
     let balance = 0n;
     try {
@@ -90,19 +154,16 @@ export async function agentRoute(
       return reply.status(422).send({ error: "Agent returned no intent for this prompt" });
     }
 
-    // Execute through existing pipeline (validate → policy → build → sign → send → confirm)
-    const result = await deps.executor.execute(intent, agent.agentId);
+    if (intentId) {
+      intent = { ...intent, id: intentId };
+    }
 
-    // Serialize BigInt fields for JSON transport
-    const intentForJson = JSON.parse(
-      JSON.stringify(intent, (_key, val) =>
-        typeof val === "bigint" ? val.toString() : val
-      )
-    ) as object;
+    // Execute through existing pipeline (validate → policy → build → sign → send → confirm)
+    const result: ExecutionResult = await deps.executor.execute(intent, agent.agentId, { dryRun });
 
     const response: PromptResponse = {
-      intent: intentForJson,
-      result,
+      intent: toSerializable(intent),
+      result: toSerializable(result),
       reasoning: agent.lastReasoning,
       agentId: agent.agentId,
       provider: agent.provider,
@@ -111,4 +172,46 @@ export async function agentRoute(
 
     return reply.send(response);
   });
+
+  fastify.get<{ Params: { intentId: string } }>(
+    "/api/agent/intents/:intentId/events",
+    async (req, reply) => {
+      const { intentId } = req.params;
+      const events = deps.executor.events;
+
+      // Take over the raw socket; keep headers already set by plugins (CORS)
+      reply.hijack();
+      reply.raw.writeHead(200, {
+        ...(reply.getHeaders() as OutgoingHttpHeaders),
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+
+      let closed = false;
+      const heartbeat = setInterval(() => reply.raw.write(": keep-alive\n\n"), SSE_HEARTBEAT_MS);
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        reply.raw.end();
+      };
+
+      const write = (event: PipelineEvent) => {
+        if (closed || event.intentId !== intentId) return;
+        reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(toSerializable(event))}\n\n`);
+        if (event.type === "pipeline.finished") close();
+      };
+
+      const unsubscribe = events.subscribe(write);
+      req.raw.on("close", close);
+
+      // Replay anything emitted before the client connected
+      for (const event of events.history(intentId)) {
+        write(event);
+      }
+    },
+  );
 }
@@ -0,0 +1,105 @@
+// ---------------------------------------------------------------------------
+// approvals route — Human-in-the-loop decisions on parked intents.
+//
+// GET  /api/approvals?status=&limit=   List requests, most recent first
+// GET  /api/approvals/:id              One request
+// POST /api/approvals/:id/approve      Approve and execute the intent
+// POST /api/approvals/:id/reject       Reject the intent
+// ---------------------------------------------------------------------------
+
+import type { FastifyInstance, FastifyReply } from "fastify";
+import type { ApprovalService } from "../../orchestrator/ApprovalService.js";
+import type { ApprovalStatus } from "../../core/types/Approval.js";
+import { ApprovalError } from "../../core/errors/ApprovalError.js";
+import { toSerializable } from "../../infra/storage/FileStorage.js";
+
+interface ApprovalsQuerystring {
+  status?: ApprovalStatus;
+  limit?: string;
+}
+
+interface DecisionBody {
+  /** Who is deciding — recorded on the request */
+  decidedBy?: string;
+  note?: string;
+}
+
+const STATUSES: readonly string[] = ["pending", "approved", "rejected", "expired"];
+
+const ERROR_STATUS: Record<string, number> = {
+  APPROVAL_NOT_FOUND: 404,
+  APPROVAL_NOT_PENDING: 409,
+  APPROVAL_EXPIRED: 410,
+};
+
+function sendApprovalError(reply: FastifyReply, error: unknown): FastifyReply {
+  if (error instanceof ApprovalError) {
+    return reply.status(ERROR_STATUS[error.code] ?? 400).send({
+      error: error.message,
+      code: error.code,
+    });
+  }
+  throw error;
+}
+
+export async function approvalsRoute(
+  fastify: FastifyInstance,
+  deps: { approvals: ApprovalService }
+): Promise<void> {
+  fastify.get<{ Querystring: ApprovalsQuerystring }>("/api/approvals", async (req, reply) => {
+    const { status, limit } = req.query;
+
+    if (status && !STATUSES.includes(status)) {
+      return reply.status(400).send({ error: `status must be one of: ${STATUSES.join(", ")}` });
+    }
+    const parsedLimit = limit !== undefined ? Number(limit) : undefined;
+    if (parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit <= 0)) {
+      return reply.status(400).send({ error: "limit must be a positive integer" });
+    }
+
+    const approvals = await deps.approvals.list({ status, limit: parsedLimit });
+    return reply.send({ approvals });
+  });
+
+  fastify.get<{ Params: { id: string } }>("/api/approvals/:id", async (req, reply) => {
+    const approval = await deps.approvals.get(req.params.id);
+    if (!approval) {
+      return reply.status(404).send({ error: `Approval request ${req.params.id} not found` });
+    }
+    return reply.send({ approval });
+  });
+
+  fastify.post<{ Params: { id: string }; Body: DecisionBody }>(
+    "/api/approvals/:id/approve",
+    async (req, reply) => {
+      const { decidedBy, note } = req.body ?? {};
+      if (!decidedBy) {
+        return reply.status(400).send({ error: "decidedBy is required" });
+      }
+
+      try {
+        const { request, result } = await deps.approvals.approve(req.params.id, decidedBy, note);
+        return reply.send({ approval: toSerializable(request), result: toSerializable(result) });
+      } catch (error) {
+        return sendApprovalError(reply, error);
+      }
+    },
+  );
+
+  fastify.post<{ Params: { id: string }; Body: DecisionBody }>(
+    "/api/approvals/:id/reject",
+    async (req, reply) => {
+      const { decidedBy, note } = req.body ?? {};
+      if (!decidedBy) {
+        return reply.status(400).send({ error: "decidedBy is required" });
+      }
+
+      try {
+        const approval = await deps.approvals.reject(req.params.id, decidedBy, note);
+        return reply.send({ approval });
+      } catch (error) {
+        return sendApprovalError(reply, error);
+      }
+    },
+  );
+}
@@ -0,0 +1,62 @@
+// ---------------------------------------------------------------------------
+// audit route — GET /api/audit
+// Queries the execution journal by wallet, agent, intent, time range and
+// final status. Returns entries oldest first.
+// ---------------------------------------------------------------------------
+
+import type { FastifyInstance } from "fastify";
+import type { IAuditLog } from "../../core/interfaces/IAuditLog.js";
+import type { AuditEntryType, AuditQuery } from "../../core/types/AuditEntry.js";
+import type { ExecutionResult } from "../../core/types/ExecutionResult.js";
+
+interface AuditQuerystring {
+  walletId?: string;
+  agentId?: string;
+  intentId?: string;
+  type?: AuditEntryType;
+  /** ISO-8601 lower bound */
+  from?: string;
+  /** ISO-8601 upper bound */
+  to?: string;
+  status?: ExecutionResult["status"];
+  limit?: string;
+}
+
+const STATUSES: readonly string[] = ["success", "failure", "simulated", "pending_approval"];
+
+export async function auditRoute(
+  fastify: FastifyInstance,
+  deps: { auditLog: IAuditLog }
+): Promise<void> {
+  fastify.get<{ Querystring: AuditQuerystring }>("/api/audit", async (req, reply) => {
+    const { walletId, agentId, intentId, type, from, to, status, limit } = req.query;
+
+    for (const [name, value] of [["from", from], ["to", to]] as const) {
+      if (value && Number.isNaN(Date.parse(value))) {
+        return reply.status(400).send({ error: `${name} must be an ISO-8601 timestamp` });
+      }
+    }
+    if (status && !STATUSES.includes(status)) {
+      return reply.status(400).send({ error: `status must be one of: ${STATUSES.join(", ")}` });
+    }
+    const parsedLimit = limit !== undefined ? Number(limit) : undefined;
+    if (parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit <= 0)) {
+      return reply.status(400).send({ error: "limit must be a positive integer" });
+    }
+
+    const filter: AuditQuery = {
+      walletId,
+      agentId,
+      intentId,
+      type,
+      // Normalise so string comparison against stored timestamps is exact
+      from: from ? new Date(from).toISOString() : undefined,
+      to: to ? new Date(to).toISOString() : undefined,
+      status,
+      limit: parsedLimit,
+    };
+
+    const entries = await deps.auditLog.query(filter);
+    return reply.send({ entries });
+  });
+}
@@ -0,0 +1,64 @@
+// ---------------------------------------------------------------------------
+// policies route — Explain what the policies make of an intent.
+//
+// POST /api/policies/explain   Evaluate every policy against an intent
+//                              without executing it
+// ---------------------------------------------------------------------------
+
+import { randomUUID } from "node:crypto";
+import type { FastifyInstance } from "fastify";
+import type { Executor } from "../../orchestrator/Executor.js";
+import type { WalletManager } from "../../wallet/WalletManager.js";
+import type { Intent } from "../../core/intents/Intent.js";
+import { reviveIntent } from "../../core/intents/Intent.js";
+import { DomainError } from "../../core/errors/DomainError.js";
+import { toSerializable } from "../../infra/storage/FileStorage.js";
+
+interface ExplainBody {
+  /** Agent the intent is evaluated for (selects its policy set and budgets) */
+  agentId?: string;
+  /** Intent as JSON, amounts as strings; `id` and `createdAt` may be omitted */
+  intent?: Record<string, unknown>;
+}
+
+export async function policiesRoute(
+  fastify: FastifyInstance,
+  deps: { executor: Executor; walletManager: WalletManager }
+): Promise<void> {
+  fastify.post<{ Body: ExplainBody }>("/api/policies/explain", async (req, reply) => {
+    const { agentId, intent: body } = req.body ?? {};
+    if (!agentId?.trim()) {
+      return reply.status(400).send({ error: "agentId is required" });
+    }
+    if (!body || typeof body !== "object") {
+      return reply.status(400).send({ error: "intent is required" });
+    }
+
+    let intent: Intent;
+    try {
+      intent = reviveIntent({
+        id: randomUUID(),
+        createdAt: new Date().toISOString(),
+        ...body,
+      });
+    } catch (error) {
+      return reply.status(400).send({
+        error: `Invalid intent: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+
+    if (!deps.walletManager.getWallet(intent.fromWalletId)) {
+      return reply.status(404).send({ error: `Wallet ${intent.fromWalletId} not found` });
+    }
+
+    try {
+      const explanation = await deps.executor.explain(intent, agentId);
+      return reply.send(toSerializable(explanation));
+    } catch (error) {
+      if (error instanceof DomainError) {
+        return reply.status(400).send({ error: error.message, code: error.code });
+      }
+      throw error;
+    }
+  });
+}
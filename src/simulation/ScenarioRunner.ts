@@ -90,12 +90,18 @@ export class ScenarioRunner {
               agentId: agent.agentId,
               txHash: result.txHash,
             });
-          } else {
+          } else if (result.status === "failure") {
             this.logger.warn("Transaction failed", {
               agentId: agent.agentId,
               errorCode: result.errorCode,
               failedAt: result.failedAt,
             });
+          } else if (result.status === "pending_approval") {
+            this.logger.warn("Transaction awaiting approval", {
+              agentId: agent.agentId,
+              approvalId: result.approvalId,
+              reason: result.reason,
+            });
           }
         } catch (error) {
           this.logger.error("Agent tick error", {
@@ -3,19 +3,30 @@
 // Agents create mints, mint tokens, and distribute them collectively.
 // ---------------------------------------------------------------------------
 
-import { loadConfig } from "../../infra/config/ConfigLoader.js";
+import { loadConfig, priorityFeeFromConfig } from "../../infra/config/ConfigLoader.js";
 import { createLogger, setDefaultLogLevel } from "../../infra/logging/LoggerFactory.js";
 import { EncryptedFileKeyStore } from "../../wallet/keystore/EncryptedFileKeyStore.js";
 import { WalletManager } from "../../wallet/WalletManager.js";
 import { Signer } from "../../wallet/Signer.js";
 import { PolicyEngine } from "../../wallet/policies/PolicyEngine.js";
 import { SpendingLimitPolicy } from "../../wallet/policies/SpendingLimitPolicy.js";
+import { BalanceReservePolicy } from "../../wallet/policies/BalanceReservePolicy.js";
+import { SwapSlippagePolicy } from "../../wallet/policies/SwapSlippagePolicy.js";
+import { TokenGovernancePolicy } from "../../wallet/policies/TokenGovernancePolicy.js";
 import { SolanaClient } from "../../adapters/solana/SolanaClient.js";
 import { SolanaTransactionBuilder } from "../../adapters/solana/SolanaTransactionBuilder.js";
 import { SolanaProtocolAdapter } from "../../adapters/solana/SolanaProtocolAdapter.js";
 import { AdapterFactory } from "../../adapters/AdapterFactory.js";
 import { IntentRouter } from "../../orchestrator/IntentRouter.js";
 import { Executor } from "../../orchestrator/Executor.js";
+import { RetryPolicy } from "../../orchestrator/RetryPolicy.js";
+import { JsonlAuditLog } from "../../infra/audit/JsonlAuditLog.js";
+import { FilePolicyStateStore } from "../../infra/storage/FilePolicyStateStore.js";
+import { PolicyLoader } from "../../wallet/policies/PolicyLoader.js";
+import { PolicyFactory } from "../../wallet/policies/PolicyFactory.js";
+import { SolanaTokenAdapter } from "../../adapters/solana/SolanaTokenAdapter.js";
+import { OrcaPriceOracle } from "../../adapters/solana/whirlpool/OrcaPriceOracle.js";
+import { StaticPriceOracle } from "../../infra/pricing/StaticPriceOracle.js";
 import { AgentFactory } from "../AgentFactory.js";
 import { WalletFactory } from "../WalletFactory.js";
 import { ScenarioRunner } from "../ScenarioRunner.js";
@@ -33,16 +44,64 @@ async function main() {
   const solanaClient = new SolanaClient(config.SOLANA_RPC_URL, createLogger("SolanaClient"));
   const walletManager = new WalletManager(keyStore, createLogger("WalletManager"));
   const signer = new Signer(keyStore, createLogger("Signer"));
+  const tokenAdapter = new SolanaTokenAdapter(solanaClient, createLogger("TokenAdapter"));
 
   // 2. Setup Policy Engine
+  const policyStateStore = new FilePolicyStateStore(config.POLICY_STATE_PATH);
+  const auditLog = new JsonlAuditLog(config.AUDIT_LOG_PATH);
   const policyEngine = new PolicyEngine(createLogger("PolicyEngine"));
-  policyEngine.register(new SpendingLimitPolicy(config.MAX_SPEND_LAMPORTS));
+  if (config.POLICY_FILE) {
+    await new PolicyLoader({
+      filePath: config.POLICY_FILE,
+      engine: policyEngine,
+      logger: createLogger("PolicyLoader"),
+      factory: new PolicyFactory({
+        getManagedAddresses: () => walletManager.getAllPublicKeys(),
+        getWalletAddress: (walletId) => walletManager.getWallet(walletId)?.getPublicKey(),
+        getDecimals: (mint) => tokenAdapter.getMintDecimals(mint),
+        priceOracle: config.PRICE_ORACLE === "static"
+          ? StaticPriceOracle.parse(config.STATIC_PRICES_USD)
+          : new OrcaPriceOracle({
+            connection: solanaClient.connection,
+            getDecimals: (mint) => tokenAdapter.getMintDecimals(mint),
+          }),
+        stateStore: policyStateStore,
+        auditLog,
+      }),
+    }).load();
+  } else {
+    policyEngine.register(
+      new SpendingLimitPolicy(config.MAX_SPEND_LAMPORTS, undefined, { stateStore: policyStateStore }),
+    );
+    policyEngine.register(new BalanceReservePolicy(config.MIN_BALANCE_LAMPORTS));
+    policyEngine.register(
+      new SwapSlippagePolicy({
+        maxSlippageBps: config.MAX_SWAP_SLIPPAGE_BPS,
+        maxPriceImpactBps: config.MAX_PRICE_IMPACT_BPS,
+      }),
+    );
+    policyEngine.register(
+      new TokenGovernancePolicy({
+        allowedAuthorities: config.ALLOWED_TOKEN_AUTHORITIES,
+        allowedDestinations: config.ALLOWED_MINT_DESTINATIONS,
+        getManagedAddresses: () => walletManager.getAllPublicKeys(),
+        getWalletAddress: (walletId) => walletManager.getWallet(walletId)?.getPublicKey(),
+      }),
+    );
+  }
 
   // 3. Setup Protocol Layer
   const txBuilder = new SolanaTransactionBuilder(
     solanaClient,
     createLogger("TxBuilder"),
     (walletId) => walletManager.getPublicKey(walletId),
+    undefined,
+    {
+      priorityFee: priorityFeeFromConfig(config),
+      transactionVersion: config.TRANSACTION_VERSION,
+      addressLookupTables: config.ADDRESS_LOOKUP_TABLES,
+      defaultSlippageBps: config.SWAP_DEFAULT_SLIPPAGE_BPS,
+    },
   );
   const solanaAdapter = new SolanaProtocolAdapter(solanaClient, txBuilder, createLogger("SolanaAdapter"));
   const adapterFactory = new AdapterFactory();
@@ -56,6 +115,12 @@ async function main() {
     signer,
     logger: createLogger("Executor"),
     getBalance: async (walletId) => solanaClient.getBalance(walletManager.getPublicKey(walletId)),
+    auditLog,
+    retryPolicy: new RetryPolicy({
+      maxAttempts: config.TX_MAX_ATTEMPTS,
+      baseDelayMs: config.TX_RETRY_BASE_DELAY_MS,
+      maxDelayMs: config.TX_RETRY_MAX_DELAY_MS,
+    }),
   });
 
   // 5. Create or Load Wallets
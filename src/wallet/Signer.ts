@@ -2,13 +2,15 @@
 // Signer — Signs transaction payloads using keys from IKeyStore.
 // This is the ONLY component that retrieves private keys.
 // Keys are retrieved, used for signing, and immediately discarded.
+// Both legacy and v0 (versioned) payloads are supported; the message
+// version is read from the payload itself.
 // ---------------------------------------------------------------------------
 
 import type { ISigner } from "../core/interfaces/ISigner.js";
 import type { IKeyStore } from "../core/interfaces/IKeyStore.js";
 import type { ILogger } from "../core/interfaces/ILogger.js";
 import { SigningError } from "../core/errors/SigningError.js";
-import { Keypair, Transaction } from "@solana/web3.js";
+import { Keypair, Transaction, VersionedTransaction } from "@solana/web3.js";
 
 export class Signer implements ISigner {
   private readonly keyStore: IKeyStore;
@@ -29,24 +31,31 @@ export class Signer implements ISigner {
       const secretKey = await this.keyStore.retrieve(walletId);
       const keypair = Keypair.fromSecretKey(secretKey);
 
-      // Deserialize the unsigned transaction
-      const transaction = Transaction.from(Buffer.from(payload));
+      // Detect the message version from the wire format
+      const versioned = VersionedTransaction.deserialize(payload);
 
-      // Sign the transaction
-      transaction.partialSign(keypair);
-
-      this.logger.debug("Transaction signed", {
+      this.logger.debug("Signing transaction", {
         walletId,
         publicKey: keypair.publicKey.toBase58(),
+        version: versioned.version,
       });
 
-      // Return the signed transaction bytes
-      return transaction.serialize();
+      if (versioned.version === "legacy") {
+        // Legacy path: partialSign keeps signatures already present
+        const transaction = Transaction.from(Buffer.from(payload));
+        transaction.partialSign(keypair);
+        return transaction.serialize();
+      }
+
+      // v0: sign() only fills this keypair's slot, preserving other signatures
+      versioned.sign([keypair]);
+      return versioned.serialize();
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown signing error";
       throw new SigningError(walletId, message, error instanceof Error ? error : undefined);
     }
   }
+
   /**
    * Retrieve the raw secret key for the wallet.
    * This is required for Orca Swap integration.
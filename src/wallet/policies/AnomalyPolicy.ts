@@ -0,0 +1,354 @@
+// ---------------------------------------------------------------------------
+// AnomalyPolicy — Catches sudden changes in an agent's behaviour. Each
+// agent's baseline is learned from its history in the audit log: the
+// amounts and recipients of its successful intents, its mix of intent types
+// and how often it submits intents. An intent that is an outlier against
+// that baseline is denied, or parked for a human to approve, with every
+// signal that fired explained in the decision's meta. Agents with too
+// little history are not judged. Each agent's history is read from the
+// journal at most once per `cacheTtlMs`; in between, the intents this
+// policy evaluates are added to it (dry runs included, until the next read).
+// ---------------------------------------------------------------------------
+
+import type { IAuditLog } from "../../core/interfaces/IAuditLog.js";
+import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type { Intent } from "../../core/intents/Intent.js";
+import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import { reviveIntent } from "../../core/intents/Intent.js";
+import { extractSpend } from "./TokenAmounts.js";
+import { extractRecipients } from "./RecipientPolicy.js";
+import { formatWindow } from "./SlidingWindow.js";
+
+export type AnomalySignal = "amount" | "recipients" | "intent-type" | "frequency";
+
+export const ANOMALY_SIGNALS: readonly AnomalySignal[] = [
+  "amount",
+  "recipients",
+  "intent-type",
+  "frequency",
+];
+
+export interface AnomalyOptions {
+  auditLog: IAuditLog;
+  /** How far back the baseline is learned from; 30 days by default */
+  lookbackMs?: number;
+  /** Window recent activity is judged over; one hour by default */
+  recentWindowMs?: number;
+  /** Successful intents an agent needs before it is judged; 20 by default */
+  minSamples?: number;
+  /** Signals to check; all of them by default */
+  signals?: AnomalySignal[];
+  /** Deny outliers (default), or ask a human to approve them */
+  action?: "deny" | "approve";
+  /** Robust z-score of an amount (log scale) above which it is an outlier */
+  maxAmountScore?: number;
+  /** Distinct recipients outside the baseline allowed within the recent window */
+  maxNewRecipients?: number;
+  /** An intent type below this share of the baseline is an outlier */
+  minTypeShare?: number;
+  /** Multiple of the agent's usual rate allowed within the recent window */
+  maxRateMultiple?: number;
+  /** How long an agent's history read from the journal is reused; one minute by default */
+  cacheTtlMs?: number;
+  /** Address of a managed wallet, for recipients given as wallet IDs */
+  getWalletAddress?: (walletId: string) => string | undefined;
+}
+
+/** One signal that fired, with what it saw against the baseline */
+export interface AnomalyFinding {
+  signal: AnomalySignal;
+  detail: string;
+  [key: string]: unknown;
+}
+
+/** An intent the agent submitted, as recorded in the journal */
+interface Observation {
+  intent: Intent;
+  at: number;
+  succeeded: boolean;
+}
+
+/** An agent's history as last read, keyed by intent ID */
+interface CachedHistory {
+  loadedAt: number;
+  observations: Map<string, Observation>;
+}
+
+/**
+ * Lower bound on the spread of log amounts, so an agent that always sends
+ * the same amount is not flagged for a small change (a 0.5 spread flags
+ * roughly 7x the usual amount at the default score)
+ */
+const MIN_LOG_SPREAD = 0.5;
+/** Scales the median absolute deviation to a standard deviation */
+const MAD_SCALE = 1.4826;
+
+export class AnomalyPolicy implements IPolicy {
+  readonly policyId = "anomaly";
+  readonly name = "Anomaly Detection Policy";
+
+  private readonly auditLog: IAuditLog;
+  private readonly lookbackMs: number;
+  private readonly recentWindowMs: number;
+  private readonly minSamples: number;
+  private readonly signals: Set<AnomalySignal>;
+  private readonly action: "deny" | "approve";
+  private readonly maxAmountScore: number;
+  private readonly maxNewRecipients: number;
+  private readonly minTypeShare: number;
+  private readonly maxRateMultiple: number;
+  private readonly cacheTtlMs: number;
+  private readonly getWalletAddress: (walletId: string) => string | undefined;
+  private readonly histories = new Map<string, CachedHistory>();
+  /** Intents allowed but not yet settled, keyed by intent ID */
+  private readonly pending = new Map<string, Observation>();
+
+  constructor(options: AnomalyOptions) {
+    this.auditLog = options.auditLog;
+    this.lookbackMs = options.lookbackMs ?? 30 * 86_400_000;
+    this.recentWindowMs = options.recentWindowMs ?? 3_600_000;
+    this.minSamples = options.minSamples ?? 20;
+    this.signals = new Set(options.signals ?? ANOMALY_SIGNALS);
+    this.action = options.action ?? "deny";
+    this.maxAmountScore = options.maxAmountScore ?? 4;
+    this.maxNewRecipients = options.maxNewRecipients ?? 3;
+    this.minTypeShare = options.minTypeShare ?? 0.05;
+    this.maxRateMultiple = options.maxRateMultiple ?? 5;
+    this.cacheTtlMs = options.cacheTtlMs ?? 60_000;
+    this.getWalletAddress = options.getWalletAddress ?? (() => undefined);
+  }
+
+  async evaluate(intent: Intent, context: PolicyContext): Promise<PolicyDecision> {
+    // A human has already looked at this intent
+    if (context.approval) {
+      return { allowed: true, policyId: this.policyId };
+    }
+
+    const now = Date.parse(context.evaluatedAt);
+    const recentStart = now - this.recentWindowMs;
+    const history = await this.history(context.agentId, intent.id, now);
+    this.observe(context.agentId, intent, now);
+    const baseline = history.filter((o) => o.succeeded && o.at < recentStart);
+    if (baseline.length < this.minSamples) {
+      return { allowed: true, policyId: this.policyId };
+    }
+
+    const findings: AnomalyFinding[] = [];
+    const check = (signal: AnomalySignal, finding: () => AnomalyFinding | undefined) => {
+      if (!this.signals.has(signal)) return;
+      const result = finding();
+      if (result) findings.push(result);
+    };
+    check("amount", () => this.checkAmount(intent, baseline));
+    check("recipients", () => this.checkRecipients(intent, history, baseline, recentStart));
+    check("intent-type", () => this.checkIntentType(intent, baseline));
+    check("frequency", () => this.checkFrequency(history, recentStart));
+
+    if (findings.length === 0) {
+      return { allowed: true, policyId: this.policyId };
+    }
+
+    const reason = `Anomalous behaviour for agent ${context.agentId}: ` +
+      findings.map((finding) => finding.detail).join("; ");
+    const meta = { action: this.action, baselineSamples: baseline.length, findings };
+    return this.action === "approve"
+      ? { allowed: false, requiresApproval: true, policyId: this.policyId, reason, meta }
+      : { allowed: false, policyId: this.policyId, reason, meta };
+  }
+
+  /** Amounts far above what the agent usually spends of the same token */
+  private checkAmount(intent: Intent, baseline: Observation[]): AnomalyFinding | undefined {
+    let worst: AnomalyFinding | undefined;
+    let worstScore = this.maxAmountScore;
+
+    for (const [token, amount] of extractSpend(intent)) {
+      const usual = baseline
+        .map((o) => extractSpend(o.intent).get(token))
+        .filter((value): value is bigint => value !== undefined && value > 0n);
+      if (usual.length < this.minSamples || amount <= 0n) continue;
+
+      const logs = usual.map((value) => Math.log(Number(value)));
+      const center = median(logs);
+      const spread = Math.max(
+        MAD_SCALE * median(logs.map((value) => Math.abs(value - center))),
+        MIN_LOG_SPREAD,
+      );
+      const score = (Math.log(Number(amount)) - center) / spread;
+      if (score <= worstScore) continue;
+
+      const sorted = [...usual].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      const usualMedian = sorted[Math.floor(sorted.length / 2)] ?? 0n;
+      const multiple = Number(amount) / Number(usualMedian);
+      worstScore = score;
+      worst = {
+        signal: "amount",
+        detail: `${token} amount ${amount} is ${round(multiple)}x the usual ${usualMedian}`,
+        token,
+        amount: amount.toString(),
+        baselineMedian: usualMedian.toString(),
+        multiple: round(multiple),
+        score: round(score),
+        maxScore: this.maxAmountScore,
+      };
+    }
+    return worst;
+  }
+
+  /** A burst of recipients the agent had not paid before the recent window */
+  private checkRecipients(
+    intent: Intent,
+    history: Observation[],
+    baseline: Observation[],
+    recentStart: number,
+  ): AnomalyFinding | undefined {
+    const known = new Set(baseline.flatMap((o) => this.recipients(o.intent)));
+    const ownNew = this.recipients(intent).filter((recipient) => !known.has(recipient));
+    if (ownNew.length === 0) return undefined;
+
+    const fresh = new Set(ownNew);
+    for (const observation of history) {
+      if (observation.at < recentStart) continue;
+      for (const recipient of this.recipients(observation.intent)) {
+        if (!known.has(recipient)) fresh.add(recipient);
+      }
+    }
+    if (fresh.size <= this.maxNewRecipients) return undefined;
+
+    return {
+      signal: "recipients",
+      detail: `${fresh.size} new recipients within ${formatWindow(this.recentWindowMs)} ` +
+        `(max ${this.maxNewRecipients})`,
+      newRecipients: Array.from(fresh),
+      knownRecipients: known.size,
+      maxNewRecipients: this.maxNewRecipients,
+    };
+  }
+
+  /** Recipient addresses, so a wallet ID and its address count as one */
+  private recipients(intent: Intent): string[] {
+    return extractRecipients(intent).map((to) => this.getWalletAddress(to) ?? to);
+  }
+
+  /** An intent type the agent rarely or never uses */
+  private checkIntentType(intent: Intent, baseline: Observation[]): AnomalyFinding | undefined {
+    const mix: Record<string, number> = {};
+    for (const observation of baseline) {
+      mix[observation.intent.type] = (mix[observation.intent.type] ?? 0) + 1;
+    }
+    const share = (mix[intent.type] ?? 0) / baseline.length;
+    if (share >= this.minTypeShare) return undefined;
+
+    return {
+      signal: "intent-type",
+      detail: `"${intent.type}" is ${round(share * 100)}% of the agent's intents ` +
+        `(min ${round(this.minTypeShare * 100)}%)`,
+      type: intent.type,
+      share: round(share),
+      minShare: this.minTypeShare,
+      mix,
+    };
+  }
+
+  /** Far more intents within the recent window than the agent's usual rate */
+  private checkFrequency(history: Observation[], recentStart: number): AnomalyFinding | undefined {
+    const earlier = history.filter((o) => o.at < recentStart);
+    if (earlier.length === 0) return undefined;
+
+    // Usual intents per recent window over the span of history before it
+    const first = earlier.reduce((oldest, o) => (o.at < oldest ? o.at : oldest), recentStart);
+    const windows = Math.max((recentStart - first) / this.recentWindowMs, 1);
+    const usualRate = earlier.length / windows;
+    const limit = Math.ceil(this.maxRateMultiple * Math.max(usualRate, 1));
+    // Attempts count whatever their outcome; the intent itself included
+    const recent = history.length - earlier.length + 1;
+    if (recent <= limit) return undefined;
+
+    return {
+      signal: "frequency",
+      detail: `${recent} intents within ${formatWindow(this.recentWindowMs)}, ` +
+        `usually ${round(usualRate)} (max ${limit})`,
+      recent,
+      usualRate: round(usualRate),
+      limit,
+    };
+  }
+
+  /** A committed intent may have landed, which makes it part of the baseline */
+  async commit(intentId: string): Promise<void> {
+    const observation = this.pending.get(intentId);
+    if (observation) observation.succeeded = true;
+    this.pending.delete(intentId);
+  }
+
+  async release(intentId: string): Promise<void> {
+    this.pending.delete(intentId);
+  }
+
+  /**
+   * The agent's intents within the lookback, each once, leaving out the
+   * intent being evaluated. The journal is read again once the cached
+   * copy is older than `cacheTtlMs`.
+   */
+  private async history(agentId: string, intentId: string, now: number): Promise<Observation[]> {
+    const from = now - this.lookbackMs;
+    let cached = this.histories.get(agentId);
+    if (!cached || now - cached.loadedAt >= this.cacheTtlMs) {
+      cached = { loadedAt: now, observations: await this.readJournal(agentId, from) };
+      this.histories.set(agentId, cached);
+    }
+
+    const history: Observation[] = [];
+    for (const [id, observation] of cached.observations) {
+      if (id !== intentId && observation.at >= from) history.push(observation);
+    }
+    return history;
+  }
+
+  /** Count an intent as submitted until the journal is read again */
+  private observe(agentId: string, intent: Intent, at: number): void {
+    const observations = this.histories.get(agentId)?.observations;
+    if (!observations || observations.has(intent.id)) return;
+    const observation: Observation = { intent, at, succeeded: false };
+    observations.set(intent.id, observation);
+    this.pending.set(intent.id, observation);
+  }
+
+  /** The agent's intents in the journal since `from`; dry runs are left out */
+  private async readJournal(agentId: string, from: number): Promise<Map<string, Observation>> {
+    const entries = await this.auditLog.query({ agentId, from: new Date(from).toISOString() });
+
+    const succeeded = new Set(
+      entries
+        .filter((entry) => entry.type === "execution_result" && entry.status === "success")
+        .map((entry) => entry.intentId),
+    );
+
+    const observations = new Map<string, Observation>();
+    for (const entry of entries) {
+      if (entry.type !== "intent_received") continue;
+      if (entry.data.dryRun === true || observations.has(entry.intentId)) continue;
+      try {
+        observations.set(entry.intentId, {
+          intent: reviveIntent(entry.data.intent as Record<string, unknown>),
+          at: Date.parse(entry.timestamp),
+          succeeded: succeeded.has(entry.intentId),
+        });
+      } catch {
+        // Entries written before an intent schema change are not comparable
+      }
+    }
+    return observations;
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle] ?? 0
+    : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,104 @@
+// ---------------------------------------------------------------------------
+// BalanceReservePolicy — Keeps a floor of SOL in every wallet so it can
+// always pay fees and stay rent-exempt. An intent is denied if the wallet's
+// balance, minus the SOL it sends, its estimated fee and the rent deposits
+// for accounts it creates (mints, token accounts), would fall below the
+// floor. SOL committed by other in-flight intents of the same wallet is
+// reserved until the Executor settles them.
+// ---------------------------------------------------------------------------
+
+import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type { Intent } from "../../core/intents/Intent.js";
+import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import { NATIVE_TOKEN, tokenKey } from "./TokenAmounts.js";
+
+/**
+ * Rent-exempt minimum of a wallet (a system account without data), for
+ * adapters that cannot report the network's own figure
+ */
+const FALLBACK_WALLET_RENT_EXEMPT = 890_880n;
+
+export class BalanceReservePolicy implements IPolicy {
+  readonly policyId = "balance-reserve";
+  readonly name = "Balance Reserve Policy";
+  readonly needsContext = ["walletRentExempt"] as const;
+
+  private readonly minLamports: bigint;
+  /** Lamports leaving each wallet for intents not yet settled */
+  private readonly reservations = new Map<string, { walletId: string; lamports: bigint }>();
+
+  /**
+   * @param minLamports - Floor the wallet must keep; never below the
+   *                      wallet's own rent-exempt minimum
+   */
+  constructor(minLamports: bigint) {
+    this.minLamports = minLamports;
+  }
+
+  async evaluate(intent: Intent, context: PolicyContext): Promise<PolicyDecision> {
+    const sent = nativeOutflow(intent);
+    const fee = context.estimatedFee ?? 0n;
+    const rent = context.estimatedRent ?? 0n;
+    const reserved = this.reservedFor(context.walletId);
+    const required = sent + fee + rent;
+    const projectedBalance = context.balance - reserved - required;
+    const rentExempt = context.walletRentExempt ?? FALLBACK_WALLET_RENT_EXEMPT;
+    const floor = this.minLamports > rentExempt ? this.minLamports : rentExempt;
+
+    if (projectedBalance < floor) {
+      return {
+        allowed: false,
+        policyId: this.policyId,
+        reason: `Balance reserve breached: projected balance ${projectedBalance} < floor ${floor} lamports`,
+        meta: {
+          balance: context.balance.toString(),
+          reserved: reserved.toString(),
+          sent: sent.toString(),
+          estimatedFee: fee.toString(),
+          estimatedRent: rent.toString(),
+          projectedBalance: projectedBalance.toString(),
+          minLamports: floor.toString(),
+        },
+      };
+    }
+
+    this.reservations.set(intent.id, { walletId: context.walletId, lamports: required });
+    return { allowed: true, policyId: this.policyId };
+  }
+
+  /** Once settled, the outflow shows up in (or never leaves) the balance itself */
+  async commit(intentId: string): Promise<void> {
+    this.reservations.delete(intentId);
+  }
+
+  async release(intentId: string): Promise<void> {
+    this.reservations.delete(intentId);
+  }
+
+  private reservedFor(walletId: string): bigint {
+    let total = 0n;
+    for (const reservation of this.reservations.values()) {
+      if (reservation.walletId === walletId) total += reservation.lamports;
+    }
+    return total;
+  }
+}
+
+/** Lamports the intent moves out of the wallet, fees and rent aside */
+function nativeOutflow(intent: Intent): bigint {
+  switch (intent.type) {
+    case "transfer":
+      // Wrapped SOL transfers move tokens, not the native balance
+      return intent.tokenMint ? 0n : intent.amount;
+    case "swap":
+      // Swapping SOL wraps it first, so the input leaves the native balance
+      return tokenKey(intent.tokenInMint) === NATIVE_TOKEN ? intent.amountIn : 0n;
+    case "batch":
+      return intent.items.reduce(
+        (total, item) => (item.type === "transfer" && !item.tokenMint ? total + item.amount : total),
+        0n,
+      );
+    default:
+      return 0n;
+  }
+}
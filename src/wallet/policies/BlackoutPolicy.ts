@@ -0,0 +1,72 @@
+// ---------------------------------------------------------------------------
+// BlackoutPolicy — Blocks every intent on blackout dates (whole days in the
+// operator's timezone) and during maintenance periods (exact instants).
+// Judged at PolicyContext.evaluatedAt.
+// ---------------------------------------------------------------------------
+
+import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type { Intent } from "../../core/intents/Intent.js";
+import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import { localTime } from "./LocalTime.js";
+
+export interface BlackoutPeriod {
+  /** ISO-8601 instant the period starts */
+  start: string;
+  /** ISO-8601 instant the period ends (exclusive) */
+  end: string;
+  /** Shown in the denial, e.g. "RPC provider maintenance" */
+  reason?: string;
+}
+
+export interface BlackoutOptions {
+  /** Blackout days, YYYY-MM-DD */
+  dates?: string[];
+  periods?: BlackoutPeriod[];
+  /** IANA timezone the dates are expressed in */
+  timeZone?: string;
+}
+
+export class BlackoutPolicy implements IPolicy {
+  readonly policyId = "blackout";
+  readonly name = "Blackout Policy";
+
+  private readonly dates: Set<string>;
+  private readonly periods: Array<BlackoutPeriod & { from: number; until: number }>;
+  private readonly timeZone: string;
+
+  constructor(options: BlackoutOptions) {
+    this.dates = new Set(options.dates ?? []);
+    this.periods = (options.periods ?? []).map((period) => ({
+      ...period,
+      from: Date.parse(period.start),
+      until: Date.parse(period.end),
+    }));
+    this.timeZone = options.timeZone ?? "UTC";
+  }
+
+  async evaluate(_intent: Intent, context: PolicyContext): Promise<PolicyDecision> {
+    const at = Date.parse(context.evaluatedAt);
+
+    const period = this.periods.find((p) => at >= p.from && at < p.until);
+    if (period) {
+      return {
+        allowed: false,
+        policyId: this.policyId,
+        reason: `Blackout period until ${period.end}${period.reason ? `: ${period.reason}` : ""}`,
+        meta: { start: period.start, end: period.end, retryAfterMs: period.until - at },
+      };
+    }
+
+    const { date } = localTime(new Date(at), this.timeZone);
+    if (this.dates.has(date)) {
+      return {
+        allowed: false,
+        policyId: this.policyId,
+        reason: `${date} is a blackout date (${this.timeZone})`,
+        meta: { date, timeZone: this.timeZone },
+      };
+    }
+
+    return { allowed: true, policyId: this.policyId };
+  }
+}
@@ -0,0 +1,134 @@
+// ---------------------------------------------------------------------------
+// CooldownPolicy — Imposes a minimum gap between an agent's consecutive
+// intents to the same target: a recipient (transfers and mints, batch items
+// included) or a swap pool. Only intents that may have landed start a
+// cooldown; in-flight ones block their targets until settled. The last
+// activity per target is kept in the policy state store.
+// ---------------------------------------------------------------------------
+
+import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type {
+  IPolicyStateStore,
+  PolicyStateOptions,
+} from "../../core/interfaces/IPolicyStateStore.js";
+import type { Intent } from "../../core/intents/Intent.js";
+import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import { InMemoryPolicyStateStore } from "./InMemoryPolicyStateStore.js";
+
+export type CooldownTarget = "recipient" | "pool";
+
+export interface CooldownOptions extends PolicyStateOptions {
+  /** Minimum gap between intents to the same target */
+  cooldownMs: number;
+  /** Which targets cool down; both by default */
+  targets?: CooldownTarget[];
+}
+
+/** Last activity (epoch ms) keyed by agent ID and target */
+type CooldownState = Record<string, number>;
+
+export class CooldownPolicy implements IPolicy {
+  readonly policyId = "cooldown";
+  readonly name = "Cooldown Policy";
+
+  private readonly cooldownMs: number;
+  private readonly targets: Set<CooldownTarget>;
+  private readonly stateStore: IPolicyStateStore;
+  private readonly stateKey: string;
+  /** Targets of in-flight intents, keyed by intent ID */
+  private readonly reservations = new Map<string, { keys: string[]; at: number }>();
+
+  constructor(options: CooldownOptions) {
+    this.cooldownMs = options.cooldownMs;
+    this.targets = new Set(options.targets ?? ["recipient", "pool"]);
+    this.stateStore = options.stateStore ?? new InMemoryPolicyStateStore();
+    this.stateKey = options.stateKey ?? this.policyId;
+  }
+
+  async evaluate(intent: Intent, context: PolicyContext): Promise<PolicyDecision> {
+    const targets = this.extractTargets(intent);
+    if (targets.length === 0) {
+      return { allowed: true, policyId: this.policyId };
+    }
+
+    const at = Date.parse(context.evaluatedAt);
+    const state = (await this.stateStore.get<CooldownState>(this.stateKey)) ?? {};
+    const inFlight = new Set(Array.from(this.reservations.values()).flatMap((r) => r.keys));
+
+    for (const target of targets) {
+      const key = `${context.agentId}:${target}`;
+      if (inFlight.has(key)) {
+        return {
+          allowed: false,
+          policyId: this.policyId,
+          reason: `Cooldown: an intent to ${target} is still in flight`,
+          meta: { target, cooldownMs: this.cooldownMs },
+        };
+      }
+
+      const last = state[key];
+      if (last !== undefined && at - last < this.cooldownMs) {
+        const retryAfterMs = this.cooldownMs - (at - last);
+        return {
+          allowed: false,
+          policyId: this.policyId,
+          reason: `Cooldown: last intent to ${target} was ${Math.round((at - last) / 1000)}s ago; retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+          meta: {
+            target,
+            lastAt: new Date(last).toISOString(),
+            cooldownMs: this.cooldownMs,
+            retryAfterMs,
+          },
+        };
+      }
+    }
+
+    this.reservations.set(intent.id, {
+      keys: targets.map((target) => `${context.agentId}:${target}`),
+      at,
+    });
+    return { allowed: true, policyId: this.policyId };
+  }
+
+  async commit(intentId: string): Promise<void> {
+    const reservation = this.reservations.get(intentId);
+    if (!reservation) return;
+    this.reservations.delete(intentId);
+
+    await this.stateStore.update<CooldownState>(this.stateKey, (state) => {
+      // Targets whose cooldown has passed need not be remembered
+      const next: CooldownState = {};
+      for (const [key, last] of Object.entries(state ?? {})) {
+        if (reservation.at - last < this.cooldownMs) next[key] = last;
+      }
+      for (const key of reservation.keys) next[key] = reservation.at;
+      return next;
+    });
+  }
+
+  async release(intentId: string): Promise<void> {
+    this.reservations.delete(intentId);
+  }
+
+  private extractTargets(intent: Intent): string[] {
+    const targets = new Set<string>();
+    const recipients = this.targets.has("recipient");
+    switch (intent.type) {
+      case "transfer":
+      case "mint_token":
+        if (recipients) targets.add(intent.to);
+        break;
+      case "swap":
+        if (this.targets.has("pool")) targets.add(intent.poolAddress);
+        break;
+      case "batch":
+        for (const item of intent.items) {
+          if (recipients && (item.type === "transfer" || item.type === "mint_token")) {
+            targets.add(item.to);
+          }
+        }
+        break;
+    }
+    return Array.from(targets);
+  }
+}
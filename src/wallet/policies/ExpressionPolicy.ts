@@ -0,0 +1,125 @@
+// ---------------------------------------------------------------------------
+// ExpressionPolicy — Custom rules written in the policy expression
+// language instead of code, e.g.
+//   intent.type == "transfer" && spend.sol > 1 SOL && !recipient.known
+// Rules are compiled (parsed and type-checked) when the policy is built and
+// evaluated in order against every intent. A rule that holds denies the
+// intent, or asks a human to approve it; a rule that fails to evaluate
+// denies it, so a broken rule never lets an intent through.
+// ---------------------------------------------------------------------------
+
+import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type { Intent } from "../../core/intents/Intent.js";
+import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import type { CompiledExpression } from "./expression/Expression.js";
+import { compileExpression, testExpression } from "./expression/Expression.js";
+import { buildScope } from "./expression/Scope.js";
+import { extractRecipients } from "./RecipientPolicy.js";
+
+export interface ExpressionRule {
+  /** Identifies the rule in decisions; defaults to its position */
+  name?: string;
+  /** Condition under which the rule fires */
+  when: string;
+  /** Deny (default), or ask a human to approve */
+  action?: "deny" | "approve";
+  /** Reason reported when the rule fires; defaults to the condition */
+  reason?: string;
+}
+
+export interface ExpressionPolicyOptions {
+  rules: ExpressionRule[];
+  /** Recipients `recipient.known` accepts besides managed wallets */
+  knownRecipients?: string[];
+  /** Timezone of the `time.*` variables; UTC by default */
+  timeZone?: string;
+  /** Public keys of the wallets this kernel manages */
+  getManagedAddresses?: () => string[];
+  /** Public key of a managed wallet; recipients may name one by ID */
+  getWalletAddress?: (walletId: string) => string | undefined;
+}
+
+interface CompiledRule {
+  name: string;
+  expression: CompiledExpression;
+  action: "deny" | "approve";
+  reason: string;
+}
+
+export class ExpressionPolicy implements IPolicy {
+  readonly policyId = "expression";
+  readonly name = "Expression Policy";
+
+  private readonly rules: CompiledRule[];
+  private readonly knownRecipients: Set<string>;
+  private readonly timeZone: string;
+  private readonly getManagedAddresses: () => string[];
+  private readonly getWalletAddress: (walletId: string) => string | undefined;
+
+  /** @throws ExpressionError if a rule does not compile */
+  constructor(options: ExpressionPolicyOptions) {
+    this.rules = options.rules.map((rule, index) => ({
+      name: rule.name ?? `rule ${index + 1}`,
+      expression: compileExpression(rule.when),
+      action: rule.action ?? "deny",
+      reason: rule.reason ?? rule.when,
+    }));
+    this.knownRecipients = new Set(options.knownRecipients ?? []);
+    this.timeZone = options.timeZone ?? "UTC";
+    this.getManagedAddresses = options.getManagedAddresses ?? (() => []);
+    this.getWalletAddress = options.getWalletAddress ?? (() => undefined);
+  }
+
+  async evaluate(intent: Intent, context: PolicyContext): Promise<PolicyDecision> {
+    const managed = new Set(this.getManagedAddresses());
+    const recipients = extractRecipients(intent).map((to) => this.getWalletAddress(to) ?? to);
+    const scope = buildScope({
+      intent,
+      context,
+      recipients,
+      isKnown: (address) => managed.has(address) || this.knownRecipients.has(address),
+      isManaged: (address) => managed.has(address),
+      timeZone: this.timeZone,
+    });
+
+    let approval: CompiledRule | undefined;
+    for (const rule of this.rules) {
+      let fired: boolean;
+      try {
+        fired = testExpression(rule.expression, scope);
+      } catch (error) {
+        return {
+          allowed: false,
+          policyId: this.policyId,
+          reason: `Rule "${rule.name}" failed to evaluate: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          meta: { rule: rule.name, expression: rule.expression.source },
+        };
+      }
+      if (!fired) continue;
+
+      if (rule.action === "deny") {
+        return {
+          allowed: false,
+          policyId: this.policyId,
+          reason: rule.reason,
+          meta: { rule: rule.name, expression: rule.expression.source, action: rule.action },
+        };
+      }
+      // A human has already approved this intent
+      if (!context.approval) approval ??= rule;
+    }
+
+    if (approval) {
+      return {
+        allowed: false,
+        requiresApproval: true,
+        policyId: this.policyId,
+        reason: approval.reason,
+        meta: { rule: approval.name, expression: approval.expression.source, action: approval.action },
+      };
+    }
+    return { allowed: true, policyId: this.policyId };
+  }
+}
@@ -0,0 +1,23 @@
+// ---------------------------------------------------------------------------
+// InMemoryPolicyStateStore — IPolicyStateStore backed by a Map.
+// State is lost when the process exits; intended for tests and for
+// policies created without a persistent store. Values are copied in and
+// out, as a persistent store would.
+// ---------------------------------------------------------------------------
+
+import type { IPolicyStateStore } from "../../core/interfaces/IPolicyStateStore.js";
+
+export class InMemoryPolicyStateStore implements IPolicyStateStore {
+  private readonly states = new Map<string, unknown>();
+
+  async get<T>(key: string): Promise<T | null> {
+    const state = this.states.get(key);
+    return state === undefined ? null : (structuredClone(state) as T);
+  }
+
+  async update<T>(key: string, update: (state: T | null) => T): Promise<T> {
+    const next = update(await this.get<T>(key));
+    this.states.set(key, structuredClone(next));
+    return next;
+  }
+}
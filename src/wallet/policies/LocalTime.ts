@@ -0,0 +1,73 @@
+// ---------------------------------------------------------------------------
+// LocalTime — Wall-clock time in an IANA timezone, shared by the
+// scheduling policies. Built on Intl, so daylight saving is accounted for.
+// ---------------------------------------------------------------------------
+
+export const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface LocalTime {
+  /** Calendar date, YYYY-MM-DD */
+  readonly date: string;
+  readonly weekday: Weekday;
+  /** Minutes since local midnight */
+  readonly minutes: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Whether Intl knows the timezone */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The date, weekday and time of day at an instant in a timezone */
+export function localTime(at: Date, timeZone: string): LocalTime {
+  const parts: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(at)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: (parts.weekday ?? "").toLowerCase() as Weekday,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/** "09:30" → 570 */
+export function parseTimeOfDay(value: string): number {
+  const match = /^([01]\d|2[0-4]):([0-5]\d)$/.exec(value);
+  if (!match || (match[1] === "24" && match[2] !== "00")) {
+    throw new Error(`"${value}" is not a time of day (HH:MM)`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/** The day before, e.g. "mon" → "sun" */
+export function previousWeekday(day: Weekday): Weekday {
+  return WEEKDAYS[(WEEKDAYS.indexOf(day) + 6) % 7] ?? day;
+}
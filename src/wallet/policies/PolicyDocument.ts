@@ -0,0 +1,427 @@
+// ---------------------------------------------------------------------------
+// PolicyDocument — Declarative policy configuration, validated with Zod.
+// Declares which policies apply, their parameters and their scope, plus
+// named policy sets bound to wallets or agents. Sets inherit from the
+// default set (or another set) and override inherited entries by ID.
+// ---------------------------------------------------------------------------
+
+import { z } from "zod";
+
+import { WEEKDAYS, isValidTimeZone } from "./LocalTime.js";
+import { compileExpression } from "./expression/Expression.js";
+
+/** Amounts in the smallest unit; strings keep large values exact in JSON */
+const AmountSchema = z
+  .union([z.string().regex(/^\d+$/, "must be a non-negative integer"), z.number().int().nonnegative()])
+  .transform((value) => BigInt(value));
+
+const TimeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, { message: "must be an IANA timezone, e.g. Europe/Berlin" })
+  .default("UTC");
+
+/** Time of day, 00:00 to 24:00 */
+const TimeOfDaySchema = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, "must be HH:MM");
+
+// ── Scope ──────────────────────────────────────────────────────────────────
+
+export const PolicyScopeSchema = z.discriminatedUnion("type", [
+  /** Applies to every intent */
+  z.object({ type: z.literal("global") }),
+  /** Applies only to intents from one wallet */
+  z.object({ type: z.literal("wallet"), walletId: z.string().min(1) }),
+  /** Applies only to intents from one agent */
+  z.object({ type: z.literal("agent"), agentId: z.string().min(1) }),
+]);
+
+export type PolicyScope = z.infer<typeof PolicyScopeSchema>;
+
+const EntryBaseSchema = z.object({
+  /** Identifies the entry for overrides in policy sets; defaults to its type */
+  id: z.string().min(1).optional(),
+  scope: PolicyScopeSchema.default({ type: "global" }),
+});
+
+// ── Policy entries ─────────────────────────────────────────────────────────
+
+export const SpendingLimitEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("spending-limit"),
+  params: z.object({
+    /** Cap per agent within the window (lamports) */
+    maxLamports: AmountSchema,
+    /** Window length in milliseconds */
+    windowMs: z.number().int().positive().default(60_000),
+    /** Per-token caps in human units, keyed by mint address (or "SOL") */
+    tokens: z
+      .record(
+        z.object({
+          amount: z.string().regex(/^\d+(\.\d+)?$/, "must be a decimal amount"),
+          windowMs: z.number().int().positive().optional(),
+        }),
+      )
+      .default({}),
+  }),
+});
+
+export const RateLimitEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("rate-limit"),
+  params: z.object({
+    /** Transactions per agent within the window */
+    maxTxPerMinute: z.number().int().positive(),
+    /** Window length in milliseconds; one minute by default */
+    windowMs: z.number().int().positive().default(60_000),
+  }),
+});
+
+export const ProgramWhitelistEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("program-whitelist"),
+  params: z.object({
+    allowedPrograms: z.array(z.string().min(1)).min(1),
+  }),
+});
+
+export const RecipientEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("recipient"),
+  params: z.object({
+    mode: z.enum(["open", "allowlist", "managed", "approve-new"]).default("open"),
+    /** Addresses or address-book names */
+    allow: z.array(z.string().min(1)).default([]),
+    /** Addresses or address-book names */
+    deny: z.array(z.string().min(1)).default([]),
+    /** Name → address */
+    addressBook: z.record(z.string().min(1)).default({}),
+  }),
+});
+
+export const UsdBudgetEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("usd-budget"),
+  params: z
+    .object({
+      /** Cap per rolling 24 hours (USD) */
+      dailyUsd: z.number().positive().optional(),
+      /** Cap per rolling 7 days (USD) */
+      weeklyUsd: z.number().positive().optional(),
+    })
+    .refine((params) => params.dailyUsd !== undefined || params.weeklyUsd !== undefined, {
+      message: "dailyUsd or weeklyUsd is required",
+    }),
+});
+
+export const BalanceReserveEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("balance-reserve"),
+  params: z.object({
+    /** Floor each wallet keeps after transfers, fees and rent (lamports) */
+    minLamports: AmountSchema,
+  }),
+});
+
+export const SwapSlippageEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("swap-slippage"),
+  params: z
+    .object({
+      /** Largest slippage tolerance a swap may be built with (bps) */
+      maxSlippageBps: z.number().int().nonnegative().max(10_000).optional(),
+      /** Largest price impact a swap may have (bps) */
+      maxPriceImpactBps: z.number().int().nonnegative().max(10_000).optional(),
+    })
+    .refine(
+      (params) => params.maxSlippageBps !== undefined || params.maxPriceImpactBps !== undefined,
+      { message: "maxSlippageBps or maxPriceImpactBps is required" },
+    ),
+});
+
+export const TradingHoursEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("trading-hours"),
+  params: z.object({
+    timeZone: TimeZoneSchema,
+    /** Intents are allowed inside any of these windows */
+    windows: z
+      .array(
+        z.object({
+          /** Every day if omitted */
+          days: z.array(z.enum(WEEKDAYS)).min(1).optional(),
+          start: TimeOfDaySchema,
+          /** Before `start` for a window that runs overnight */
+          end: TimeOfDaySchema,
+        }),
+      )
+      .min(1),
+  }),
+});
+
+export const BlackoutEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("blackout"),
+  params: z
+    .object({
+      /** Timezone of the blackout dates */
+      timeZone: TimeZoneSchema,
+      /** Whole days with no activity, YYYY-MM-DD */
+      dates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be YYYY-MM-DD")).default([]),
+      /** Maintenance windows between two instants */
+      periods: z
+        .array(
+          z
+            .object({
+              start: z.string().datetime({ offset: true }),
+              end: z.string().datetime({ offset: true }),
+              reason: z.string().optional(),
+            })
+            .refine((period) => Date.parse(period.start) < Date.parse(period.end), {
+              message: "end must be after start",
+            }),
+        )
+        .default([]),
+    })
+    .refine((params) => params.dates.length > 0 || params.periods.length > 0, {
+      message: "dates or periods is required",
+    }),
+});
+
+export const CooldownEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("cooldown"),
+  params: z.object({
+    /** Minimum gap between an agent's intents to the same target */
+    cooldownMs: z.number().int().positive(),
+    /** Recipients (transfers and mints) and/or swap pools */
+    targets: z.array(z.enum(["recipient", "pool"])).min(1).default(["recipient", "pool"]),
+  }),
+});
+
+export const VelocityEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("velocity"),
+  params: z.object({
+    /** Evaluated together; the first rule breached denies the intent */
+    rules: z
+      .array(
+        z
+          .object({
+            /** Count intents per agent, per wallet or across all of them */
+            per: z.enum(["agent", "wallet", "global"]),
+            /** "minute", "hour", "day", "week", or a length in milliseconds */
+            window: z.union([
+              z.enum(["minute", "hour", "day", "week"]),
+              z.number().int().positive(),
+            ]),
+            maxTx: z.number().int().positive().optional(),
+            /** Human units of `token` */
+            maxAmount: z.string().regex(/^\d+(\.\d+)?$/, "must be a decimal amount").optional(),
+            /** Mint address, or "SOL" (default) */
+            token: z.string().min(1).optional(),
+          })
+          .refine((rule) => (rule.maxTx === undefined) !== (rule.maxAmount === undefined), {
+            message: "exactly one of maxTx and maxAmount is required",
+          })
+          .refine((rule) => rule.token === undefined || rule.maxAmount !== undefined, {
+            message: "token only applies to maxAmount",
+          }),
+      )
+      .min(1),
+  }),
+});
+
+export const AnomalyEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("anomaly"),
+  params: z.object({
+    /** How far back each agent's baseline is learned from */
+    lookbackMs: z.number().int().positive().default(30 * 86_400_000),
+    /** Window recent activity (new recipients, frequency) is judged over */
+    recentWindowMs: z.number().int().positive().default(3_600_000),
+    /** Successful intents an agent needs before it is judged */
+    minSamples: z.number().int().positive().default(20),
+    signals: z
+      .array(z.enum(["amount", "recipients", "intent-type", "frequency"]))
+      .min(1)
+      .default(["amount", "recipients", "intent-type", "frequency"]),
+    /** Deny outliers, or ask a human to approve them */
+    action: z.enum(["deny", "approve"]).default("deny"),
+    /** Robust z-score (log scale) above which an amount is an outlier */
+    maxAmountScore: z.number().positive().default(4),
+    /** Recipients outside the baseline allowed within the recent window */
+    maxNewRecipients: z.number().int().nonnegative().default(3),
+    /** Intent types below this share of the baseline are outliers */
+    minTypeShare: z.number().min(0).max(1).default(0.05),
+    /** Multiple of the agent's usual rate allowed within the recent window */
+    maxRateMultiple: z.number().positive().default(5),
+    /** How long each agent's history read from the audit log is reused */
+    cacheTtlMs: z.number().int().nonnegative().default(60_000),
+  }),
+});
+
+export const TokenGovernanceEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("token-governance"),
+  params: z.object({
+    /** Mint and freeze authorities allowed besides the managed wallets */
+    allowedAuthorities: z.array(z.string().min(1)).default([]),
+    /** Mint destinations allowed besides the managed wallets */
+    allowedDestinations: z.array(z.string().min(1)).default([]),
+    /** Supply cap in human units for every mint without its own */
+    maxMinted: z.string().regex(/^\d+(\.\d+)?$/, "must be a decimal amount").optional(),
+    /** Supply caps in human units, keyed by mint address */
+    mints: z
+      .record(
+        z.object({
+          amount: z.string().regex(/^\d+(\.\d+)?$/, "must be a decimal amount"),
+          windowMs: z.number().int().positive().optional(),
+        }),
+      )
+      .default({}),
+    /** Window length in milliseconds */
+    windowMs: z.number().int().positive().default(86_400_000),
+  }),
+});
+
+export const ExpressionEntrySchema = EntryBaseSchema.extend({
+  type: z.literal("expression"),
+  params: z.object({
+    /** Evaluated in order; the first deny rule that holds wins */
+    rules: z
+      .array(
+        z.object({
+          name: z.string().min(1).optional(),
+          /** Condition in the policy expression language */
+          when: z.string().min(1).superRefine((source, ctx) => {
+            try {
+              compileExpression(source);
+            } catch (error) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: error instanceof Error ? error.message : String(error),
+              });
+            }
+          }),
+          action: z.enum(["deny", "approve"]).default("deny"),
+          reason: z.string().min(1).optional(),
+        }),
+      )
+      .min(1),
+    /** Recipients recipient.known accepts besides the managed wallets */
+    knownRecipients: z.array(z.string().min(1)).default([]),
+    /** Timezone of the time.* variables */
+    timeZone: TimeZoneSchema,
+  }),
+});
+
+export const PolicyEntrySchema = z.discriminatedUnion("type", [
+  SpendingLimitEntrySchema,
+  RateLimitEntrySchema,
+  ProgramWhitelistEntrySchema,
+  RecipientEntrySchema,
+  UsdBudgetEntrySchema,
+  BalanceReserveEntrySchema,
+  SwapSlippageEntrySchema,
+  TradingHoursEntrySchema,
+  BlackoutEntrySchema,
+  CooldownEntrySchema,
+  VelocityEntrySchema,
+  AnomalyEntrySchema,
+  TokenGovernanceEntrySchema,
+  ExpressionEntrySchema,
+]);
+
+export type PolicyEntry = z.infer<typeof PolicyEntrySchema>;
+
+// ── Policy sets ────────────────────────────────────────────────────────────
+
+/** Name of the implicit set built from the document's top-level policies */
+export const DEFAULT_POLICY_SET = "default";
+
+export const PolicySetSchema = z.object({
+  /** Set to inherit from */
+  extends: z.string().min(1).default(DEFAULT_POLICY_SET),
+  /** Entries added to the inherited ones; an entry replaces inherited entries with its ID */
+  policies: z.array(PolicyEntrySchema).default([]),
+  /** IDs of inherited entries to drop */
+  exclude: z.array(z.string().min(1)).default([]),
+});
+
+export type PolicySet = z.infer<typeof PolicySetSchema>;
+
+// ── Document ───────────────────────────────────────────────────────────────
+
+export const PolicyDocumentSchema = z
+  .object({
+    version: z.literal(1),
+    /** The default set. Evaluated in order — the first denial wins */
+    policies: z.array(PolicyEntrySchema),
+    /** Named sets, keyed by set name */
+    sets: z.record(PolicySetSchema).default({}),
+    /** Which set a wallet or agent uses; an agent binding wins over a wallet binding */
+    bindings: z
+      .object({
+        wallets: z.record(z.string().min(1)).default({}),
+        agents: z.record(z.string().min(1)).default({}),
+      })
+      .default({}),
+  })
+  .superRefine((document, ctx) => {
+    const known = (name: string) => name === DEFAULT_POLICY_SET || name in document.sets;
+
+    if (DEFAULT_POLICY_SET in document.sets) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["sets", DEFAULT_POLICY_SET],
+        message: `"${DEFAULT_POLICY_SET}" is the top-level policy list and cannot be redefined`,
+      });
+    }
+
+    for (const [name, set] of Object.entries(document.sets)) {
+      if (!known(set.extends)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["sets", name, "extends"],
+          message: `Unknown policy set "${set.extends}"`,
+        });
+        continue;
+      }
+      // Walk the inheritance chain looking for a cycle back to this set
+      const seen = new Set([name]);
+      for (let parent = set.extends; parent !== DEFAULT_POLICY_SET; ) {
+        if (seen.has(parent)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["sets", name, "extends"],
+            message: `Policy set "${name}" inherits from itself`,
+          });
+          break;
+        }
+        seen.add(parent);
+        const next = document.sets[parent];
+        if (!next) break;
+        parent = next.extends;
+      }
+    }
+
+    for (const kind of ["wallets", "agents"] as const) {
+      for (const [id, setName] of Object.entries(document.bindings[kind])) {
+        if (!known(setName)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["bindings", kind, id],
+            message: `Unknown policy set "${setName}"`,
+          });
+        }
+      }
+    }
+  });
+
+export type PolicyDocument = z.infer<typeof PolicyDocumentSchema>;
+
+/** The ID an entry is overridden or excluded by */
+export function entryId(entry: PolicyEntry): string {
+  return entry.id ?? entry.type;
+}
+
+/**
+ * Validate a raw (parsed JSON) policy document.
+ * Throws with every validation issue listed.
+ */
+export function parsePolicyDocument(raw: unknown): PolicyDocument {
+  const result = PolicyDocumentSchema.safeParse(raw);
+  if (!result.success) {
+    const formatted = result.error.issues
+      .map((i) => `  - ${i.path.join(".")}: ${i.message}`)
+      .join("\n");
+    throw new Error(`Policy document is invalid:\n${formatted}`);
+  }
+  return result.data;
+}
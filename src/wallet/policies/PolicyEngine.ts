@@ -1,16 +1,40 @@
 // ---------------------------------------------------------------------------
-// PolicyEngine — Evaluates all registered policies against an intent.
-// Short-circuits on the first denial.
+// PolicyEngine — Evaluates all registered policies against an intent, then
+// (post-build) against the transaction built for it.
+// Short-circuits on the first denial in either phase; a request for approval
+// is returned only if no policy denies the intent. In explain mode every
+// policy is evaluated and timed, and a report lists each decision. Fans out the
+// commit / release of policy reservations once the outcome is known.
+// The policies applied are those of the set bound to the intent's agent or
+// wallet, falling back to the default set. A reload swaps in new policy
+// instances, so commit / release go to the instances that evaluated the
+// intent, which are kept until it settles.
 // ---------------------------------------------------------------------------
 
-import type { IPolicyEngine } from "../../core/interfaces/IPolicyEngine.js";
-import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type { IPolicyEngine, PolicySets } from "../../core/interfaces/IPolicyEngine.js";
+import type { IPolicy, OnDemandContext, PolicyContext } from "../../core/interfaces/IPolicy.js";
 import type { ILogger } from "../../core/interfaces/ILogger.js";
 import type { Intent } from "../../core/intents/Intent.js";
-import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import type {
+  PolicyApprovalRequired,
+  PolicyDecision,
+} from "../../core/types/PolicyDecision.js";
+import type {
+  PolicyEvaluation,
+  PolicyPhase,
+  PolicyReport,
+} from "../../core/types/PolicyReport.js";
+import { requiresApproval } from "../../core/types/PolicyDecision.js";
+import type { TransactionInspection } from "../../core/types/TransactionInspection.js";
+import { DEFAULT_POLICY_SET } from "./PolicyDocument.js";
+
+const NO_SETS: PolicySets = { sets: new Map(), wallets: new Map(), agents: new Map() };
 
 export class PolicyEngine implements IPolicyEngine {
-  private readonly policies: IPolicy[] = [];
+  private policies: IPolicy[] = [];
+  private sets: PolicySets = NO_SETS;
+  /** The instances holding each unsettled intent's reservations */
+  private readonly evaluatedBy = new Map<string, readonly IPolicy[]>();
   private readonly logger: ILogger;
 
   constructor(logger: ILogger) {
@@ -25,29 +49,248 @@ export class PolicyEngine implements IPolicyEngine {
     });
   }
 
+  load(policies: IPolicy[], sets: PolicySets = NO_SETS): void {
+    // Swap everything at once so no evaluation sees a partial reload
+    this.policies = [...policies];
+    this.sets = sets;
+    this.logger.info("Policies loaded", {
+      policies: policies.map((policy) => policy.name),
+      sets: Array.from(sets.sets.keys()),
+    });
+  }
+
   async evaluateAll(
     intent: Intent,
     context: PolicyContext,
   ): Promise<PolicyDecision> {
-    for (const policy of this.policies) {
+    const { policySet, policies } = this.resolve(context);
+    this.evaluatedBy.set(intent.id, policies);
+    let approval: PolicyApprovalRequired | null = null;
+
+    for (const policy of policies) {
       const decision = await policy.evaluate(intent, context);
 
       this.logger.debug("Policy evaluated", {
         policyId: policy.policyId,
+        policySet,
         allowed: decision.allowed,
         intentId: intent.id,
         ...(!decision.allowed ? { reason: decision.reason } : {}),
+        ...(requiresApproval(decision) ? { requiresApproval: true } : {}),
       });
 
+      if (requiresApproval(decision)) {
+        // Keep going: a denial from a later policy makes approval moot
+        approval ??= decision;
+        continue;
+      }
       if (!decision.allowed) {
-        return decision; // Short-circuit on first denial
+        await this.release(intent.id);
+        return { ...decision, policySet }; // Short-circuit on first denial
       }
     }
 
+    if (approval) {
+      // The intent is parked; it is evaluated again once approved
+      await this.release(intent.id);
+      return { ...approval, policySet };
+    }
+
     // All policies passed
     return {
       allowed: true,
       policyId: "policy-engine",
+      policySet,
+    };
+  }
+
+  async evaluateTransaction(
+    intent: Intent,
+    transaction: TransactionInspection,
+    context: PolicyContext,
+  ): Promise<PolicyDecision> {
+    const { policySet, policies } = this.resolve(context);
+
+    for (const policy of policies) {
+      if (!policy.evaluateTransaction) continue;
+      const decision = await policy.evaluateTransaction(intent, transaction, context);
+
+      this.logger.debug("Transaction policy evaluated", {
+        policyId: policy.policyId,
+        policySet,
+        allowed: decision.allowed,
+        intentId: intent.id,
+        ...(!decision.allowed ? { reason: decision.reason } : {}),
+      });
+
+      if (!decision.allowed) {
+        return { ...decision, policySet }; // Short-circuit on first denial
+      }
+    }
+
+    return {
+      allowed: true,
+      policyId: "policy-engine",
+      policySet,
+    };
+  }
+
+  async explain(intent: Intent, context: PolicyContext): Promise<PolicyReport> {
+    const { policySet, policies } = this.resolve(context);
+    this.evaluatedBy.set(intent.id, policies);
+    try {
+      const evaluations = await this.evaluateEach(intent, "intent", policies, (policy) =>
+        policy.evaluate(intent, context),
+      );
+      return { phase: "intent", policySet, decision: this.decide(evaluations, policySet), evaluations };
+    } finally {
+      // A report never holds budget
+      await this.release(intent.id);
+    }
+  }
+
+  async explainTransaction(
+    intent: Intent,
+    transaction: TransactionInspection,
+    context: PolicyContext,
+  ): Promise<PolicyReport> {
+    const { policySet, policies } = this.resolve(context);
+    const evaluations = await this.evaluateEach(
+      intent,
+      "transaction",
+      policies,
+      (policy) => policy.evaluateTransaction?.(intent, transaction, context),
+    );
+    return {
+      phase: "transaction",
+      policySet,
+      // Approval cannot be granted after the build, so it counts as a denial
+      decision: this.decide(
+        evaluations.map(({ requiresApproval: _, ...evaluation }) => evaluation),
+        policySet,
+      ),
+      evaluations,
+    };
+  }
+
+  async commit(intentId: string): Promise<void> {
+    for (const policy of this.settle(intentId)) {
+      await policy.commit?.(intentId);
+    }
+    this.logger.debug("Policy reservations committed", { intentId });
+  }
+
+  async release(intentId: string): Promise<void> {
+    for (const policy of this.settle(intentId)) {
+      await policy.release?.(intentId);
+    }
+    this.logger.debug("Policy reservations released", { intentId });
+  }
+
+  needsContext(field: OnDemandContext): boolean {
+    for (const policy of this.allPolicies()) {
+      if (policy.needsContext?.includes(field)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Evaluate every policy, recording its decision (or failure) and duration.
+   * Policies for which `evaluate` returns nothing have no such phase.
+   */
+  private async evaluateEach(
+    intent: Intent,
+    phase: PolicyPhase,
+    policies: readonly IPolicy[],
+    evaluate: (policy: IPolicy) => Promise<PolicyDecision> | undefined,
+  ): Promise<PolicyEvaluation[]> {
+    const evaluations: PolicyEvaluation[] = [];
+
+    for (const policy of policies) {
+      const startedAt = performance.now();
+      let evaluation: PolicyEvaluation;
+      try {
+        const pending = evaluate(policy);
+        if (!pending) continue;
+        const decision = await pending;
+        evaluation = {
+          policyId: decision.policyId,
+          name: policy.name,
+          phase,
+          allowed: decision.allowed,
+          ...(requiresApproval(decision) ? { requiresApproval: true } : {}),
+          ...(!decision.allowed ? { reason: decision.reason, meta: decision.meta } : {}),
+          durationMs: performance.now() - startedAt,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        evaluation = {
+          policyId: policy.policyId,
+          name: policy.name,
+          phase,
+          allowed: false,
+          reason: `Policy could not be evaluated: ${message}`,
+          durationMs: performance.now() - startedAt,
+          error: message,
+        };
+      }
+      evaluations.push(evaluation);
+    }
+
+    this.logger.debug("Policies explained", {
+      intentId: intent.id,
+      phase,
+      denied: evaluations.filter((evaluation) => !evaluation.allowed).map((e) => e.policyId),
+    });
+    return evaluations;
+  }
+
+  /** The decision normal mode reaches: first denial, else first approval, else allow */
+  private decide(evaluations: readonly PolicyEvaluation[], policySet: string): PolicyDecision {
+    const denial = evaluations.find((evaluation) => !evaluation.allowed && !evaluation.requiresApproval);
+    const approval = evaluations.find((evaluation) => evaluation.requiresApproval);
+    const decisive = denial ?? approval;
+    if (!decisive) {
+      return { allowed: true, policyId: "policy-engine", policySet };
+    }
+
+    const decision = {
+      allowed: false as const,
+      policyId: decisive.policyId,
+      reason: decisive.reason ?? "Denied",
+      ...(decisive.meta ? { meta: decisive.meta } : {}),
+      policySet,
     };
+    return decisive.requiresApproval ? { ...decision, requiresApproval: true } : decision;
+  }
+
+  /** The set bound to the agent, else to the wallet, else the default set */
+  private resolve(context: PolicyContext): { policySet: string; policies: readonly IPolicy[] } {
+    const name =
+      this.sets.agents.get(context.agentId) ?? this.sets.wallets.get(context.walletId);
+    const policies = name ? this.sets.sets.get(name) : undefined;
+    if (name && policies) {
+      return { policySet: name, policies };
+    }
+    return { policySet: DEFAULT_POLICY_SET, policies: this.policies };
+  }
+
+  /**
+   * The instances that evaluated the intent, even if a reload has since
+   * replaced them; every current instance if this engine never saw it.
+   */
+  private settle(intentId: string): Iterable<IPolicy> {
+    const policies = this.evaluatedBy.get(intentId);
+    this.evaluatedBy.delete(intentId);
+    return policies ?? this.allPolicies();
+  }
+
+  /** Every distinct policy instance — sets share the instances they inherit */
+  private allPolicies(): Set<IPolicy> {
+    const all = new Set<IPolicy>(this.policies);
+    for (const policies of this.sets.sets.values()) {
+      for (const policy of policies) all.add(policy);
+    }
+    return all;
   }
 }
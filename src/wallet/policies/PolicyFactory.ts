@@ -0,0 +1,249 @@
+// ---------------------------------------------------------------------------
+// PolicyFactory — Instantiates IPolicy implementations from a PolicyDocument.
+// Entries whose definition is unchanged since the previous document reuse
+// their instance, so reloading keeps spend and rate history. Policy sets
+// share the instances they inherit, so limits are tracked once.
+// Stateful policies keep their state under a key derived from the set and
+// entry ID, so editing an entry's limits does not reset its history.
+// ---------------------------------------------------------------------------
+
+import type { IAuditLog } from "../../core/interfaces/IAuditLog.js";
+import type { IPolicy } from "../../core/interfaces/IPolicy.js";
+import type {
+  IPolicyStateStore,
+  PolicyStateOptions,
+} from "../../core/interfaces/IPolicyStateStore.js";
+import type { PolicySets } from "../../core/interfaces/IPolicyEngine.js";
+import type { IPriceOracle } from "../../core/interfaces/IPriceOracle.js";
+import { DEFAULT_POLICY_SET, entryId } from "./PolicyDocument.js";
+import type { PolicyDocument, PolicyEntry } from "./PolicyDocument.js";
+import { SpendingLimitPolicy } from "./SpendingLimitPolicy.js";
+import { RateLimitPolicy } from "./RateLimitPolicy.js";
+import { ProgramWhitelistPolicy } from "./ProgramWhitelistPolicy.js";
+import { RecipientPolicy } from "./RecipientPolicy.js";
+import { UsdBudgetPolicy } from "./UsdBudgetPolicy.js";
+import { BalanceReservePolicy } from "./BalanceReservePolicy.js";
+import { SwapSlippagePolicy } from "./SwapSlippagePolicy.js";
+import { TradingHoursPolicy } from "./TradingHoursPolicy.js";
+import { BlackoutPolicy } from "./BlackoutPolicy.js";
+import { CooldownPolicy } from "./CooldownPolicy.js";
+import { VelocityPolicy } from "./VelocityPolicy.js";
+import { AnomalyPolicy } from "./AnomalyPolicy.js";
+import { TokenGovernancePolicy } from "./TokenGovernancePolicy.js";
+import { ExpressionPolicy } from "./ExpressionPolicy.js";
+import { ScopedPolicy } from "./ScopedPolicy.js";
+
+/** A policy together with the entry ID it can be overridden by */
+type IdentifiedPolicy = readonly [id: string, policy: IPolicy];
+
+export class PolicyFactory {
+  private readonly getManagedAddresses: () => string[];
+  private readonly getWalletAddress?: (walletId: string) => string | undefined;
+  private readonly getDecimals?: (mint: string) => Promise<number>;
+  private readonly priceOracle?: IPriceOracle;
+  private readonly stateStore?: IPolicyStateStore;
+  private readonly auditLog?: IAuditLog;
+  private instances = new Map<string, IPolicy>();
+
+  constructor(deps: {
+    getManagedAddresses?: () => string[];
+    getWalletAddress?: (walletId: string) => string | undefined;
+    getDecimals?: (mint: string) => Promise<number>;
+    priceOracle?: IPriceOracle;
+    stateStore?: IPolicyStateStore;
+    auditLog?: IAuditLog;
+  } = {}) {
+    this.getManagedAddresses = deps.getManagedAddresses ?? (() => []);
+    this.getWalletAddress = deps.getWalletAddress;
+    this.getDecimals = deps.getDecimals;
+    this.priceOracle = deps.priceOracle;
+    this.stateStore = deps.stateStore;
+    this.auditLog = deps.auditLog;
+  }
+
+  /** Build the default set and every named set a document declares. */
+  create(document: PolicyDocument): { policies: IPolicy[]; sets: PolicySets } {
+    const previous = this.instances;
+    this.instances = new Map();
+
+    const resolved = new Map<string, IdentifiedPolicy[]>();
+    resolved.set(DEFAULT_POLICY_SET, this.build(DEFAULT_POLICY_SET, document.policies, previous));
+
+    const resolve = (name: string): IdentifiedPolicy[] => {
+      const existing = resolved.get(name);
+      if (existing) return existing;
+
+      // The document schema guarantees the set exists and has no cycles
+      const set = document.sets[name]!;
+      const inherited = resolve(set.extends);
+      const own = this.build(name, set.policies, previous);
+      const result = inherit(inherited, own, new Set(set.exclude));
+      resolved.set(name, result);
+      return result;
+    };
+
+    const sets = new Map<string, IPolicy[]>();
+    for (const name of Object.keys(document.sets)) {
+      sets.set(name, resolve(name).map(([, policy]) => policy));
+    }
+
+    return {
+      policies: resolve(DEFAULT_POLICY_SET).map(([, policy]) => policy),
+      sets: {
+        sets,
+        wallets: new Map(Object.entries(document.bindings.wallets)),
+        agents: new Map(Object.entries(document.bindings.agents)),
+      },
+    };
+  }
+
+  private build(
+    setName: string,
+    entries: PolicyEntry[],
+    previous: Map<string, IPolicy>,
+  ): IdentifiedPolicy[] {
+    const occurrences = new Map<string, number>();
+    const idOccurrences = new Map<string, number>();
+    return entries.map((entry) => {
+      // Repeated identical entries are distinct policies
+      const definition = entryKey(entry);
+      const occurrence = occurrences.get(definition) ?? 0;
+      occurrences.set(definition, occurrence + 1);
+
+      const id = entryId(entry);
+      const idOccurrence = idOccurrences.get(id) ?? 0;
+      idOccurrences.set(id, idOccurrence + 1);
+      // Default-set keys match the policy IDs used without a policy file
+      const stateKey = (setName === DEFAULT_POLICY_SET ? id : `${setName}/${id}`) +
+        (idOccurrence > 0 ? `#${idOccurrence}` : "");
+
+      const key = `${setName}:${definition}#${occurrence}`;
+      const policy = previous.get(key) ?? this.instantiate(entry, stateKey);
+      this.instances.set(key, policy);
+      return [entryId(entry), policy] as const;
+    });
+  }
+
+  private instantiate(entry: PolicyEntry, stateKey: string): IPolicy {
+    const policy = this.createPolicy(entry, { stateStore: this.stateStore, stateKey });
+    return entry.scope.type === "global" ? policy : new ScopedPolicy(policy, entry.scope);
+  }
+
+  private createPolicy(entry: PolicyEntry, state: PolicyStateOptions): IPolicy {
+    switch (entry.type) {
+      case "spending-limit":
+        return new SpendingLimitPolicy(entry.params.maxLamports, entry.params.windowMs, {
+          tokenLimits: entry.params.tokens,
+          getDecimals: this.getDecimals,
+          ...state,
+        });
+      case "rate-limit":
+        return new RateLimitPolicy(entry.params.maxTxPerMinute, {
+          windowMs: entry.params.windowMs,
+          ...state,
+        });
+      case "program-whitelist":
+        return new ProgramWhitelistPolicy(entry.params.allowedPrograms);
+      case "recipient":
+        return new RecipientPolicy({
+          ...entry.params,
+          getManagedAddresses: this.getManagedAddresses,
+          getWalletAddress: this.getWalletAddress,
+          ...state,
+        });
+      case "usd-budget":
+        if (!this.priceOracle) {
+          throw new Error("The usd-budget policy requires a price oracle");
+        }
+        return new UsdBudgetPolicy({
+          ...entry.params,
+          oracle: this.priceOracle,
+          getDecimals: this.getDecimals,
+          ...state,
+        });
+      case "balance-reserve":
+        return new BalanceReservePolicy(entry.params.minLamports);
+      case "swap-slippage":
+        return new SwapSlippagePolicy(entry.params);
+      case "trading-hours":
+        return new TradingHoursPolicy(entry.params.windows, entry.params.timeZone);
+      case "blackout":
+        return new BlackoutPolicy(entry.params);
+      case "cooldown":
+        return new CooldownPolicy({ ...entry.params, ...state });
+      case "velocity":
+        return new VelocityPolicy({
+          rules: entry.params.rules,
+          getDecimals: this.getDecimals,
+          ...state,
+        });
+      case "anomaly":
+        if (!this.auditLog) {
+          throw new Error("The anomaly policy requires an audit log");
+        }
+        return new AnomalyPolicy({
+          ...entry.params,
+          auditLog: this.auditLog,
+          getWalletAddress: this.getWalletAddress,
+        });
+      case "token-governance":
+        return new TokenGovernancePolicy({
+          allowedAuthorities: entry.params.allowedAuthorities,
+          allowedDestinations: entry.params.allowedDestinations,
+          maxMinted: entry.params.maxMinted,
+          mintCaps: entry.params.mints,
+          windowMs: entry.params.windowMs,
+          getManagedAddresses: this.getManagedAddresses,
+          getWalletAddress: this.getWalletAddress,
+          getDecimals: this.getDecimals,
+          ...state,
+        });
+      case "expression":
+        return new ExpressionPolicy({
+          ...entry.params,
+          getManagedAddresses: this.getManagedAddresses,
+          getWalletAddress: this.getWalletAddress,
+        });
+    }
+  }
+}
+
+/**
+ * Apply a set's own entries on top of the inherited ones: an own entry takes
+ * the place of the inherited entries with its ID, excluded IDs are dropped,
+ * and entries with new IDs are appended.
+ */
+function inherit(
+  inherited: IdentifiedPolicy[],
+  own: IdentifiedPolicy[],
+  exclude: Set<string>,
+): IdentifiedPolicy[] {
+  const overrides = new Map<string, IdentifiedPolicy[]>();
+  for (const item of own) {
+    overrides.set(item[0], [...(overrides.get(item[0]) ?? []), item]);
+  }
+
+  const result: IdentifiedPolicy[] = [];
+  for (const item of inherited) {
+    const [id] = item;
+    if (exclude.has(id)) continue;
+    const replacement = overrides.get(id);
+    if (!replacement) {
+      result.push(item);
+      continue;
+    }
+    result.push(...replacement);
+    overrides.delete(id); // Later inherited entries with this ID are dropped too
+    exclude.add(id);
+  }
+  for (const remaining of overrides.values()) {
+    result.push(...remaining);
+  }
+  return result;
+}
+
+function entryKey(entry: PolicyEntry): string {
+  return JSON.stringify(entry, (_key, value) =>
+    typeof value === "bigint" ? value.toString() : value,
+  );
+}
@@ -0,0 +1,80 @@
+// ---------------------------------------------------------------------------
+// PolicyLoader — Loads a JSON policy document into the PolicyEngine and
+// reloads it whenever the file changes. An invalid edit is logged and the
+// previously loaded policies stay in force.
+// ---------------------------------------------------------------------------
+
+import { readFile } from "node:fs/promises";
+import { unwatchFile, watchFile } from "node:fs";
+import type { Stats } from "node:fs";
+import type { IPolicyEngine } from "../../core/interfaces/IPolicyEngine.js";
+import type { ILogger } from "../../core/interfaces/ILogger.js";
+import { parsePolicyDocument } from "./PolicyDocument.js";
+import type { PolicyDocument } from "./PolicyDocument.js";
+import { PolicyFactory } from "./PolicyFactory.js";
+
+export class PolicyLoader {
+  private readonly filePath: string;
+  private readonly engine: IPolicyEngine;
+  private readonly factory: PolicyFactory;
+  private readonly logger: ILogger;
+  private watcher: ((curr: Stats, prev: Stats) => void) | null = null;
+
+  constructor(deps: {
+    filePath: string;
+    engine: IPolicyEngine;
+    logger: ILogger;
+    factory?: PolicyFactory;
+  }) {
+    this.filePath = deps.filePath;
+    this.engine = deps.engine;
+    this.logger = deps.logger;
+    this.factory = deps.factory ?? new PolicyFactory();
+  }
+
+  /** Read, validate and apply the policy file. Throws if it is unreadable or invalid. */
+  async load(): Promise<PolicyDocument> {
+    const raw = await readFile(this.filePath, "utf-8");
+
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Policy file ${this.filePath} is not valid JSON: ${message}`);
+    }
+
+    const document = parsePolicyDocument(json);
+    const { policies, sets } = this.factory.create(document);
+    this.engine.load(policies, sets);
+    this.logger.info("Policy file loaded", {
+      filePath: this.filePath,
+      policies: document.policies.length,
+      sets: Object.keys(document.sets).length,
+    });
+    return document;
+  }
+
+  /** Poll the file and reload it when its modification time changes. */
+  watch(intervalMs: number = 1_000): void {
+    if (this.watcher) return;
+
+    this.watcher = (curr, prev) => {
+      if (curr.mtimeMs === prev.mtimeMs) return;
+      this.load().catch((error) => {
+        this.logger.error("Policy reload failed — keeping previous policies", {
+          filePath: this.filePath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    };
+    watchFile(this.filePath, { interval: intervalMs, persistent: false }, this.watcher);
+    this.logger.info("Watching policy file", { filePath: this.filePath, intervalMs });
+  }
+
+  close(): void {
+    if (!this.watcher) return;
+    unwatchFile(this.filePath, this.watcher);
+    this.watcher = null;
+  }
+}
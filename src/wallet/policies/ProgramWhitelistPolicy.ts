@@ -1,10 +1,13 @@
 // ---------------------------------------------------------------------------
 // ProgramWhitelistPolicy — Only allows transactions targeting approved programs.
+// Enforced post-build against the programs the built transaction actually
+// invokes (including compute budget and ATA instructions added by the builder).
 // ---------------------------------------------------------------------------
 
 import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
 import type { Intent } from "../../core/intents/Intent.js";
 import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import type { TransactionInspection } from "../../core/types/TransactionInspection.js";
 
 export class ProgramWhitelistPolicy implements IPolicy {
   readonly policyId = "program-whitelist";
@@ -16,11 +19,17 @@ export class ProgramWhitelistPolicy implements IPolicy {
     this.allowedPrograms = new Set(allowedPrograms);
   }
 
-  async evaluate(intent: Intent, _context: PolicyContext): Promise<PolicyDecision> {
-    // Extract target program IDs from the intent
-    const targetPrograms = this.extractTargetPrograms(intent);
+  async evaluate(_intent: Intent, _context: PolicyContext): Promise<PolicyDecision> {
+    // Which programs an intent touches is only known once it is built
+    return { allowed: true, policyId: this.policyId };
+  }
 
-    for (const programId of targetPrograms) {
+  async evaluateTransaction(
+    _intent: Intent,
+    transaction: TransactionInspection,
+    _context: PolicyContext,
+  ): Promise<PolicyDecision> {
+    for (const programId of transaction.programIds) {
       if (!this.allowedPrograms.has(programId)) {
         return {
           allowed: false,
@@ -36,24 +45,4 @@ export class ProgramWhitelistPolicy implements IPolicy {
 
     return { allowed: true, policyId: this.policyId };
   }
-
-  /**
-   * Extract target program IDs from an intent.
-   * For transfers: System Program or Token Program.
-   * For swaps: the swap program (e.g., Jupiter).
-   */
-  private extractTargetPrograms(intent: Intent): string[] {
-    switch (intent.type) {
-      case "transfer":
-        // Native SOL uses System Program; SPL tokens use Token Program
-        return intent.tokenMint
-          ? ["TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"]
-          : ["11111111111111111111111111111111"];
-      case "swap":
-        // Placeholder: Jupiter v6 program ID
-        return ["JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4"];
-      default:
-        return [];
-    }
-  }
 }
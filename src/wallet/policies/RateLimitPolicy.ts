@@ -1,53 +1,117 @@
 // ---------------------------------------------------------------------------
-// RateLimitPolicy — Throttles transaction frequency per agent.
+// RateLimitPolicy — Throttles transaction frequency per agent over a
+// sliding window (one minute by default).
+// Allowed intents hold a slot until the Executor commits it (the transaction
+// may have landed) or releases it (nothing was broadcast). Committed
+// intents are kept in the policy state store, so the window survives
+// restarts.
 // ---------------------------------------------------------------------------
 
 import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type {
+  IPolicyStateStore,
+  PolicyStateOptions,
+} from "../../core/interfaces/IPolicyStateStore.js";
 import type { Intent } from "../../core/intents/Intent.js";
 import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import type { WindowEvent, WindowState } from "./SlidingWindow.js";
+import { appendEvent, eventsWithin, formatWindow, retryAfter } from "./SlidingWindow.js";
+import { InMemoryPolicyStateStore } from "./InMemoryPolicyStateStore.js";
+
+export interface RateLimitOptions extends PolicyStateOptions {
+  /** Window length in milliseconds; one minute by default */
+  windowMs?: number;
+}
+
+/**
+ * Committed intents per agent. State written before the window was shared
+ * with the other policies holds bare timestamps.
+ */
+type RateState = Record<string, (WindowEvent | number)[]>;
 
 export class RateLimitPolicy implements IPolicy {
   readonly policyId = "rate-limit";
   readonly name = "Rate Limit Policy";
 
-  private readonly maxTxPerMinute: number;
-  private readonly timestamps = new Map<string, number[]>();
+  private readonly maxTx: number;
+  private readonly windowMs: number;
+  private readonly stateStore: IPolicyStateStore;
+  private readonly stateKey: string;
+  /** Slots held by in-flight intents, keyed by intent ID */
+  private readonly reservations = new Map<string, { agentId: string; timestamp: number }>();
 
-  constructor(maxTxPerMinute: number) {
-    this.maxTxPerMinute = maxTxPerMinute;
+  /** @param maxTx - Transactions allowed per agent within the window */
+  constructor(maxTx: number, options: RateLimitOptions = {}) {
+    this.maxTx = maxTx;
+    this.windowMs = options.windowMs ?? 60_000;
+    this.stateStore = options.stateStore ?? new InMemoryPolicyStateStore();
+    this.stateKey = options.stateKey ?? this.policyId;
   }
 
-  async evaluate(_intent: Intent, context: PolicyContext): Promise<PolicyDecision> {
+  async evaluate(intent: Intent, context: PolicyContext): Promise<PolicyDecision> {
     const now = Date.now();
-    const windowMs = 60_000;
 
-    // Get or create timestamp list for this agent
-    let agentTimestamps = this.timestamps.get(context.agentId);
-    if (!agentTimestamps) {
-      agentTimestamps = [];
-      this.timestamps.set(context.agentId, agentTimestamps);
-    }
+    const state = upgrade(await this.stateStore.get<RateState>(this.stateKey));
+    const recent = eventsWithin(state[context.agentId] ?? [], this.windowMs, now);
 
-    // Prune timestamps outside the window
-    const cutoff = now - windowMs;
-    const recentTimestamps = agentTimestamps.filter((ts) => ts > cutoff);
-    this.timestamps.set(context.agentId, recentTimestamps);
+    const reserved = Array.from(this.reservations.values()).filter(
+      (reservation) => reservation.agentId === context.agentId,
+    ).length;
+    const currentRate = recent.length + reserved;
 
-    if (recentTimestamps.length >= this.maxTxPerMinute) {
+    if (currentRate >= this.maxTx) {
+      // In-flight intents only free their slot once settled
+      const retryAfterMs = reserved >= this.maxTx
+        ? undefined
+        : retryAfter(recent, this.windowMs, now, BigInt(currentRate + 1 - this.maxTx), () => 1n);
       return {
         allowed: false,
         policyId: this.policyId,
-        reason: `Rate limit exceeded: ${recentTimestamps.length}/${this.maxTxPerMinute} tx/min`,
+        reason: `Rate limit exceeded: ${currentRate}/${this.maxTx} tx per ${formatWindow(this.windowMs)}`,
         meta: {
-          currentRate: recentTimestamps.length,
-          limit: this.maxTxPerMinute,
+          currentRate,
+          inFlight: reserved,
+          limit: this.maxTx,
+          windowMs: this.windowMs,
+          ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
         },
       };
     }
 
-    // Record this transaction
-    recentTimestamps.push(now);
+    // Hold a slot until the outcome is known
+    this.reservations.set(intent.id, { agentId: context.agentId, timestamp: now });
 
     return { allowed: true, policyId: this.policyId };
   }
+
+  async commit(intentId: string): Promise<void> {
+    const reservation = this.reservations.get(intentId);
+    if (!reservation) return;
+    this.reservations.delete(intentId);
+
+    // Prune intents outside the window, for every agent
+    const cutoff = Date.now() - this.windowMs;
+    await this.stateStore.update<RateState>(this.stateKey, (state) =>
+      appendEvent(
+        upgrade(state),
+        [reservation.agentId],
+        { at: reservation.timestamp, amounts: {} },
+        cutoff,
+      ),
+    );
+  }
+
+  async release(intentId: string): Promise<void> {
+    this.reservations.delete(intentId);
+  }
+}
+
+function upgrade(state: RateState | null): WindowState {
+  const upgraded: WindowState = {};
+  for (const [agentId, events] of Object.entries(state ?? {})) {
+    upgraded[agentId] = events.map((event) =>
+      typeof event === "number" ? { at: event, amounts: {} } : event,
+    );
+  }
+  return upgraded;
 }
@@ -0,0 +1,189 @@
+// ---------------------------------------------------------------------------
+// RecipientPolicy — Controls who an agent may pay or mint to.
+// Checks transfer and mint recipients (including batch items) against a
+// denylist, an allowlist, a named address book and the wallets managed by
+// this kernel. Recipients given as managed wallet IDs are resolved to their
+// addresses first. The denylist always wins; the mode decides everything else.
+// In "approve-new" mode, the recipients each agent has paid are kept in the
+// policy state store.
+// ---------------------------------------------------------------------------
+
+import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type {
+  IPolicyStateStore,
+  PolicyStateOptions,
+} from "../../core/interfaces/IPolicyStateStore.js";
+import type { Intent } from "../../core/intents/Intent.js";
+import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import { InMemoryPolicyStateStore } from "./InMemoryPolicyStateStore.js";
+
+/**
+ * - "open":        any recipient that is not denied
+ * - "allowlist":   only allowlisted and address-book recipients
+ * - "managed":     only wallets managed by this kernel, plus the above
+ * - "approve-new": known recipients, plus any recipient the agent already
+ *                  paid successfully; paying a new recipient requires a
+ *                  human to approve the intent
+ */
+export type RecipientMode = "open" | "allowlist" | "managed" | "approve-new";
+
+/** Recipients paid by committed intents, keyed by agent ID */
+type PaidState = Record<string, string[]>;
+
+export interface RecipientPolicyOptions extends PolicyStateOptions {
+  mode?: RecipientMode;
+  /** Addresses (or address-book names) always accepted */
+  allow?: string[];
+  /** Addresses (or address-book names) always refused */
+  deny?: string[];
+  /** Name → address of named counterparties; they count as allowlisted */
+  addressBook?: Record<string, string>;
+  /** Public keys of the wallets this kernel manages */
+  getManagedAddresses?: () => string[];
+  /** Address of a managed wallet, for recipients given as wallet IDs */
+  getWalletAddress?: (walletId: string) => string | undefined;
+}
+
+export class RecipientPolicy implements IPolicy {
+  readonly policyId = "recipient";
+  readonly name = "Recipient Policy";
+
+  private readonly mode: RecipientMode;
+  private readonly allow: Set<string>;
+  private readonly deny: Set<string>;
+  /** Address → name, for reporting */
+  private readonly names = new Map<string, string>();
+  private readonly getManagedAddresses: () => string[];
+  private readonly getWalletAddress: (walletId: string) => string | undefined;
+  private readonly stateStore: IPolicyStateStore;
+  private readonly stateKey: string;
+  /** Recipients of in-flight intents ("approve-new" mode), keyed by intent ID */
+  private readonly pending = new Map<string, { agentId: string; recipients: string[] }>();
+
+  constructor(options: RecipientPolicyOptions = {}) {
+    const addressBook = options.addressBook ?? {};
+    // Lists may name address-book entries instead of spelling out addresses
+    const resolve = (entry: string) => addressBook[entry] ?? entry;
+
+    this.mode = options.mode ?? "open";
+    this.allow = new Set((options.allow ?? []).map(resolve));
+    this.deny = new Set((options.deny ?? []).map(resolve));
+    for (const [name, address] of Object.entries(addressBook)) {
+      this.names.set(address, name);
+      this.allow.add(address);
+    }
+    this.getManagedAddresses = options.getManagedAddresses ?? (() => []);
+    this.getWalletAddress = options.getWalletAddress ?? (() => undefined);
+    this.stateStore = options.stateStore ?? new InMemoryPolicyStateStore();
+    this.stateKey = options.stateKey ?? this.policyId;
+  }
+
+  async evaluate(intent: Intent, context: PolicyContext): Promise<PolicyDecision> {
+    const recipients = extractRecipients(intent).map((to) => this.getWalletAddress(to) ?? to);
+    if (recipients.length === 0) {
+      return { allowed: true, policyId: this.policyId };
+    }
+
+    const managed = this.mode === "open" || this.mode === "allowlist"
+      ? new Set<string>()
+      : new Set(this.getManagedAddresses());
+    let paid: Set<string> | undefined;
+
+    for (const recipient of recipients) {
+      if (this.deny.has(recipient)) {
+        return this.denied(recipient, `Recipient ${this.label(recipient)} is denylisted`);
+      }
+      if (this.mode === "open") continue;
+
+      const known = this.allow.has(recipient) || managed.has(recipient);
+      if (known) continue;
+
+      switch (this.mode) {
+        case "allowlist":
+          return this.denied(recipient, `Recipient ${recipient} is not allowlisted`);
+        case "managed":
+          return this.denied(
+            recipient,
+            `Recipient ${recipient} is not a managed wallet or allowlisted`,
+          );
+        case "approve-new":
+          // An approved intent pays the recipient, which makes it known
+          if (context.approval) continue;
+          paid ??= await this.paidBy(context.agentId);
+          if (paid.has(recipient)) continue;
+          return {
+            allowed: false,
+            requiresApproval: true,
+            policyId: this.policyId,
+            reason: `Recipient ${recipient} is new and requires approval`,
+            meta: { recipient, mode: this.mode },
+          };
+      }
+    }
+
+    if (this.mode === "approve-new") {
+      this.pending.set(intent.id, { agentId: context.agentId, recipients });
+    }
+    return { allowed: true, policyId: this.policyId };
+  }
+
+  async commit(intentId: string): Promise<void> {
+    const pending = this.pending.get(intentId);
+    if (!pending) return;
+    this.pending.delete(intentId);
+
+    await this.stateStore.update<PaidState>(this.stateKey, (state) => {
+      const paid = new Set(state?.[pending.agentId] ?? []);
+      for (const recipient of pending.recipients) paid.add(recipient);
+      return { ...state, [pending.agentId]: Array.from(paid) };
+    });
+  }
+
+  async release(intentId: string): Promise<void> {
+    this.pending.delete(intentId);
+  }
+
+  private async paidBy(agentId: string): Promise<Set<string>> {
+    const state = await this.stateStore.get<PaidState>(this.stateKey);
+    return new Set(state?.[agentId] ?? []);
+  }
+
+  private denied(recipient: string, reason: string): PolicyDecision {
+    const name = this.names.get(recipient);
+    return {
+      allowed: false,
+      policyId: this.policyId,
+      reason,
+      meta: {
+        recipient,
+        ...(name ? { recipientName: name } : {}),
+        mode: this.mode,
+      },
+    };
+  }
+
+  private label(recipient: string): string {
+    const name = this.names.get(recipient);
+    return name ? `"${name}" (${recipient})` : recipient;
+  }
+}
+
+/** Every recipient the intent sends value to, as written (address or wallet ID) */
+export function extractRecipients(intent: Intent): string[] {
+  switch (intent.type) {
+    case "transfer":
+    case "mint_token":
+      return [intent.to];
+    case "batch": {
+      const recipients = new Set<string>();
+      for (const item of intent.items) {
+        if (item.type === "transfer" || item.type === "mint_token") {
+          recipients.add(item.to);
+        }
+      }
+      return Array.from(recipients);
+    }
+    default:
+      return [];
+  }
+}
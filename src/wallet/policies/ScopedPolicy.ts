@@ -0,0 +1,73 @@
+// ---------------------------------------------------------------------------
+// ScopedPolicy — Applies a policy only to intents from one wallet or agent.
+// Out-of-scope intents are allowed without consulting the inner policy.
+// ---------------------------------------------------------------------------
+
+import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type { Intent } from "../../core/intents/Intent.js";
+import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import type { TransactionInspection } from "../../core/types/TransactionInspection.js";
+import type { PolicyScope } from "./PolicyDocument.js";
+
+export class ScopedPolicy implements IPolicy {
+  readonly policyId: string;
+  readonly name: string;
+
+  private readonly inner: IPolicy;
+  private readonly scope: PolicyScope;
+
+  constructor(inner: IPolicy, scope: PolicyScope) {
+    this.inner = inner;
+    this.scope = scope;
+    this.policyId = inner.policyId;
+    this.name = `${inner.name} (${describeScope(scope)})`;
+  }
+
+  async evaluate(intent: Intent, context: PolicyContext): Promise<PolicyDecision> {
+    if (!this.applies(context)) {
+      return { allowed: true, policyId: this.policyId };
+    }
+    return this.inner.evaluate(intent, context);
+  }
+
+  async evaluateTransaction(
+    intent: Intent,
+    transaction: TransactionInspection,
+    context: PolicyContext,
+  ): Promise<PolicyDecision> {
+    if (!this.inner.evaluateTransaction || !this.applies(context)) {
+      return { allowed: true, policyId: this.policyId };
+    }
+    return this.inner.evaluateTransaction(intent, transaction, context);
+  }
+
+  async commit(intentId: string): Promise<void> {
+    await this.inner.commit?.(intentId);
+  }
+
+  async release(intentId: string): Promise<void> {
+    await this.inner.release?.(intentId);
+  }
+
+  private applies(context: PolicyContext): boolean {
+    switch (this.scope.type) {
+      case "global":
+        return true;
+      case "wallet":
+        return context.walletId === this.scope.walletId;
+      case "agent":
+        return context.agentId === this.scope.agentId;
+    }
+  }
+}
+
+export function describeScope(scope: PolicyScope): string {
+  switch (scope.type) {
+    case "global":
+      return "global";
+    case "wallet":
+      return `wallet ${scope.walletId}`;
+    case "agent":
+      return `agent ${scope.agentId}`;
+  }
+}
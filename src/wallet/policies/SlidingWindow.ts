@@ -0,0 +1,81 @@
+// ---------------------------------------------------------------------------
+// SlidingWindow — Committed intents kept as timestamped events, for the
+// policies that cap what happens within a trailing window: velocity,
+// spending and rate limits, and minted supply. A window always covers the
+// `windowMs` before now, so a budget frees up gradually as events slide
+// out, never all at once at a reset.
+// ---------------------------------------------------------------------------
+
+/** A committed intent, as persisted */
+export interface WindowEvent {
+  at: number;
+  /** Base units per token, as decimal strings */
+  amounts: Record<string, string>;
+}
+
+/** Events per key (an agent, a wallet, a mint…), oldest first */
+export type WindowState = Record<string, WindowEvent[]>;
+
+/** The events inside the window that ends at `now` */
+export function eventsWithin(
+  events: readonly WindowEvent[],
+  windowMs: number,
+  now: number,
+): WindowEvent[] {
+  const since = now - windowMs;
+  return events.filter((event) => event.at > since);
+}
+
+/** Total amount of a token across events */
+export function totalOf(events: readonly WindowEvent[], token: string): bigint {
+  return events.reduce((total, event) => total + BigInt(event.amounts[token] ?? "0"), 0n);
+}
+
+/**
+ * Record an event under each key. Events at or before `cutoff` no longer
+ * count for any window and are dropped, under every key.
+ */
+export function appendEvent(
+  state: WindowState | null,
+  keys: readonly string[],
+  event: WindowEvent,
+  cutoff: number,
+): WindowState {
+  const next: WindowState = {};
+  for (const [key, events] of Object.entries(state ?? {})) {
+    const recent = events.filter((stored) => stored.at > cutoff);
+    if (recent.length > 0) next[key] = recent;
+  }
+  for (const key of keys) {
+    next[key] = [...(next[key] ?? []), event];
+  }
+  return next;
+}
+
+/**
+ * How long until enough of the window's events have slid out to free
+ * `excess`, each weighing `weigh(event)`; undefined if that never happens
+ * (the request does not fit even in an empty window)
+ */
+export function retryAfter(
+  events: readonly WindowEvent[],
+  windowMs: number,
+  now: number,
+  excess: bigint,
+  weigh: (event: WindowEvent) => bigint,
+): number | undefined {
+  let freed = 0n;
+  for (const event of [...events].sort((a, b) => a.at - b.at)) {
+    freed += weigh(event);
+    if (freed >= excess) return Math.max(0, event.at + windowMs - now);
+  }
+  return undefined;
+}
+
+/** "1h", "5m", "30s" or "1500ms" */
+export function formatWindow(ms: number): string {
+  if (ms % 3_600_000 === 0) return `${ms / 3_600_000}h`;
+  if (ms % 60_000 === 0) return `${ms / 60_000}m`;
+  if (ms % 1_000 === 0) return `${ms / 1_000}s`;
+  return `${ms}ms`;
+}
@@ -1,78 +1,253 @@
 // ---------------------------------------------------------------------------
 // SpendingLimitPolicy — Enforces per-agent spending caps in a sliding window.
+// Spend is tracked per token: native SOL (transfer amounts plus estimated
+// network fees, capped in lamports) and each SPL mint with a configured
+// limit, expressed in human units and converted with the mint's decimals.
+// Swaps spend their input token, mint_token spends the minted token, and a
+// batch counts as the sum of its items. Every token has its own window,
+// covering the spend committed within the last `windowMs`. Allowed spend is
+// reserved until the Executor commits it (the transaction may have landed)
+// or releases it (nothing was broadcast). Committed spend is kept in the
+// policy state store, so windows survive restarts.
 // ---------------------------------------------------------------------------
 
 import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type {
+  IPolicyStateStore,
+  PolicyStateOptions,
+} from "../../core/interfaces/IPolicyStateStore.js";
 import type { Intent } from "../../core/intents/Intent.js";
 import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
-import { isTransferIntent, isSwapIntent } from "../../core/intents/Intent.js";
+import {
+  NATIVE_DECIMALS,
+  NATIVE_TOKEN,
+  extractSpend,
+  formatUnits,
+  parseUnits,
+} from "./TokenAmounts.js";
+import type { WindowEvent, WindowState } from "./SlidingWindow.js";
+import { appendEvent, eventsWithin, retryAfter, totalOf } from "./SlidingWindow.js";
+import { InMemoryPolicyStateStore } from "./InMemoryPolicyStateStore.js";
 
-interface SpendRecord {
-  totalSpent: bigint;
+/** A limit in human units, e.g. "250.5" USDC */
+export interface TokenLimit {
+  amount: string;
+  /** Window length in milliseconds; defaults to the policy's window */
+  windowMs?: number;
+}
+
+export interface SpendingLimitOptions extends PolicyStateOptions {
+  /** Limits keyed by mint address, or NATIVE_TOKEN to override maxLamports */
+  tokenLimits?: Record<string, TokenLimit>;
+  /** Decimals of an SPL mint, used to convert token limits to base units */
+  getDecimals?: (mint: string) => Promise<number>;
+}
+
+/** A fixed-window total, as persisted before spend was kept per intent */
+interface LegacySpendRecord {
+  totalSpent: string;
   windowStart: number;
 }
 
+/** Committed spend keyed by agent ID and token */
+type SpendState = Record<string, WindowEvent[] | LegacySpendRecord>;
+
+/** A limit converted to base units */
+interface ResolvedLimit {
+  max: bigint;
+  decimals: number;
+  windowMs: number;
+}
+
+interface SpendReservation {
+  agentId: string;
+  amounts: Map<string, bigint>;
+}
+
 export class SpendingLimitPolicy implements IPolicy {
   readonly policyId = "spending-limit";
   readonly name = "Spending Limit Policy";
 
   private readonly maxLamports: bigint;
   private readonly windowMs: number;
-  private readonly records = new Map<string, SpendRecord>();
+  /** Spend older than this counts for no token's window */
+  private readonly longestWindowMs: number;
+  private readonly tokenLimits: Record<string, TokenLimit>;
+  private readonly getDecimals?: (mint: string) => Promise<number>;
+  private readonly resolvedLimits = new Map<string, ResolvedLimit>();
+  private readonly stateStore: IPolicyStateStore;
+  private readonly stateKey: string;
+  private readonly reservations = new Map<string, SpendReservation>();
 
-  constructor(maxLamports: bigint, windowMs: number = 60_000) {
+  constructor(maxLamports: bigint, windowMs: number = 60_000, options: SpendingLimitOptions = {}) {
     this.maxLamports = maxLamports;
     this.windowMs = windowMs;
+    this.tokenLimits = options.tokenLimits ?? {};
+    this.longestWindowMs = Math.max(
+      windowMs,
+      ...Object.values(this.tokenLimits).map((limit) => limit.windowMs ?? windowMs),
+    );
+    this.getDecimals = options.getDecimals;
+    this.stateStore = options.stateStore ?? new InMemoryPolicyStateStore();
+    this.stateKey = options.stateKey ?? this.policyId;
   }
 
   async evaluate(intent: Intent, context: PolicyContext): Promise<PolicyDecision> {
-    const amount = this.extractAmount(intent);
-    if (amount === null) {
+    const fee = context.estimatedFee ?? 0n;
+    const spend = extractSpend(intent);
+    if (fee > 0n) {
+      spend.set(NATIVE_TOKEN, (spend.get(NATIVE_TOKEN) ?? 0n) + fee);
+    }
+    if (spend.size === 0) {
       return { allowed: true, policyId: this.policyId };
     }
 
+    const limits = new Map<string, ResolvedLimit>();
+    for (const token of spend.keys()) {
+      try {
+        const limit = await this.limitFor(token);
+        if (limit) limits.set(token, limit); // No limit configured for the others
+      } catch (error) {
+        return {
+          allowed: false,
+          policyId: this.policyId,
+          reason: `Cannot resolve the spending limit for ${token}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          meta: { token },
+        };
+      }
+    }
+
     const now = Date.now();
-    const record = this.getOrCreateRecord(context.agentId, now);
+    const state = upgrade(await this.stateStore.get<SpendState>(this.stateKey));
+    // No await from here on: a concurrent intent must not pass the same
+    // checks before this one's reservation is in place
+    for (const [token, amount] of spend) {
+      const limit = limits.get(token);
+      if (!limit) continue;
 
-    // Reset window if expired
-    if (now - record.windowStart > this.windowMs) {
-      record.totalSpent = 0n;
-      record.windowStart = now;
-    }
+      const events = eventsWithin(state[recordKey(context.agentId, token)] ?? [], limit.windowMs, now);
+      const currentSpend = totalOf(events, token);
+      const reserved = this.reservedFor(context.agentId, token);
+      const projectedSpend = currentSpend + reserved + amount;
 
-    const projectedSpend = record.totalSpent + amount;
-
-    if (projectedSpend > this.maxLamports) {
-      return {
-        allowed: false,
-        policyId: this.policyId,
-        reason: `Spending limit exceeded: projected ${projectedSpend} > limit ${this.maxLamports} lamports in current window`,
-        meta: {
-          currentSpend: record.totalSpent.toString(),
-          requestedAmount: amount.toString(),
-          limit: this.maxLamports.toString(),
-        },
-      };
+      if (projectedSpend > limit.max) {
+        // Reserved spend only frees up once settled, so it never slides out
+        const retryAfterMs = reserved + amount > limit.max
+          ? undefined
+          : retryAfter(events, limit.windowMs, now, projectedSpend - limit.max, (event) =>
+            BigInt(event.amounts[token] ?? "0"));
+        return {
+          allowed: false,
+          policyId: this.policyId,
+          reason: token === NATIVE_TOKEN
+            ? `Spending limit exceeded: projected ${projectedSpend} > limit ${limit.max} lamports in current window`
+            : `Spending limit exceeded for ${token}: projected ${formatUnits(projectedSpend, limit.decimals)} > limit ${formatUnits(limit.max, limit.decimals)} in current window`,
+          meta: {
+            token,
+            decimals: limit.decimals,
+            currentSpend: currentSpend.toString(),
+            reservedSpend: reserved.toString(),
+            requestedAmount: amount.toString(),
+            ...(token === NATIVE_TOKEN ? { estimatedFee: fee.toString() } : {}),
+            limit: limit.max.toString(),
+            windowMs: limit.windowMs,
+            ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+          },
+        };
+      }
     }
 
-    // Record the spend (optimistically — will be confirmed after tx)
-    record.totalSpent = projectedSpend;
+    this.reservations.set(intent.id, { agentId: context.agentId, amounts: spend });
 
     return { allowed: true, policyId: this.policyId };
   }
 
-  private extractAmount(intent: Intent): bigint | null {
-    if (isTransferIntent(intent)) return intent.amount;
-    if (isSwapIntent(intent)) return intent.amountIn;
-    return null;
+  async commit(intentId: string): Promise<void> {
+    const reservation = this.reservations.get(intentId);
+    if (!reservation) return;
+
+    const now = Date.now();
+    const cutoff = now - this.longestWindowMs;
+    try {
+      await this.stateStore.update<SpendState>(this.stateKey, (stored) => {
+        let state = upgrade(stored);
+        for (const [token, amount] of reservation.amounts) {
+          if (!this.resolvedLimits.has(token)) continue; // Unlimited token — nothing to track
+          const event = { at: now, amounts: { [token]: amount.toString() } };
+          state = appendEvent(state, [recordKey(reservation.agentId, token)], event, cutoff);
+        }
+        return state;
+      });
+    } finally {
+      // Held until persisted, so concurrent evaluations count the spend meanwhile
+      this.reservations.delete(intentId);
+    }
+  }
+
+  async release(intentId: string): Promise<void> {
+    this.reservations.delete(intentId);
+  }
+
+  /** The limit for a token in base units, or null if it has none */
+  private async limitFor(token: string): Promise<ResolvedLimit | null> {
+    const cached = this.resolvedLimits.get(token);
+    if (cached) return cached;
+
+    const configured = this.tokenLimits[token];
+    let limit: ResolvedLimit;
+    if (token === NATIVE_TOKEN) {
+      limit = {
+        max: configured ? parseUnits(configured.amount, NATIVE_DECIMALS) : this.maxLamports,
+        decimals: NATIVE_DECIMALS,
+        windowMs: configured?.windowMs ?? this.windowMs,
+      };
+    } else {
+      if (!configured) return null;
+      if (!this.getDecimals) {
+        throw new Error("mint decimals are unavailable");
+      }
+      const decimals = await this.getDecimals(token);
+      limit = {
+        max: parseUnits(configured.amount, decimals),
+        decimals,
+        windowMs: configured.windowMs ?? this.windowMs,
+      };
+    }
+
+    this.resolvedLimits.set(token, limit);
+    return limit;
+  }
+
+  /** Spend of a token allowed but not yet settled for the agent */
+  private reservedFor(agentId: string, token: string): bigint {
+    let total = 0n;
+    for (const reservation of this.reservations.values()) {
+      if (reservation.agentId === agentId) total += reservation.amounts.get(token) ?? 0n;
+    }
+    return total;
   }
+}
+
+function recordKey(agentId: string, token: string): string {
+  return `${agentId}:${token}`;
+}
 
-  private getOrCreateRecord(agentId: string, now: number): SpendRecord {
-    let record = this.records.get(agentId);
-    if (!record) {
-      record = { totalSpent: 0n, windowStart: now };
-      this.records.set(agentId, record);
+/**
+ * Read state written before spend was kept per intent: a fixed-window total
+ * becomes one event at the window's start, which slides out when that
+ * window would have expired.
+ */
+function upgrade(state: SpendState | null): WindowState {
+  const upgraded: WindowState = {};
+  for (const [key, value] of Object.entries(state ?? {})) {
+    if (Array.isArray(value)) {
+      upgraded[key] = value;
+      continue;
     }
-    return record;
+    const token = key.slice(key.lastIndexOf(":") + 1);
+    upgraded[key] = [{ at: value.windowStart, amounts: { [token]: value.totalSpent } }];
   }
+  return upgraded;
 }
@@ -0,0 +1,88 @@
+// ---------------------------------------------------------------------------
+// SwapSlippagePolicy — Caps how much a swap may lose to slippage and price
+// impact. Enforced post-build against the quote the transaction was built
+// from: the slippage tolerance between the estimated and minimum output,
+// and how far the quoted price sits from the pool's spot price.
+// ---------------------------------------------------------------------------
+
+import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type { Intent } from "../../core/intents/Intent.js";
+import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import type { TransactionInspection } from "../../core/types/TransactionInspection.js";
+
+export interface SwapSlippageLimits {
+  /** Largest slippage tolerance a swap may be built with, in basis points */
+  readonly maxSlippageBps?: number;
+  /** Largest price impact a swap may have, in basis points */
+  readonly maxPriceImpactBps?: number;
+}
+
+export class SwapSlippagePolicy implements IPolicy {
+  readonly policyId = "swap-slippage";
+  readonly name = "Swap Slippage Policy";
+
+  private readonly maxSlippageBps?: number;
+  private readonly maxPriceImpactBps?: number;
+
+  constructor(limits: SwapSlippageLimits) {
+    this.maxSlippageBps = limits.maxSlippageBps;
+    this.maxPriceImpactBps = limits.maxPriceImpactBps;
+  }
+
+  async evaluate(_intent: Intent, _context: PolicyContext): Promise<PolicyDecision> {
+    // The quote is only known once the swap is built
+    return { allowed: true, policyId: this.policyId };
+  }
+
+  async evaluateTransaction(
+    intent: Intent,
+    transaction: TransactionInspection,
+    _context: PolicyContext,
+  ): Promise<PolicyDecision> {
+    if (intent.type !== "swap") {
+      return { allowed: true, policyId: this.policyId };
+    }
+
+    const quote = transaction.swap;
+    if (!quote) {
+      return this.denied("Swap was built without a quote to check");
+    }
+
+    if (this.maxSlippageBps !== undefined && quote.slippageBps > this.maxSlippageBps) {
+      return this.denied(
+        `Slippage tolerance ${quote.slippageBps} bps exceeds limit ${this.maxSlippageBps} bps`,
+        {
+          slippageBps: quote.slippageBps,
+          maxSlippageBps: this.maxSlippageBps,
+          estimatedAmountOut: quote.estimatedAmountOut.toString(),
+          minAmountOut: quote.minAmountOut.toString(),
+        },
+      );
+    }
+
+    if (this.maxPriceImpactBps !== undefined) {
+      if (quote.priceImpactBps === undefined) {
+        return this.denied("Price impact of the swap could not be determined", {
+          maxPriceImpactBps: this.maxPriceImpactBps,
+        });
+      }
+      if (quote.priceImpactBps > this.maxPriceImpactBps) {
+        return this.denied(
+          `Price impact ${quote.priceImpactBps} bps exceeds limit ${this.maxPriceImpactBps} bps`,
+          {
+            priceImpactBps: quote.priceImpactBps,
+            maxPriceImpactBps: this.maxPriceImpactBps,
+            amountIn: quote.amountIn.toString(),
+            estimatedAmountOut: quote.estimatedAmountOut.toString(),
+          },
+        );
+      }
+    }
+
+    return { allowed: true, policyId: this.policyId };
+  }
+
+  private denied(reason: string, meta?: Record<string, unknown>): PolicyDecision {
+    return { allowed: false, policyId: this.policyId, reason, ...(meta ? { meta } : {}) };
+  }
+}
@@ -0,0 +1,68 @@
+// ---------------------------------------------------------------------------
+// TokenAmounts — Token keys, base-unit conversions and what an intent
+// spends, shared by the value-based policies. Native SOL and wrapped SOL
+// share one key.
+// ---------------------------------------------------------------------------
+
+import type { Intent } from "../../core/intents/Intent.js";
+
+/** Token key for native SOL */
+export const NATIVE_TOKEN = "SOL";
+export const WRAPPED_SOL_MINT = "So11111111111111111111111111111111111111112";
+export const NATIVE_DECIMALS = 9;
+
+/** Key a mint is tracked under — NATIVE_TOKEN for SOL and wrapped SOL */
+export function tokenKey(mint: string | undefined): string {
+  return !mint || mint === WRAPPED_SOL_MINT ? NATIVE_TOKEN : mint;
+}
+
+/** "1.5" with 6 decimals → 1500000n */
+export function parseUnits(value: string, decimals: number): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(value);
+  if (!match) {
+    throw new Error(`"${value}" is not a decimal amount`);
+  }
+  const whole = match[1] ?? "0";
+  const fraction = match[2] ?? "";
+  if (fraction.length > decimals) {
+    throw new Error(`"${value}" has more than ${decimals} decimal places`);
+  }
+  return BigInt(whole + fraction.padEnd(decimals, "0"));
+}
+
+/** 1500000n with 6 decimals → "1.5" */
+export function formatUnits(value: bigint, decimals: number): string {
+  if (decimals === 0) return value.toString();
+  const digits = value.toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, -decimals);
+  const fraction = digits.slice(-decimals).replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/** Base units the intent spends, keyed by token */
+export function extractSpend(intent: Intent): Map<string, bigint> {
+  const spend = new Map<string, bigint>();
+  const add = (mint: string | undefined, amount: bigint) => {
+    const token = tokenKey(mint);
+    spend.set(token, (spend.get(token) ?? 0n) + amount);
+  };
+
+  switch (intent.type) {
+    case "transfer":
+      add(intent.tokenMint, intent.amount);
+      break;
+    case "swap":
+      add(intent.tokenInMint, intent.amountIn);
+      break;
+    case "mint_token":
+      add(intent.mint, intent.amount);
+      break;
+    case "batch":
+      for (const item of intent.items) {
+        if (item.type === "transfer") add(item.tokenMint, item.amount);
+        if (item.type === "mint_token") add(item.mint, item.amount);
+      }
+      break;
+  }
+  return spend;
+}
@@ -0,0 +1,280 @@
+// ---------------------------------------------------------------------------
+// TokenGovernancePolicy — Constrains what agents do with SPL mints.
+// New mints may only name the wallets this kernel manages, or allowlisted
+// addresses, as mint and freeze authority. Tokens may only be minted to
+// managed wallets or allowlisted destinations (batch items included). Supply
+// minted per mint, across all agents, is capped in human units within a
+// sliding window: the mints committed within the last `windowMs`. Allowed
+// supply is reserved until the Executor settles the intent; committed mints
+// are kept in the policy state store with their timestamps.
+// ---------------------------------------------------------------------------
+
+import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type {
+  IPolicyStateStore,
+  PolicyStateOptions,
+} from "../../core/interfaces/IPolicyStateStore.js";
+import type { Intent } from "../../core/intents/Intent.js";
+import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import { formatUnits, parseUnits } from "./TokenAmounts.js";
+import type { WindowEvent, WindowState } from "./SlidingWindow.js";
+import { appendEvent, eventsWithin, retryAfter, totalOf } from "./SlidingWindow.js";
+import { InMemoryPolicyStateStore } from "./InMemoryPolicyStateStore.js";
+
+/** A supply cap in human units, e.g. "1000000" tokens */
+export interface MintCap {
+  amount: string;
+  /** Window length in milliseconds; defaults to the policy's window */
+  windowMs?: number;
+}
+
+export interface TokenGovernanceOptions extends PolicyStateOptions {
+  /** Addresses that may be mint or freeze authority besides managed wallets */
+  allowedAuthorities?: string[];
+  /** Addresses that may receive minted tokens besides managed wallets */
+  allowedDestinations?: string[];
+  /** Cap for every mint without one of its own; unlimited if omitted */
+  maxMinted?: string;
+  /** Caps keyed by mint address */
+  mintCaps?: Record<string, MintCap>;
+  /** Window of caps without their own; one day by default */
+  windowMs?: number;
+  /** Public keys of the wallets this kernel manages */
+  getManagedAddresses?: () => string[];
+  /** Public key of a managed wallet; mint destinations may name one by ID */
+  getWalletAddress?: (walletId: string) => string | undefined;
+  /** Decimals of an SPL mint, used to convert caps to base units */
+  getDecimals?: (mint: string) => Promise<number>;
+}
+
+/** A fixed-window total, as persisted before mints were kept individually */
+interface LegacyMintRecord {
+  totalMinted: string;
+  windowStart: number;
+}
+
+/** Committed mints keyed by mint address */
+type MintState = Record<string, WindowEvent[] | LegacyMintRecord>;
+
+/** A cap converted to base units */
+interface ResolvedCap {
+  max: bigint;
+  decimals: number;
+  windowMs: number;
+}
+
+export class TokenGovernancePolicy implements IPolicy {
+  readonly policyId = "token-governance";
+  readonly name = "Token Governance Policy";
+
+  private readonly allowedAuthorities: Set<string>;
+  private readonly allowedDestinations: Set<string>;
+  private readonly maxMinted?: string;
+  private readonly mintCaps: Record<string, MintCap>;
+  private readonly windowMs: number;
+  /** Mints older than this count for no cap's window */
+  private readonly longestWindowMs: number;
+  private readonly getManagedAddresses: () => string[];
+  private readonly getWalletAddress: (walletId: string) => string | undefined;
+  private readonly getDecimals?: (mint: string) => Promise<number>;
+  /**
+   * Caps in base units, resolved on first use. A mint's decimals never
+   * change, so a resolved cap holds until the policy is reloaded.
+   */
+  private readonly resolvedCaps = new Map<string, ResolvedCap>();
+  private readonly stateStore: IPolicyStateStore;
+  private readonly stateKey: string;
+  /** Base units minted per capped mint by in-flight intents, keyed by intent ID */
+  private readonly reservations = new Map<string, Map<string, bigint>>();
+
+  constructor(options: TokenGovernanceOptions = {}) {
+    this.allowedAuthorities = new Set(options.allowedAuthorities ?? []);
+    this.allowedDestinations = new Set(options.allowedDestinations ?? []);
+    this.maxMinted = options.maxMinted;
+    this.mintCaps = options.mintCaps ?? {};
+    this.windowMs = options.windowMs ?? 86_400_000;
+    this.longestWindowMs = Math.max(
+      this.windowMs,
+      ...Object.values(this.mintCaps).map((cap) => cap.windowMs ?? this.windowMs),
+    );
+    this.getManagedAddresses = options.getManagedAddresses ?? (() => []);
+    this.getWalletAddress = options.getWalletAddress ?? (() => undefined);
+    this.getDecimals = options.getDecimals;
+    this.stateStore = options.stateStore ?? new InMemoryPolicyStateStore();
+    this.stateKey = options.stateKey ?? this.policyId;
+  }
+
+  async evaluate(intent: Intent, _context: PolicyContext): Promise<PolicyDecision> {
+    const authorities = extractAuthorities(intent);
+    const minted = extractMinted(intent);
+    if (authorities.length === 0 && minted.length === 0) {
+      return { allowed: true, policyId: this.policyId };
+    }
+
+    const managed = new Set(this.getManagedAddresses());
+
+    for (const { role, address } of authorities) {
+      if (!managed.has(address) && !this.allowedAuthorities.has(address)) {
+        return this.denied(
+          `${role === "mint" ? "Mint" : "Freeze"} authority ${address} is not a managed wallet or allowlisted`,
+          { role: `${role}Authority`, address },
+        );
+      }
+    }
+
+    const supply = new Map<string, bigint>();
+    for (const { mint, to, amount } of minted) {
+      const address = this.getWalletAddress(to) ?? to;
+      if (!managed.has(address) && !this.allowedDestinations.has(address)) {
+        return this.denied(
+          `Minting ${mint} to ${to} is not allowed: not a managed wallet or allowlisted destination`,
+          { mint, destination: to },
+        );
+      }
+      supply.set(mint, (supply.get(mint) ?? 0n) + amount);
+    }
+
+    const now = Date.now();
+    const state = upgrade(await this.stateStore.get<MintState>(this.stateKey));
+    const capped = new Map<string, bigint>();
+    for (const [mint, amount] of supply) {
+      let cap: ResolvedCap | null;
+      try {
+        cap = await this.capFor(mint);
+      } catch (error) {
+        return this.denied(
+          `Cannot resolve the mint cap for ${mint}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          { mint },
+        );
+      }
+      if (!cap) continue; // No cap configured for this mint
+
+      const events = eventsWithin(state[mint] ?? [], cap.windowMs, now);
+      const currentMinted = totalOf(events, mint);
+      const reserved = this.reservedFor(mint);
+      const projected = currentMinted + reserved + amount;
+      if (projected > cap.max) {
+        // Reserved supply only frees up once settled, so it never slides out
+        const retryAfterMs = reserved + amount > cap.max
+          ? undefined
+          : retryAfter(events, cap.windowMs, now, projected - cap.max, (event) =>
+            BigInt(event.amounts[mint] ?? "0"));
+        return this.denied(
+          `Mint cap exceeded for ${mint}: projected ${formatUnits(projected, cap.decimals)} > cap ${formatUnits(cap.max, cap.decimals)} in current window`,
+          {
+            mint,
+            decimals: cap.decimals,
+            currentMinted: currentMinted.toString(),
+            reservedMinted: reserved.toString(),
+            requestedAmount: amount.toString(),
+            cap: cap.max.toString(),
+            windowMs: cap.windowMs,
+            ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+          },
+        );
+      }
+      capped.set(mint, amount);
+    }
+
+    // Only capped mints are tracked; committing needs no cap lookup
+    if (capped.size > 0) {
+      this.reservations.set(intent.id, capped);
+    }
+    return { allowed: true, policyId: this.policyId };
+  }
+
+  async commit(intentId: string): Promise<void> {
+    const supply = this.reservations.get(intentId);
+    if (!supply) return;
+    this.reservations.delete(intentId);
+
+    const now = Date.now();
+    const cutoff = now - this.longestWindowMs;
+    await this.stateStore.update<MintState>(this.stateKey, (stored) => {
+      let state = upgrade(stored);
+      for (const [mint, amount] of supply) {
+        const event = { at: now, amounts: { [mint]: amount.toString() } };
+        state = appendEvent(state, [mint], event, cutoff);
+      }
+      return state;
+    });
+  }
+
+  async release(intentId: string): Promise<void> {
+    this.reservations.delete(intentId);
+  }
+
+  /** The cap for a mint in base units, or null if it has none */
+  private async capFor(mint: string): Promise<ResolvedCap | null> {
+    const cached = this.resolvedCaps.get(mint);
+    if (cached) return cached;
+
+    const configured = this.mintCaps[mint];
+    const amount = configured?.amount ?? this.maxMinted;
+    if (amount === undefined) return null;
+    if (!this.getDecimals) {
+      throw new Error("mint decimals are unavailable");
+    }
+
+    const decimals = await this.getDecimals(mint);
+    const cap = {
+      max: parseUnits(amount, decimals),
+      decimals,
+      windowMs: configured?.windowMs ?? this.windowMs,
+    };
+    this.resolvedCaps.set(mint, cap);
+    return cap;
+  }
+
+  /** Supply of a mint allowed but not yet settled */
+  private reservedFor(mint: string): bigint {
+    let total = 0n;
+    for (const supply of this.reservations.values()) {
+      total += supply.get(mint) ?? 0n;
+    }
+    return total;
+  }
+
+  private denied(reason: string, meta: Record<string, unknown>): PolicyDecision {
+    return { allowed: false, policyId: this.policyId, reason, meta };
+  }
+}
+
+/** Authorities a create_mint intent sets explicitly; omitted ones default to the sender */
+function extractAuthorities(intent: Intent): { role: "mint" | "freeze"; address: string }[] {
+  if (intent.type !== "create_mint") return [];
+  const authorities: { role: "mint" | "freeze"; address: string }[] = [];
+  if (intent.mintAuthority) authorities.push({ role: "mint", address: intent.mintAuthority });
+  if (intent.freezeAuthority) authorities.push({ role: "freeze", address: intent.freezeAuthority });
+  return authorities;
+}
+
+/** Every mint_token operation of the intent, batch items included */
+function extractMinted(intent: Intent): { mint: string; to: string; amount: bigint }[] {
+  switch (intent.type) {
+    case "mint_token":
+      return [{ mint: intent.mint, to: intent.to, amount: intent.amount }];
+    case "batch":
+      return intent.items.flatMap((item) =>
+        item.type === "mint_token" ? [{ mint: item.mint, to: item.to, amount: item.amount }] : [],
+      );
+    default:
+      return [];
+  }
+}
+
+/**
+ * Read state written before mints were kept individually: a fixed-window
+ * total becomes one mint at the window's start.
+ */
+function upgrade(state: MintState | null): WindowState {
+  const upgraded: WindowState = {};
+  for (const [mint, value] of Object.entries(state ?? {})) {
+    upgraded[mint] = Array.isArray(value)
+      ? value
+      : [{ at: value.windowStart, amounts: { [mint]: value.totalMinted } }];
+  }
+  return upgraded;
+}
@@ -0,0 +1,87 @@
+// ---------------------------------------------------------------------------
+// TradingHoursPolicy — Only allows intents inside weekly trading windows,
+// in the operator's timezone. A window whose end is before its start runs
+// overnight into the next day. Judged at PolicyContext.evaluatedAt.
+// ---------------------------------------------------------------------------
+
+import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type { Intent } from "../../core/intents/Intent.js";
+import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import type { Weekday } from "./LocalTime.js";
+import { WEEKDAYS, localTime, parseTimeOfDay, previousWeekday } from "./LocalTime.js";
+
+export interface TradingWindow {
+  /** Days the window opens on; every day if omitted */
+  days?: Weekday[];
+  /** Opening time, HH:MM */
+  start: string;
+  /** Closing time, HH:MM; before `start` for an overnight window */
+  end: string;
+}
+
+interface ResolvedWindow {
+  days: Set<Weekday>;
+  start: number;
+  end: number;
+  label: string;
+}
+
+export class TradingHoursPolicy implements IPolicy {
+  readonly policyId = "trading-hours";
+  readonly name = "Trading Hours Policy";
+
+  private readonly timeZone: string;
+  private readonly windows: ResolvedWindow[];
+
+  /**
+   * @param windows  - Windows in which intents are allowed
+   * @param timeZone - IANA timezone the windows are expressed in
+   */
+  constructor(windows: TradingWindow[], timeZone: string = "UTC") {
+    this.timeZone = timeZone;
+    this.windows = windows.map((window) => {
+      const days = window.days ?? [...WEEKDAYS];
+      return {
+        days: new Set(days),
+        start: parseTimeOfDay(window.start),
+        end: parseTimeOfDay(window.end),
+        label: `${days.join(",")} ${window.start}-${window.end}`,
+      };
+    });
+  }
+
+  async evaluate(_intent: Intent, context: PolicyContext): Promise<PolicyDecision> {
+    const now = localTime(new Date(context.evaluatedAt), this.timeZone);
+    if (this.windows.some((window) => isOpen(window, now.weekday, now.minutes))) {
+      return { allowed: true, policyId: this.policyId };
+    }
+
+    return {
+      allowed: false,
+      policyId: this.policyId,
+      reason: `Outside trading hours: ${now.weekday} ${formatMinutes(now.minutes)} ${this.timeZone}`,
+      meta: {
+        timeZone: this.timeZone,
+        localDate: now.date,
+        localTime: formatMinutes(now.minutes),
+        windows: this.windows.map((window) => window.label),
+      },
+    };
+  }
+}
+
+function isOpen(window: ResolvedWindow, day: Weekday, minutes: number): boolean {
+  if (window.start <= window.end) {
+    return window.days.has(day) && minutes >= window.start && minutes < window.end;
+  }
+  // Overnight: the evening of an opening day, or the morning after one
+  return (
+    (window.days.has(day) && minutes >= window.start) ||
+    (window.days.has(previousWeekday(day)) && minutes < window.end)
+  );
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60).toString().padStart(2, "0");
+  return `${hours}:${(minutes % 60).toString().padStart(2, "0")}`;
+}
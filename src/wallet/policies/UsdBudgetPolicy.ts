@@ -0,0 +1,230 @@
+// ---------------------------------------------------------------------------
+// UsdBudgetPolicy — Caps what an agent spends in US dollars per rolling day
+// and week. Every outgoing value (SOL and SPL transfers, swap inputs and
+// estimated network fees) is priced through the configured IPriceOracle.
+// Values that cannot be priced are denied rather than let through.
+// Committed spend is kept in the policy state store across restarts, as
+// sliding-window events in millionths of a dollar so totals sum exactly.
+// ---------------------------------------------------------------------------
+
+import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type {
+  IPolicyStateStore,
+  PolicyStateOptions,
+} from "../../core/interfaces/IPolicyStateStore.js";
+import type { IPriceOracle } from "../../core/interfaces/IPriceOracle.js";
+import type { Intent } from "../../core/intents/Intent.js";
+import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import {
+  NATIVE_DECIMALS,
+  NATIVE_TOKEN,
+  WRAPPED_SOL_MINT,
+  formatUnits,
+  tokenKey,
+} from "./TokenAmounts.js";
+import type { WindowEvent, WindowState } from "./SlidingWindow.js";
+import { appendEvent, eventsWithin, totalOf } from "./SlidingWindow.js";
+import { InMemoryPolicyStateStore } from "./InMemoryPolicyStateStore.js";
+
+const DAY_MS = 86_400_000;
+const WEEK_MS = 7 * DAY_MS;
+/** Event amount key for spend in millionths of a dollar */
+const MICRO_USD = "micro-usd";
+
+export interface UsdBudgetOptions extends PolicyStateOptions {
+  /** Cap per rolling 24 hours */
+  dailyUsd?: number;
+  /** Cap per rolling 7 days */
+  weeklyUsd?: number;
+  oracle: IPriceOracle;
+  /** Decimals of an SPL mint, used to convert base units to whole tokens */
+  getDecimals?: (mint: string) => Promise<number>;
+}
+
+/** A spend as persisted before it was kept as a window event */
+interface LegacyUsdSpend {
+  at: number;
+  usd: number;
+}
+
+/** Committed spend per agent, oldest first */
+type UsdState = Record<string, Array<WindowEvent | LegacyUsdSpend>>;
+
+interface UsdReservation {
+  agentId: string;
+  at: number;
+  microUsd: bigint;
+}
+
+export class UsdBudgetPolicy implements IPolicy {
+  readonly policyId = "usd-budget";
+  readonly name = "USD Budget Policy";
+
+  private readonly windows: Array<{ label: string; windowMs: number; capUsd: number }>;
+  private readonly oracle: IPriceOracle;
+  private readonly getDecimals?: (mint: string) => Promise<number>;
+  private readonly stateStore: IPolicyStateStore;
+  private readonly stateKey: string;
+  private readonly reservations = new Map<string, UsdReservation>();
+
+  constructor(options: UsdBudgetOptions) {
+    this.windows = [];
+    if (options.dailyUsd !== undefined) {
+      this.windows.push({ label: "daily", windowMs: DAY_MS, capUsd: options.dailyUsd });
+    }
+    if (options.weeklyUsd !== undefined) {
+      this.windows.push({ label: "weekly", windowMs: WEEK_MS, capUsd: options.weeklyUsd });
+    }
+    this.oracle = options.oracle;
+    this.getDecimals = options.getDecimals;
+    this.stateStore = options.stateStore ?? new InMemoryPolicyStateStore();
+    this.stateKey = options.stateKey ?? this.policyId;
+  }
+
+  async evaluate(intent: Intent, context: PolicyContext): Promise<PolicyDecision> {
+    const outgoing = extractOutgoing(intent);
+    const fee = context.estimatedFee ?? 0n;
+    if (fee > 0n) {
+      outgoing.set(NATIVE_TOKEN, (outgoing.get(NATIVE_TOKEN) ?? 0n) + fee);
+    }
+    if (outgoing.size === 0 || this.windows.length === 0) {
+      return { allowed: true, policyId: this.policyId };
+    }
+
+    let requestedUsd = 0;
+    const breakdown: Record<string, { amount: string; usd: number; source: string }> = {};
+    for (const [token, amount] of outgoing) {
+      try {
+        const mint = token === NATIVE_TOKEN ? WRAPPED_SOL_MINT : token;
+        const [price, decimals] = await Promise.all([
+          this.oracle.getUsdPrice(mint),
+          this.decimalsOf(token),
+        ]);
+        const usd = Number(formatUnits(amount, decimals)) * price.usd;
+        breakdown[token] = { amount: amount.toString(), usd, source: price.source };
+        requestedUsd += usd;
+      } catch (error) {
+        return {
+          allowed: false,
+          policyId: this.policyId,
+          reason: `Cannot price ${token} in USD: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          meta: { token },
+        };
+      }
+    }
+
+    const now = Date.now();
+    const requested = toMicroUsd(requestedUsd);
+    const history = upgrade(await this.stateStore.get<UsdState>(this.stateKey))[context.agentId] ?? [];
+    for (const { label, windowMs, capUsd } of this.windows) {
+      const spent = totalOf(eventsWithin(history, windowMs, now), MICRO_USD);
+      const reserved = this.reservedFor(context.agentId);
+      const projected = spent + reserved + requested;
+
+      if (projected > toMicroUsd(capUsd)) {
+        return {
+          allowed: false,
+          policyId: this.policyId,
+          reason: `USD ${label} budget exceeded: projected ${usd(projected)} > cap ${usd(toMicroUsd(capUsd))}`,
+          meta: {
+            window: label,
+            spentUsd: fromMicroUsd(spent),
+            reservedUsd: fromMicroUsd(reserved),
+            requestedUsd: fromMicroUsd(requested),
+            capUsd,
+            breakdown,
+          },
+        };
+      }
+    }
+
+    this.reservations.set(intent.id, { agentId: context.agentId, at: now, microUsd: requested });
+
+    return { allowed: true, policyId: this.policyId };
+  }
+
+  async commit(intentId: string): Promise<void> {
+    const reservation = this.reservations.get(intentId);
+    if (!reservation) return;
+    this.reservations.delete(intentId);
+
+    // Nothing older than the longest window counts any more
+    const cutoff = Date.now() - WEEK_MS;
+    const event = { at: reservation.at, amounts: { [MICRO_USD]: reservation.microUsd.toString() } };
+    await this.stateStore.update<UsdState>(this.stateKey, (state) =>
+      appendEvent(upgrade(state), [reservation.agentId], event, cutoff),
+    );
+  }
+
+  async release(intentId: string): Promise<void> {
+    this.reservations.delete(intentId);
+  }
+
+  private async decimalsOf(token: string): Promise<number> {
+    if (token === NATIVE_TOKEN) return NATIVE_DECIMALS;
+    if (!this.getDecimals) {
+      throw new Error("mint decimals are unavailable");
+    }
+    return this.getDecimals(token);
+  }
+
+  /** Millionths of a dollar allowed but not yet settled for the agent */
+  private reservedFor(agentId: string): bigint {
+    let total = 0n;
+    for (const reservation of this.reservations.values()) {
+      if (reservation.agentId === agentId) total += reservation.microUsd;
+    }
+    return total;
+  }
+}
+
+/** Read state written before spend was kept as window events */
+function upgrade(state: UsdState | null): WindowState {
+  const upgraded: WindowState = {};
+  for (const [agentId, history] of Object.entries(state ?? {})) {
+    upgraded[agentId] = history.map((spend) =>
+      "amounts" in spend
+        ? spend
+        : { at: spend.at, amounts: { [MICRO_USD]: toMicroUsd(spend.usd).toString() } },
+    );
+  }
+  return upgraded;
+}
+
+function toMicroUsd(value: number): bigint {
+  return BigInt(Math.round(value * 1_000_000));
+}
+
+function fromMicroUsd(value: bigint): number {
+  return Number(value) / 1_000_000;
+}
+
+/** Base units leaving the wallet, keyed by token (minting creates value, it does not spend it) */
+function extractOutgoing(intent: Intent): Map<string, bigint> {
+  const outgoing = new Map<string, bigint>();
+  const add = (mint: string | undefined, amount: bigint) => {
+    const token = tokenKey(mint);
+    outgoing.set(token, (outgoing.get(token) ?? 0n) + amount);
+  };
+
+  switch (intent.type) {
+    case "transfer":
+      add(intent.tokenMint, intent.amount);
+      break;
+    case "swap":
+      add(intent.tokenInMint, intent.amountIn);
+      break;
+    case "batch":
+      for (const item of intent.items) {
+        if (item.type === "transfer") add(item.tokenMint, item.amount);
+      }
+      break;
+  }
+  return outgoing;
+}
+
+function usd(microUsd: bigint): string {
+  return `$${fromMicroUsd(microUsd).toFixed(2)}`;
+}
@@ -0,0 +1,260 @@
+// ---------------------------------------------------------------------------
+// VelocityPolicy — Layered velocity limits over true sliding windows, e.g.
+// 10 tx/minute and 100 tx/hour per agent, 5 SOL/day per wallet and 20 SOL
+// a week across all agents. Every rule is checked against the intents
+// committed within its window, counted per agent, per wallet or globally.
+// Amounts are what the intent spends (as SpendingLimitPolicy counts it),
+// limited per token in human units. Allowed intents are reserved until the
+// Executor settles them; committed intents are kept in the policy state
+// store until they leave the longest window.
+// ---------------------------------------------------------------------------
+
+import type { IPolicy, PolicyContext } from "../../core/interfaces/IPolicy.js";
+import type {
+  IPolicyStateStore,
+  PolicyStateOptions,
+} from "../../core/interfaces/IPolicyStateStore.js";
+import type { Intent } from "../../core/intents/Intent.js";
+import type { PolicyDecision } from "../../core/types/PolicyDecision.js";
+import {
+  NATIVE_DECIMALS,
+  NATIVE_TOKEN,
+  extractSpend,
+  formatUnits,
+  parseUnits,
+  tokenKey,
+} from "./TokenAmounts.js";
+import type { WindowEvent, WindowState } from "./SlidingWindow.js";
+import { appendEvent, eventsWithin, retryAfter, totalOf } from "./SlidingWindow.js";
+import { InMemoryPolicyStateStore } from "./InMemoryPolicyStateStore.js";
+
+/** Named window lengths */
+export const VELOCITY_WINDOWS = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000,
+} as const;
+
+export type VelocityWindow = keyof typeof VELOCITY_WINDOWS;
+
+/** What a rule counts intents per */
+export type VelocityDimension = "agent" | "wallet" | "global";
+
+export interface VelocityRule {
+  per: VelocityDimension;
+  /** A named window, or its length in milliseconds */
+  window: VelocityWindow | number;
+  /** Cap on the number of intents in the window */
+  maxTx?: number;
+  /** Cap on the amount spent in the window, in human units (e.g. "5") */
+  maxAmount?: string;
+  /** Mint address (or "SOL") `maxAmount` applies to; SOL by default */
+  token?: string;
+}
+
+export interface VelocityOptions extends PolicyStateOptions {
+  rules: VelocityRule[];
+  /** Decimals of an SPL mint, used to convert amount caps to base units */
+  getDecimals?: (mint: string) => Promise<number>;
+}
+
+interface ResolvedRule {
+  per: VelocityDimension;
+  windowMs: number;
+  label: string;
+  maxTx?: number;
+  maxAmount?: string;
+  token: string;
+}
+
+interface VelocityReservation {
+  keys: string[];
+  event: WindowEvent;
+}
+
+export class VelocityPolicy implements IPolicy {
+  readonly policyId = "velocity";
+  readonly name = "Velocity Policy";
+
+  private readonly rules: ResolvedRule[];
+  private readonly longestWindowMs: number;
+  private readonly getDecimals?: (mint: string) => Promise<number>;
+  private readonly decimals = new Map<string, number>([[NATIVE_TOKEN, NATIVE_DECIMALS]]);
+  private readonly stateStore: IPolicyStateStore;
+  private readonly stateKey: string;
+  private readonly reservations = new Map<string, VelocityReservation>();
+
+  constructor(options: VelocityOptions) {
+    this.rules = options.rules.map((rule) => {
+      const windowMs = typeof rule.window === "number" ? rule.window : VELOCITY_WINDOWS[rule.window];
+      const token = tokenKey(rule.token === NATIVE_TOKEN ? undefined : rule.token);
+      const cap = rule.maxTx !== undefined
+        ? `${rule.maxTx} tx`
+        : `${rule.maxAmount} ${token}`;
+      const window = typeof rule.window === "number" ? `${rule.window}ms` : rule.window;
+      return {
+        per: rule.per,
+        windowMs,
+        label: `${cap}/${window} ${rule.per === "global" ? "globally" : `per ${rule.per}`}`,
+        maxTx: rule.maxTx,
+        maxAmount: rule.maxAmount,
+        token,
+      };
+    });
+    this.longestWindowMs = Math.max(0, ...this.rules.map((rule) => rule.windowMs));
+    this.getDecimals = options.getDecimals;
+    this.stateStore = options.stateStore ?? new InMemoryPolicyStateStore();
+    this.stateKey = options.stateKey ?? this.policyId;
+  }
+
+  async evaluate(intent: Intent, context: PolicyContext): Promise<PolicyDecision> {
+    const now = Date.now();
+    const spend = extractSpend(intent);
+    const fee = context.estimatedFee ?? 0n;
+    if (fee > 0n) {
+      spend.set(NATIVE_TOKEN, (spend.get(NATIVE_TOKEN) ?? 0n) + fee);
+    }
+
+    const state = (await this.stateStore.get<WindowState>(this.stateKey)) ?? {};
+
+    for (const rule of this.rules) {
+      const key = dimensionKey(rule.per, context);
+      const events = [
+        ...eventsWithin(state[key] ?? [], rule.windowMs, now),
+        ...this.reservedFor(key),
+      ];
+
+      if (rule.maxTx !== undefined) {
+        if (events.length + 1 <= rule.maxTx) continue;
+        return this.denied(rule, now, events, {
+          used: events.length,
+          requested: 1,
+          limit: rule.maxTx,
+          excess: BigInt(events.length + 1 - rule.maxTx),
+          weigh: () => 1n,
+        });
+      }
+
+      const requested = spend.get(rule.token) ?? 0n;
+      if (requested === 0n || rule.maxAmount === undefined) continue;
+
+      let decimals: number;
+      try {
+        decimals = await this.decimalsOf(rule.token);
+      } catch (error) {
+        return {
+          allowed: false,
+          policyId: this.policyId,
+          reason: `Cannot resolve the velocity limit for ${rule.token}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          meta: { rule: rule.label, token: rule.token },
+        };
+      }
+
+      const limit = parseUnits(rule.maxAmount, decimals);
+      const weigh = (event: WindowEvent) => BigInt(event.amounts[rule.token] ?? "0");
+      const used = totalOf(events, rule.token);
+      if (used + requested <= limit) continue;
+
+      return this.denied(rule, now, events, {
+        used: formatUnits(used, decimals),
+        requested: formatUnits(requested, decimals),
+        limit: rule.maxAmount,
+        excess: used + requested - limit,
+        weigh,
+      });
+    }
+
+    const amounts: Record<string, string> = {};
+    for (const [token, amount] of spend) amounts[token] = amount.toString();
+    this.reservations.set(intent.id, {
+      keys: Array.from(new Set(this.rules.map((rule) => dimensionKey(rule.per, context)))),
+      event: { at: now, amounts },
+    });
+
+    return { allowed: true, policyId: this.policyId };
+  }
+
+  async commit(intentId: string): Promise<void> {
+    const reservation = this.reservations.get(intentId);
+    if (!reservation) return;
+    this.reservations.delete(intentId);
+
+    // Intents outside the longest window no longer count for any rule
+    const cutoff = Date.now() - this.longestWindowMs;
+    await this.stateStore.update<WindowState>(this.stateKey, (state) =>
+      appendEvent(state, reservation.keys, reservation.event, cutoff),
+    );
+  }
+
+  async release(intentId: string): Promise<void> {
+    this.reservations.delete(intentId);
+  }
+
+  /**
+   * Deny under a rule, telling the agent when enough of the window's
+   * committed intents will have slid out for this one to fit.
+   */
+  private denied(
+    rule: ResolvedRule,
+    now: number,
+    events: WindowEvent[],
+    usage: {
+      used: number | string;
+      requested: number | string;
+      limit: number | string;
+      /** How much has to slide out of the window */
+      excess: bigint;
+      weigh: (event: WindowEvent) => bigint;
+    },
+  ): PolicyDecision {
+    const retryAfterMs = retryAfter(events, rule.windowMs, now, usage.excess, usage.weigh);
+
+    return {
+      allowed: false,
+      policyId: this.policyId,
+      reason: `Velocity limit exceeded (${rule.label}): ${usage.used} used + ${usage.requested} requested > ${usage.limit}`,
+      meta: {
+        rule: rule.label,
+        per: rule.per,
+        windowMs: rule.windowMs,
+        ...(rule.maxTx === undefined ? { token: rule.token } : {}),
+        used: usage.used,
+        requested: usage.requested,
+        limit: usage.limit,
+        // Unset if the intent would not fit even in an empty window
+        ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+      },
+    };
+  }
+
+  private reservedFor(key: string): WindowEvent[] {
+    return Array.from(this.reservations.values())
+      .filter((reservation) => reservation.keys.includes(key))
+      .map((reservation) => reservation.event);
+  }
+
+  private async decimalsOf(token: string): Promise<number> {
+    const cached = this.decimals.get(token);
+    if (cached !== undefined) return cached;
+    if (!this.getDecimals) {
+      throw new Error("mint decimals are unavailable");
+    }
+    const decimals = await this.getDecimals(token);
+    this.decimals.set(token, decimals);
+    return decimals;
+  }
+}
+
+function dimensionKey(per: VelocityDimension, context: PolicyContext): string {
+  switch (per) {
+    case "agent":
+      return `agent:${context.agentId}`;
+    case "wallet":
+      return `wallet:${context.walletId}`;
+    case "global":
+      return "global";
+  }
+}
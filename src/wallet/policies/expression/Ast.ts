@@ -0,0 +1,81 @@
+// ---------------------------------------------------------------------------
+// Ast — Syntax tree of a policy expression. Every node records the offset
+// it starts at, so type and runtime errors can point into the source.
+// ---------------------------------------------------------------------------
+
+export type BinaryOperator =
+  | "||"
+  | "&&"
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "+"
+  | "-"
+  | "*"
+  | "/";
+
+export type Expr =
+  | LiteralExpr
+  | AmountExpr
+  | PathExpr
+  | ListExpr
+  | UnaryExpr
+  | BinaryExpr
+  | InExpr;
+
+/** A string, number, boolean or null */
+export interface LiteralExpr {
+  readonly kind: "literal";
+  readonly value: string | number | boolean | null;
+  readonly position: number;
+}
+
+/** An amount with a unit, e.g. `1.5 SOL`, already in base units */
+export interface AmountExpr {
+  readonly kind: "amount";
+  readonly value: bigint;
+  /** Lamports (`SOL`, `lamports`), or base units of any token (`units`) */
+  readonly unit: "lamports" | "units";
+  readonly position: number;
+}
+
+/** A variable, e.g. `intent.amount` */
+export interface PathExpr {
+  readonly kind: "path";
+  readonly path: readonly string[];
+  readonly position: number;
+}
+
+/** A list of literals, only valid on the right of `in` */
+export interface ListExpr {
+  readonly kind: "list";
+  readonly items: readonly Expr[];
+  readonly position: number;
+}
+
+export interface UnaryExpr {
+  readonly kind: "unary";
+  readonly operator: "!" | "-";
+  readonly operand: Expr;
+  readonly position: number;
+}
+
+export interface BinaryExpr {
+  readonly kind: "binary";
+  readonly operator: BinaryOperator;
+  readonly left: Expr;
+  readonly right: Expr;
+  readonly position: number;
+}
+
+/** `value in [a, b]`, or `value not in [a, b]` */
+export interface InExpr {
+  readonly kind: "in";
+  readonly value: Expr;
+  readonly list: ListExpr;
+  readonly negated: boolean;
+  readonly position: number;
+}
@@ -0,0 +1,95 @@
+// ---------------------------------------------------------------------------
+// Evaluator — Evaluates a type-checked expression against a scope. Pure:
+// it reads only the scope it is given, so a rule can be exercised with a
+// hand-built scope. `&&` and `||` short-circuit, which is what lets a
+// check on intent.type guard the fields that follow it.
+// ---------------------------------------------------------------------------
+
+import type { Expr } from "./Ast.js";
+import type { ExpressionScope, Value } from "./Scope.js";
+import { ExpressionError } from "../../../core/errors/ExpressionError.js";
+
+/** Evaluate an expression; throws ExpressionError on a runtime error */
+export function evaluate(expr: Expr, scope: ExpressionScope): Value {
+  switch (expr.kind) {
+    case "literal":
+    case "amount":
+      return expr.value;
+    case "path": {
+      const [namespace = "", field = ""] = expr.path;
+      return scope[namespace]?.[field] ?? null;
+    }
+    case "list":
+      throw runtimeError("A list can only follow \"in\"", expr);
+    case "in": {
+      const value = evaluate(expr.value, scope);
+      const found = expr.list.items.some((item) => evaluate(item, scope) === value);
+      return found !== expr.negated;
+    }
+    case "unary": {
+      const operand = evaluate(expr.operand, scope);
+      return expr.operator === "!" ? !operand : -(number(operand, expr.operand));
+    }
+    case "binary":
+      break;
+  }
+
+  switch (expr.operator) {
+    case "&&":
+      return evaluate(expr.left, scope) === true && evaluate(expr.right, scope) === true;
+    case "||":
+      return evaluate(expr.left, scope) === true || evaluate(expr.right, scope) === true;
+  }
+
+  const left = evaluate(expr.left, scope);
+  const right = evaluate(expr.right, scope);
+  switch (expr.operator) {
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case "<":
+      return ordered(left, expr.left) < ordered(right, expr.right);
+    case "<=":
+      return ordered(left, expr.left) <= ordered(right, expr.right);
+    case ">":
+      return ordered(left, expr.left) > ordered(right, expr.right);
+    case ">=":
+      return ordered(left, expr.left) >= ordered(right, expr.right);
+    case "+":
+      return typeof left === "bigint" && typeof right === "bigint"
+        ? left + right
+        : number(left, expr.left) + number(right, expr.right);
+    case "-":
+      return typeof left === "bigint" && typeof right === "bigint"
+        ? left - right
+        : number(left, expr.left) - number(right, expr.right);
+    case "*":
+      return number(left, expr.left) * number(right, expr.right);
+    case "/": {
+      const divisor = number(right, expr.right);
+      if (divisor === 0) {
+        throw runtimeError("Division by zero", expr.right);
+      }
+      return number(left, expr.left) / divisor;
+    }
+  }
+}
+
+function number(value: Value, expr: Expr): number {
+  if (typeof value !== "number") {
+    throw runtimeError(`Expected a number, got ${value === null ? "null" : typeof value}`, expr);
+  }
+  return value;
+}
+
+function ordered(value: Value, expr: Expr): number | bigint {
+  if (typeof value !== "number" && typeof value !== "bigint") {
+    throw runtimeError(`Expected a number or amount, got ${value === null ? "null" : typeof value}`, expr);
+  }
+  return value;
+}
+
+function runtimeError(message: string, expr: Expr): ExpressionError {
+  return new ExpressionError("EXPRESSION_RUNTIME", message, expr.position);
+}
@@ -0,0 +1,30 @@
+// ---------------------------------------------------------------------------
+// Expression — Entry point of the policy expression language: compile
+// source once (parse and type-check), then test it against a scope per
+// evaluation. Expressions can only read the variables in Scope and have no
+// calls, loops or side effects, so a rule from config cannot reach beyond
+// the intent it is judging.
+// ---------------------------------------------------------------------------
+
+import type { Expr } from "./Ast.js";
+import type { ExpressionScope } from "./Scope.js";
+import { parseExpression } from "./Parser.js";
+import { checkCondition } from "./TypeChecker.js";
+import { evaluate } from "./Evaluator.js";
+
+export interface CompiledExpression {
+  readonly source: string;
+  readonly ast: Expr;
+}
+
+/** Parse and type-check a condition; throws ExpressionError */
+export function compileExpression(source: string): CompiledExpression {
+  const ast = parseExpression(source);
+  checkCondition(ast);
+  return { source, ast };
+}
+
+/** Whether the condition holds; throws ExpressionError on a runtime error */
+export function testExpression(expression: CompiledExpression, scope: ExpressionScope): boolean {
+  return evaluate(expression.ast, scope) === true;
+}
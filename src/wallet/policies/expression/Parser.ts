@@ -0,0 +1,366 @@
+// ---------------------------------------------------------------------------
+// Parser — Turns policy expression source into a syntax tree.
+//
+//   expression := or
+//   or         := and ("||" and)*
+//   and        := equality ("&&" equality)*
+//   equality   := comparison (("==" | "!=") comparison)*
+//   comparison := additive (("<" | "<=" | ">" | ">=") additive
+//                          | ["not"] "in" list)?
+//   additive   := term (("+" | "-") term)*
+//   term       := unary (("*" | "/") unary)*
+//   unary      := ("!" | "-") unary | primary
+//   primary    := number [unit] | string | "true" | "false" | "null"
+//               | path | list | "(" expression ")"
+//   path       := identifier ("." identifier)*
+//   list       := "[" [expression ("," expression)*] "]"
+//   unit       := "SOL" | "lamports" | "units"
+//
+// Numbers may use "_" as a separator. `1.5 SOL` is an amount in lamports;
+// `lamports` and `units` (base units of any token) take whole numbers.
+// Lamports and token units are distinct types; see TypeChecker.
+// ---------------------------------------------------------------------------
+
+import type { BinaryOperator, Expr, ListExpr } from "./Ast.js";
+import { ExpressionError } from "../../../core/errors/ExpressionError.js";
+import { NATIVE_DECIMALS, parseUnits } from "../TokenAmounts.js";
+
+/** Longest source accepted, in characters */
+export const MAX_EXPRESSION_LENGTH = 4_096;
+/** Deepest nesting accepted, so evaluation cannot exhaust the stack */
+const MAX_DEPTH = 64;
+
+const KEYWORDS = new Set(["true", "false", "null", "in", "not"]);
+const UNITS = new Set(["SOL", "lamports", "units"]);
+const OPERATORS = [
+  "||", "&&", "==", "!=", "<=", ">=", "<", ">", "!", "+", "-", "*", "/", "(", ")", "[", "]", ",", ".",
+];
+
+interface Token {
+  type: "number" | "string" | "identifier" | "operator" | "end";
+  value: string;
+  position: number;
+}
+
+/** Parse an expression; throws ExpressionError on a syntax error */
+export function parseExpression(source: string): Expr {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(
+      "EXPRESSION_SYNTAX",
+      `Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`,
+      MAX_EXPRESSION_LENGTH,
+    );
+  }
+  return new ExpressionParser(tokenize(source)).parse();
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source.charAt(index);
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    if (/\d/.test(char)) {
+      const match = /^\d[\d_]*(\.\d[\d_]*)?/.exec(source.slice(index));
+      const raw = match?.[0] ?? char;
+      if (raw.endsWith("_") || raw.includes("_.") || raw.includes("._")) {
+        throw new ExpressionError("EXPRESSION_SYNTAX", `Malformed number "${raw}"`, start);
+      }
+      tokens.push({ type: "number", value: raw.replace(/_/g, ""), position: start });
+      index += raw.length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const raw = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index))?.[0] ?? char;
+      tokens.push({ type: "identifier", value: raw, position: start });
+      index += raw.length;
+      continue;
+    }
+
+    if (char === "\"" || char === "'") {
+      let value = "";
+      index++;
+      for (;;) {
+        if (index >= source.length) {
+          throw new ExpressionError("EXPRESSION_SYNTAX", "Unterminated string", start);
+        }
+        const next = source.charAt(index++);
+        if (next === char) break;
+        if (next === "\\") {
+          const escaped = source.charAt(index++);
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+          continue;
+        }
+        value += next;
+      }
+      tokens.push({ type: "string", value, position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find((candidate) => source.startsWith(candidate, index));
+    if (!operator) {
+      throw new ExpressionError("EXPRESSION_SYNTAX", `Unexpected character "${char}"`, start);
+    }
+    tokens.push({ type: "operator", value: operator, position: start });
+    index += operator.length;
+  }
+
+  tokens.push({ type: "end", value: "", position: source.length });
+  return tokens;
+}
+
+class ExpressionParser {
+  private readonly tokens: Token[];
+  private index = 0;
+  private depth = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): Expr {
+    const expr = this.expression();
+    const next = this.peek();
+    if (next.type !== "end") {
+      throw this.unexpected(next);
+    }
+    return expr;
+  }
+
+  private expression(): Expr {
+    if (++this.depth > MAX_DEPTH) {
+      throw new ExpressionError(
+        "EXPRESSION_SYNTAX",
+        `Expression is nested deeper than ${MAX_DEPTH} levels`,
+        this.peek().position,
+      );
+    }
+    const expr = this.binary(0);
+    this.depth--;
+    return expr;
+  }
+
+  /** Binary operators by precedence, loosest first */
+  private static readonly LEVELS: readonly (readonly BinaryOperator[])[] = [
+    ["||"],
+    ["&&"],
+    ["==", "!="],
+    ["<", "<=", ">", ">="],
+    ["+", "-"],
+    ["*", "/"],
+  ];
+  private static readonly COMPARISON_LEVEL = 3;
+
+  private binary(level: number): Expr {
+    if (level >= ExpressionParser.LEVELS.length) {
+      return this.unary();
+    }
+    const operators = ExpressionParser.LEVELS[level] ?? [];
+    let left = this.binary(level + 1);
+
+    if (level === ExpressionParser.COMPARISON_LEVEL) {
+      // Comparisons do not chain: `a < b < c` is an error
+      const next = this.peek();
+      if (next.type === "operator" && operators.includes(next.value as BinaryOperator)) {
+        this.index++;
+        const right = this.binary(level + 1);
+        left = { kind: "binary", operator: next.value as BinaryOperator, left, right, position: next.position };
+      } else if (this.isKeyword(next, "in") || this.isKeyword(next, "not")) {
+        this.index++;
+        const negated = next.value === "not";
+        if (negated) this.expectKeyword("in");
+        const list = this.list();
+        left = { kind: "in", value: left, list, negated, position: next.position };
+      }
+      const after = this.peek();
+      if (after.type === "operator" && operators.includes(after.value as BinaryOperator)) {
+        throw new ExpressionError(
+          "EXPRESSION_SYNTAX",
+          "Comparisons cannot be chained; join them with &&",
+          after.position,
+        );
+      }
+      return left;
+    }
+
+    for (;;) {
+      const next = this.peek();
+      if (next.type !== "operator" || !operators.includes(next.value as BinaryOperator)) {
+        return left;
+      }
+      this.index++;
+      const right = this.binary(level + 1);
+      left = { kind: "binary", operator: next.value as BinaryOperator, left, right, position: next.position };
+    }
+  }
+
+  private unary(): Expr {
+    const next = this.peek();
+    if (next.type === "operator" && (next.value === "!" || next.value === "-")) {
+      this.index++;
+      if (++this.depth > MAX_DEPTH) {
+        throw new ExpressionError(
+          "EXPRESSION_SYNTAX",
+          `Expression is nested deeper than ${MAX_DEPTH} levels`,
+          next.position,
+        );
+      }
+      const operand = this.unary();
+      this.depth--;
+      return { kind: "unary", operator: next.value, operand, position: next.position };
+    }
+    return this.primary();
+  }
+
+  private primary(): Expr {
+    const token = this.next();
+    switch (token.type) {
+      case "number":
+        return this.number(token);
+      case "string":
+        return { kind: "literal", value: token.value, position: token.position };
+      case "identifier":
+        return this.identifier(token);
+      case "operator":
+        if (token.value === "(") {
+          const expr = this.expression();
+          this.expectOperator(")");
+          return expr;
+        }
+        if (token.value === "[") {
+          this.index--;
+          return this.list();
+        }
+        throw this.unexpected(token);
+      case "end":
+        throw this.unexpected(token);
+    }
+  }
+
+  private number(token: Token): Expr {
+    const unit = this.peek();
+    if (unit.type !== "identifier" || !UNITS.has(unit.value)) {
+      return { kind: "literal", value: Number(token.value), position: token.position };
+    }
+
+    this.index++;
+    if (unit.value !== "SOL" && token.value.includes(".")) {
+      throw new ExpressionError(
+        "EXPRESSION_SYNTAX",
+        `Amounts in ${unit.value} must be whole numbers`,
+        token.position,
+      );
+    }
+    try {
+      const value = unit.value === "SOL"
+        ? parseUnits(token.value, NATIVE_DECIMALS)
+        : BigInt(token.value);
+      const kind = unit.value === "units" ? "units" : "lamports";
+      return { kind: "amount", value, unit: kind, position: token.position };
+    } catch (error) {
+      throw new ExpressionError(
+        "EXPRESSION_SYNTAX",
+        error instanceof Error ? error.message : String(error),
+        token.position,
+      );
+    }
+  }
+
+  private identifier(token: Token): Expr {
+    switch (token.value) {
+      case "true":
+      case "false":
+        return { kind: "literal", value: token.value === "true", position: token.position };
+      case "null":
+        return { kind: "literal", value: null, position: token.position };
+    }
+    if (KEYWORDS.has(token.value)) {
+      throw this.unexpected(token);
+    }
+
+    const path = [token.value];
+    while (this.peek().type === "operator" && this.peek().value === ".") {
+      this.index++;
+      const segment = this.next();
+      if (segment.type !== "identifier") {
+        throw this.unexpected(segment);
+      }
+      path.push(segment.value);
+    }
+    return { kind: "path", path, position: token.position };
+  }
+
+  private list(): ListExpr {
+    const open = this.expectOperator("[");
+    const items: Expr[] = [];
+    if (!(this.peek().type === "operator" && this.peek().value === "]")) {
+      for (;;) {
+        items.push(this.expression());
+        if (this.peek().type === "operator" && this.peek().value === ",") {
+          this.index++;
+          continue;
+        }
+        break;
+      }
+    }
+    this.expectOperator("]");
+    return { kind: "list", items, position: open.position };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index] ?? this.tokens[this.tokens.length - 1] ?? {
+      type: "end",
+      value: "",
+      position: 0,
+    };
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== "end") this.index++;
+    return token;
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === "identifier" && token.value === keyword;
+  }
+
+  private expectKeyword(keyword: string): Token {
+    const token = this.next();
+    if (!this.isKeyword(token, keyword)) {
+      throw new ExpressionError(
+        "EXPRESSION_SYNTAX",
+        `Expected "${keyword}" but found ${describe(token)}`,
+        token.position,
+      );
+    }
+    return token;
+  }
+
+  private expectOperator(operator: string): Token {
+    const token = this.next();
+    if (token.type !== "operator" || token.value !== operator) {
+      throw new ExpressionError(
+        "EXPRESSION_SYNTAX",
+        `Expected "${operator}" but found ${describe(token)}`,
+        token.position,
+      );
+    }
+    return token;
+  }
+
+  private unexpected(token: Token): ExpressionError {
+    return new ExpressionError("EXPRESSION_SYNTAX", `Unexpected ${describe(token)}`, token.position);
+  }
+}
+
+function describe(token: Token): string {
+  return token.type === "end" ? "end of expression" : `"${token.value}"`;
+}
@@ -0,0 +1,184 @@
+// ---------------------------------------------------------------------------
+// Scope — The variables a policy expression can read, and their types.
+// `intent.*` fields are derived from the Intent schemas, so they follow the
+// schemas as they evolve; the other namespaces describe the evaluation
+// context. Amounts are typed by unit: lamports, or base units of a token
+// whose mint the type does not know. buildScope gathers the values for one
+// evaluation.
+// ---------------------------------------------------------------------------
+
+import { z } from "zod";
+
+import type { PolicyContext } from "../../../core/interfaces/IPolicy.js";
+import type { Intent } from "../../../core/intents/Intent.js";
+import { IntentSchema } from "../../../core/intents/Intent.js";
+import { localTime } from "../LocalTime.js";
+import { NATIVE_TOKEN, extractSpend } from "../TokenAmounts.js";
+
+export type ValueType = "boolean" | "string" | "number" | "lamports" | "units" | "null";
+
+/** A runtime value; amounts are bigints in base units */
+export type Value = boolean | string | number | bigint | null;
+
+/** The type of a variable or sub-expression */
+export interface ExprType {
+  readonly base: ValueType;
+  /** The value may be null, e.g. an optional field */
+  readonly nullable: boolean;
+}
+
+/** Values for one evaluation, keyed by namespace then field */
+export type ExpressionScope = Record<string, Record<string, Value>>;
+
+/** Every intent type, e.g. "transfer" */
+export const INTENT_TYPES: readonly string[] = IntentSchema.options.map(
+  (schema) => schema.shape.type.value,
+);
+
+/**
+ * Each usable intent field, by intent type; fields that are not a plain
+ * value on any intent type (batch items, the priority fee) are listed as
+ * null. Intent amounts are token units until narrowed, see NATIVE_AMOUNTS.
+ */
+export const INTENT_FIELDS: ReadonlyMap<string, ReadonlyMap<string, ExprType> | null> =
+  deriveIntentFields();
+
+/**
+ * Intent amount fields that are in lamports once `intent.tokenMint == null`
+ * holds, by intent type: a transfer without a mint moves native SOL
+ */
+export const NATIVE_AMOUNTS: Readonly<Record<string, readonly string[]>> = {
+  transfer: ["amount"],
+};
+
+/** Namespaces other than `intent`, with their fields */
+export const CONTEXT_VARIABLES: Readonly<Record<string, Readonly<Record<string, ExprType>>>> = {
+  recipient: {
+    /** The recipient, if the intent pays or mints to exactly one */
+    address: { base: "string", nullable: true },
+    /** Every recipient is a managed wallet or a known recipient */
+    known: { base: "boolean", nullable: false },
+    /** Every recipient is a managed wallet */
+    managed: { base: "boolean", nullable: false },
+    /** Distinct recipients the intent pays or mints to */
+    count: { base: "number", nullable: false },
+  },
+  context: {
+    agentId: { base: "string", nullable: false },
+    walletId: { base: "string", nullable: false },
+    /** Wallet balance in lamports */
+    balance: { base: "lamports", nullable: false },
+    /** Estimated network fee in lamports; 0 if unknown */
+    estimatedFee: { base: "lamports", nullable: false },
+  },
+  spend: {
+    /** Lamports the intent spends, as the spending limit counts them, fees aside */
+    sol: { base: "lamports", nullable: false },
+  },
+  time: {
+    /** Local wall-clock time in the policy's timezone */
+    hour: { base: "number", nullable: false },
+    minute: { base: "number", nullable: false },
+    /** "mon" … "sun" */
+    weekday: { base: "string", nullable: false },
+    /** YYYY-MM-DD */
+    date: { base: "string", nullable: false },
+  },
+};
+
+export interface ScopeInputs {
+  intent: Intent;
+  context: PolicyContext;
+  /** Addresses the intent pays or mints to */
+  recipients: string[];
+  /** Whether a recipient counts as known, and as managed */
+  isKnown: (address: string) => boolean;
+  isManaged: (address: string) => boolean;
+  timeZone: string;
+}
+
+/** Gather the values an expression can read for one evaluation */
+export function buildScope(inputs: ScopeInputs): ExpressionScope {
+  const { intent, context, recipients } = inputs;
+  const intentValues: Record<string, Value> = {};
+  for (const [field, value] of Object.entries(intent)) {
+    if (
+      typeof value === "string" ||
+      typeof value === "number" ||
+      typeof value === "bigint" ||
+      typeof value === "boolean"
+    ) {
+      intentValues[field] = value;
+    }
+  }
+
+  const time = localTime(new Date(context.evaluatedAt), inputs.timeZone);
+  return {
+    intent: intentValues,
+    recipient: {
+      address: recipients.length === 1 ? recipients[0] ?? null : null,
+      known: recipients.every(inputs.isKnown),
+      managed: recipients.every(inputs.isManaged),
+      count: recipients.length,
+    },
+    context: {
+      agentId: context.agentId,
+      walletId: context.walletId,
+      balance: context.balance,
+      estimatedFee: context.estimatedFee ?? 0n,
+    },
+    spend: {
+      sol: extractSpend(intent).get(NATIVE_TOKEN) ?? 0n,
+    },
+    time: {
+      hour: Math.floor(time.minutes / 60),
+      minute: time.minutes % 60,
+      weekday: time.weekday,
+      date: time.date,
+    },
+  };
+}
+
+function deriveIntentFields(): Map<string, Map<string, ExprType> | null> {
+  const fields = new Map<string, Map<string, ExprType> | null>();
+  for (const schema of IntentSchema.options) {
+    const intentType = schema.shape.type.value;
+    for (const [field, fieldSchema] of Object.entries<z.ZodTypeAny>(schema.shape)) {
+      const type = valueType(fieldSchema);
+      const byIntent = fields.get(field);
+      if (!type) {
+        // A value on another intent type stays usable there
+        if (byIntent === undefined) fields.set(field, null);
+        continue;
+      }
+      const merged = byIntent ?? new Map<string, ExprType>();
+      merged.set(intentType, type);
+      fields.set(field, merged);
+    }
+  }
+  return fields;
+}
+
+/** The expression type of a schema field, or null if it is not a plain value */
+function valueType(schema: z.ZodTypeAny, nullable = false): ExprType | null {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return valueType(schema.unwrap(), true);
+  }
+  if (schema instanceof z.ZodDefault) {
+    return valueType(schema.removeDefault(), nullable);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return valueType(schema.innerType(), nullable);
+  }
+  if (schema instanceof z.ZodString || schema instanceof z.ZodEnum) {
+    return { base: "string", nullable };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    const literal: unknown = schema.value;
+    return typeof literal === "string" ? { base: "string", nullable } : null;
+  }
+  if (schema instanceof z.ZodBigInt) return { base: "units", nullable };
+  if (schema instanceof z.ZodNumber) return { base: "number", nullable };
+  if (schema instanceof z.ZodBoolean) return { base: "boolean", nullable };
+  return null;
+}
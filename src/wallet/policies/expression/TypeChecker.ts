@@ -0,0 +1,308 @@
+// ---------------------------------------------------------------------------
+// TypeChecker — Checks a parsed expression against the variables in Scope
+// before it is ever evaluated. Intent fields only exist on some intent
+// types, so a condition on `intent.type` narrows the types the rest of an
+// `&&` chain is checked against: `intent.type == "transfer" && intent.amount
+// > 100 units` is valid, while `intent.amount > 100 units` alone is not,
+// because swaps have no amount. Intent amounts are in the base units of a
+// token the rule cannot see, so they only compare with lamports once
+// `intent.tokenMint == null` shows they are native SOL. Rules must evaluate
+// to a boolean.
+// ---------------------------------------------------------------------------
+
+import type { Expr, InExpr, PathExpr } from "./Ast.js";
+import type { ExprType, ValueType } from "./Scope.js";
+import { ExpressionError } from "../../../core/errors/ExpressionError.js";
+import { CONTEXT_VARIABLES, INTENT_FIELDS, INTENT_TYPES, NATIVE_AMOUNTS } from "./Scope.js";
+
+const BOOLEAN: ExprType = { base: "boolean", nullable: false };
+
+/** What the conditions already passed in an `&&` chain establish */
+interface Narrowing {
+  /** Intent types the intent may still be */
+  readonly intentTypes: ReadonlySet<string>;
+  /** `intent.tokenMint == null` holds, so NATIVE_AMOUNTS are in lamports */
+  readonly native: boolean;
+}
+
+/** Check that an expression is a well-typed condition; throws ExpressionError */
+export function checkCondition(expr: Expr): void {
+  const type = check(expr, { intentTypes: new Set(INTENT_TYPES), native: false });
+  if (type.base !== "boolean" || type.nullable) {
+    throw typeError(`A rule must be a condition, but this is ${describe(type)}`, expr);
+  }
+}
+
+/** The type of an expression, given what the conditions before it establish */
+function check(expr: Expr, facts: Narrowing): ExprType {
+  switch (expr.kind) {
+    case "literal":
+      return {
+        base: expr.value === null
+          ? "null"
+          : (typeof expr.value as "string" | "number" | "boolean"),
+        nullable: expr.value === null,
+      };
+    case "amount":
+      return { base: expr.unit, nullable: false };
+    case "path":
+      return checkPath(expr, facts);
+    case "list":
+      throw typeError("A list can only follow \"in\"", expr);
+    case "in":
+      return checkIn(expr, facts);
+    case "unary": {
+      const operand = check(expr.operand, facts);
+      if (expr.operator === "!") {
+        expect(operand, "boolean", "\"!\" applies to conditions", expr.operand);
+        return BOOLEAN;
+      }
+      expect(operand, "number", "\"-\" applies to numbers", expr.operand);
+      return operand;
+    }
+    case "binary":
+      break;
+  }
+
+  if (expr.operator === "&&" || expr.operator === "||") {
+    const left = check(expr.left, facts);
+    expect(left, "boolean", `"${expr.operator}" joins conditions`, expr.left);
+    // The right side of && only runs when the left side holds
+    const narrowed = expr.operator === "&&" ? narrow(expr.left, facts) : facts;
+    const right = check(expr.right, narrowed);
+    expect(right, "boolean", `"${expr.operator}" joins conditions`, expr.right);
+    return BOOLEAN;
+  }
+
+  const left = check(expr.left, facts);
+  const right = check(expr.right, facts);
+
+  switch (expr.operator) {
+    case "==":
+    case "!=":
+      if (left.base !== "null" && right.base !== "null" && left.base !== right.base) {
+        throw typeError(`Cannot compare ${describe(left)} with ${describe(right)}${hint(left, right)}`, expr);
+      }
+      checkIntentTypeLiteral(expr.left, expr.right);
+      checkIntentTypeLiteral(expr.right, expr.left);
+      return BOOLEAN;
+    case "<":
+    case "<=":
+    case ">":
+    case ">=":
+      if (!(left.base === right.base && isQuantity(left.base))) {
+        throw typeError(
+          `"${expr.operator}" compares two numbers or two amounts of the same unit, not ${describe(left)} and ${describe(right)}${hint(left, right)}`,
+          expr,
+        );
+      }
+      present(left, expr.left, facts);
+      present(right, expr.right, facts);
+      return BOOLEAN;
+    case "+":
+    case "-":
+      if (!(left.base === right.base && isQuantity(left.base))) {
+        throw typeError(
+          `"${expr.operator}" applies to two numbers or two amounts of the same unit, not ${describe(left)} and ${describe(right)}${hint(left, right)}`,
+          expr,
+        );
+      }
+      present(left, expr.left, facts);
+      present(right, expr.right, facts);
+      return { base: left.base, nullable: false };
+    case "*":
+    case "/":
+      expect(left, "number", `"${expr.operator}" applies to numbers`, expr.left);
+      expect(right, "number", `"${expr.operator}" applies to numbers`, expr.right);
+      return { base: "number", nullable: false };
+  }
+}
+
+function checkPath(expr: PathExpr, facts: Narrowing): ExprType {
+  const [namespace, field, ...rest] = expr.path;
+  const name = expr.path.join(".");
+  if (namespace === undefined || field === undefined || rest.length > 0) {
+    throw typeError(`Unknown variable "${name}"; variables are namespace.field`, expr);
+  }
+
+  if (namespace !== "intent") {
+    const variables = CONTEXT_VARIABLES[namespace];
+    if (!variables) {
+      throw typeError(
+        `Unknown namespace "${namespace}"; expected one of: intent, ${Object.keys(CONTEXT_VARIABLES).join(", ")}`,
+        expr,
+      );
+    }
+    const type = variables[field];
+    if (!type) {
+      throw typeError(
+        `Unknown variable "${name}"; ${namespace} has: ${Object.keys(variables).join(", ")}`,
+        expr,
+      );
+    }
+    return type;
+  }
+
+  const byIntent = INTENT_FIELDS.get(field);
+  if (byIntent === undefined) {
+    throw typeError(`Intents have no field "${field}"`, expr);
+  }
+  if (byIntent === null) {
+    throw typeError(`"${name}" is not a value expressions can use`, expr);
+  }
+
+  let base: ValueType | undefined;
+  let nullable = false;
+  for (const intentType of facts.intentTypes) {
+    const type = byIntent.get(intentType);
+    if (!type) {
+      nullable = true; // Missing on this intent type
+      continue;
+    }
+    const native = facts.native && NATIVE_AMOUNTS[intentType]?.includes(field) === true;
+    const fieldBase = native ? "lamports" : type.base;
+    if (base !== undefined && base !== fieldBase) {
+      throw typeError(`"${name}" has different types across intent types; check intent.type first`, expr);
+    }
+    base = fieldBase;
+    nullable ||= type.nullable;
+  }
+  if (base === undefined) {
+    throw typeError(
+      `"${name}" does not exist on ${Array.from(facts.intentTypes).join(", ")} intents`,
+      expr,
+    );
+  }
+  return { base, nullable };
+}
+
+function checkIn(expr: InExpr, facts: Narrowing): ExprType {
+  const value = check(expr.value, facts);
+  for (const item of expr.list.items) {
+    const type = check(item, facts);
+    if (type.base !== value.base) {
+      throw typeError(`List items must be ${describe(value)}, not ${describe(type)}`, item);
+    }
+    checkIntentTypeLiteral(expr.value, item);
+  }
+  return BOOLEAN;
+}
+
+/** What holds once a condition does */
+function narrow(expr: Expr, facts: Narrowing): Narrowing {
+  if (expr.kind === "binary" && expr.operator === "&&") {
+    return narrow(expr.right, narrow(expr.left, facts));
+  }
+  if (expr.kind === "binary" && expr.operator === "||") {
+    const left = narrow(expr.left, facts);
+    const right = narrow(expr.right, facts);
+    return {
+      intentTypes: new Set([...left.intentTypes, ...right.intentTypes]),
+      native: left.native && right.native,
+    };
+  }
+
+  if (expr.kind === "binary" && expr.operator === "==" && isNullCheckOf(expr, "tokenMint")) {
+    return { ...facts, native: true };
+  }
+
+  let named: string[] | undefined;
+  let negated = false;
+  if (expr.kind === "binary" && (expr.operator === "==" || expr.operator === "!=")) {
+    const literal = isIntentField(expr.left, "type")
+      ? expr.right
+      : isIntentField(expr.right, "type") ? expr.left : null;
+    if (literal?.kind === "literal" && typeof literal.value === "string") {
+      named = [literal.value];
+      negated = expr.operator === "!=";
+    }
+  } else if (expr.kind === "in" && isIntentField(expr.value, "type")) {
+    named = expr.list.items.flatMap((item) =>
+      item.kind === "literal" && typeof item.value === "string" ? [item.value] : [],
+    );
+    negated = expr.negated;
+  }
+  if (!named) return facts;
+
+  const names = new Set(named);
+  return {
+    ...facts,
+    intentTypes: new Set(Array.from(facts.intentTypes).filter((type) => names.has(type) !== negated)),
+  };
+}
+
+function isIntentField(expr: Expr, field: string): boolean {
+  return expr.kind === "path" && expr.path.length === 2 && expr.path[0] === "intent" && expr.path[1] === field;
+}
+
+/** `intent.<field> == null`, either way round */
+function isNullCheckOf(expr: Expr & { kind: "binary" }, field: string): boolean {
+  const isNull = (side: Expr) => side.kind === "literal" && side.value === null;
+  return (isIntentField(expr.left, field) && isNull(expr.right)) ||
+    (isIntentField(expr.right, field) && isNull(expr.left));
+}
+
+/** Catch typos such as `intent.type == "tranfser"` */
+function checkIntentTypeLiteral(subject: Expr, literal: Expr): void {
+  if (!isIntentField(subject, "type") || literal.kind !== "literal" || typeof literal.value !== "string") {
+    return;
+  }
+  if (!INTENT_TYPES.includes(literal.value)) {
+    throw typeError(
+      `Unknown intent type "${literal.value}"; expected one of: ${INTENT_TYPES.join(", ")}`,
+      literal,
+    );
+  }
+}
+
+function isQuantity(base: ValueType): boolean {
+  return base === "number" || base === "lamports" || base === "units";
+}
+
+function expect(type: ExprType, base: ValueType, message: string, expr: Expr): void {
+  if (type.base !== base || type.nullable) {
+    throw typeError(`${message}, not ${describe(type)}`, expr);
+  }
+}
+
+/** Orderings and arithmetic need a value, not a field that may be missing */
+function present(type: ExprType, expr: Expr, facts: Narrowing): void {
+  if (!type.nullable) return;
+  const missing = expr.kind === "path" && expr.path[0] === "intent"
+    ? Array.from(facts.intentTypes).filter((intentType) => !INTENT_FIELDS.get(expr.path[1] ?? "")?.get(intentType))
+    : [];
+  throw typeError(
+    missing.length > 0
+      ? `"${expr.kind === "path" ? expr.path.join(".") : "value"}" does not exist on ${missing.join(", ")} intents; check intent.type first`
+      : "This value may be null; compare it with == or != instead",
+    expr,
+  );
+}
+
+function hint(left: ExprType, right: ExprType): string {
+  const bases = new Set([left.base, right.base]);
+  if (bases.has("number") && (bases.has("lamports") || bases.has("units"))) {
+    return "; write amounts with a unit, e.g. 1 SOL, 5000 lamports or 100 units";
+  }
+  if (bases.has("lamports") && bases.has("units")) {
+    return "; intent amounts are token units unless intent.tokenMint == null is checked first, " +
+      "and spend.sol holds the lamports an intent spends";
+  }
+  return "";
+}
+
+function describe(type: ExprType): string {
+  const names: Record<ValueType, string> = {
+    boolean: "a condition",
+    string: "a string",
+    number: "a number",
+    lamports: "a SOL amount",
+    units: "a token amount",
+    null: "null",
+  };
+  return type.nullable && type.base !== "null" ? `${names[type.base]} or null` : names[type.base];
+}
+
+function typeError(message: string, expr: Expr): ExpressionError {
+  return new ExpressionError("EXPRESSION_TYPE", message, expr.position);
+}
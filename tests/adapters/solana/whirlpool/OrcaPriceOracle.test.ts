@@ -0,0 +1,70 @@
+import { PublicKey } from "@solana/web3.js";
+import type { AccountInfo } from "@solana/web3.js";
+import { describe, expect, it } from "vitest";
+
+import { OrcaPriceOracle } from "../../../../src/adapters/solana/whirlpool/OrcaPriceOracle.js";
+import { UsdBudgetPolicy } from "../../../../src/wallet/policies/UsdBudgetPolicy.js";
+import { WRAPPED_SOL_MINT } from "../../../../src/wallet/policies/TokenAmounts.js";
+import { RECIPIENT, USDC, context, intent } from "../../../fixtures.js";
+
+/** The SOL/USDC pool OrcaPoolResolver returns on devnet */
+const DEVNET_SOL_USDC = "3KBZiL2g8C7tiJ32hTv5v3KM7aK9htpqTw4cTXz1HvPt";
+const DECIMALS: Record<string, number> = { [WRAPPED_SOL_MINT]: 9, [USDC]: 6 };
+
+/** Whirlpool account data for a pool pricing one whole token A at `usd` whole token B */
+function whirlpoolData(mintA: string, mintB: string, usd: number): Buffer {
+  const data = Buffer.alloc(653);
+  // Base units of B per base unit of A, as a Q64.64 square root
+  const basePrice = usd * 10 ** ((DECIMALS[mintB] ?? 0) - (DECIMALS[mintA] ?? 0));
+  const sqrtPrice = BigInt(Math.round(Math.sqrt(basePrice) * 2 ** 64));
+  data.writeBigUInt64LE(sqrtPrice & ((1n << 64n) - 1n), 65);
+  data.writeBigUInt64LE(sqrtPrice >> 64n, 73);
+  new PublicKey(mintA).toBuffer().copy(data, 101);
+  new PublicKey(mintB).toBuffer().copy(data, 181);
+  return data;
+}
+
+function oracleOver(accounts: Record<string, Buffer>): OrcaPriceOracle {
+  return new OrcaPriceOracle({
+    connection: {
+      getAccountInfo: async (address: PublicKey) => {
+        const data = accounts[address.toBase58()];
+        return data ? ({ data } as AccountInfo<Buffer>) : null;
+      },
+    },
+    getDecimals: async (mint) => DECIMALS[mint] ?? 0,
+  });
+}
+
+describe("OrcaPriceOracle", () => {
+  it("prices SOL from the devnet pool's sqrt price", async () => {
+    const oracle = oracleOver({ [DEVNET_SOL_USDC]: whirlpoolData(WRAPPED_SOL_MINT, USDC, 150) });
+
+    const price = await oracle.getUsdPrice(WRAPPED_SOL_MINT);
+    expect(price.source).toBe("orca");
+    expect(price.usd).toBeCloseTo(150, 6);
+  });
+
+  it("inverts the price when the token is the pool's second mint", async () => {
+    const oracle = oracleOver({ [DEVNET_SOL_USDC]: whirlpoolData(USDC, WRAPPED_SOL_MINT, 1 / 150) });
+
+    expect((await oracle.getUsdPrice(WRAPPED_SOL_MINT)).usd).toBeCloseTo(150, 6);
+  });
+
+  it("fails when the pool account cannot be read", async () => {
+    await expect(oracleOver({}).getUsdPrice(WRAPPED_SOL_MINT)).rejects.toThrow(
+      `Orca pool ${DEVNET_SOL_USDC} is not a readable Whirlpool account`,
+    );
+  });
+
+  it("lets the USD budget price estimated fees", async () => {
+    const policy = new UsdBudgetPolicy({
+      dailyUsd: 100,
+      oracle: oracleOver({ [DEVNET_SOL_USDC]: whirlpoolData(WRAPPED_SOL_MINT, USDC, 150) }),
+    });
+    const transfer = intent({ type: "transfer", to: RECIPIENT, amount: "100000000" });
+
+    // 0.1 SOL plus the fee is about $15
+    expect((await policy.evaluate(transfer, context({ estimatedFee: 5_000n }))).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,53 @@
+// ---------------------------------------------------------------------------
+// fixtures — Intents and policy contexts for the specs. Intents are revived
+// from JSON, as they arrive over the API, so they pass the real schemas.
+// ---------------------------------------------------------------------------
+
+import { randomUUID } from "node:crypto";
+
+import type { ILogger } from "../src/core/interfaces/ILogger.js";
+import type { PolicyContext } from "../src/core/interfaces/IPolicy.js";
+import type { Intent } from "../src/core/intents/Intent.js";
+import type { PolicyDecision, PolicyDeny } from "../src/core/types/PolicyDecision.js";
+import { reviveIntent } from "../src/core/intents/Intent.js";
+
+export const AGENT = "agent-1";
+export const WALLET = "wallet-1";
+export const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+export const RECIPIENT = "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin";
+
+/** An intent from its type-specific fields; amounts may be strings */
+export function intent(fields: Record<string, unknown>): Intent {
+  return reviveIntent({
+    id: randomUUID(),
+    chain: "solana",
+    fromWalletId: WALLET,
+    createdAt: new Date().toISOString(),
+    ...fields,
+  });
+}
+
+export function context(overrides: Partial<PolicyContext> = {}): PolicyContext {
+  return {
+    agentId: AGENT,
+    walletId: WALLET,
+    balance: 10_000_000_000n,
+    evaluatedAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+/** The decision as a denial; fails the spec if the intent was allowed */
+export function denial(decision: PolicyDecision): PolicyDeny {
+  if (decision.allowed) {
+    throw new Error(`Expected ${decision.policyId} to deny the intent`);
+  }
+  return decision;
+}
+
+export const silentLogger: ILogger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+};
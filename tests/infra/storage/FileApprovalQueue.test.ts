@@ -0,0 +1,74 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { NewApprovalRequest } from "../../../src/core/interfaces/IApprovalQueue.js";
+import { FileApprovalQueue } from "../../../src/infra/storage/FileApprovalQueue.js";
+import { AGENT, WALLET } from "../../fixtures.js";
+
+function parked(intentId: string): NewApprovalRequest {
+  return {
+    intentId,
+    agentId: AGENT,
+    walletId: WALLET,
+    intent: { id: intentId, type: "transfer", amount: "1" },
+    policyId: "recipient",
+    reason: "Recipient is new and requires approval",
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+  };
+}
+
+describe("FileApprovalQueue", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "approvals-"));
+    filePath = join(dir, "approvals.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("sees requests another instance parks on the same file", async () => {
+    const server = new FileApprovalQueue(filePath);
+    const cli = new FileApprovalQueue(filePath);
+    expect(await server.list()).toEqual([]);
+
+    const request = await cli.enqueue(parked("intent-1"));
+    expect(await server.get(request.id)).toMatchObject({ intentId: "intent-1", status: "pending" });
+
+    const approved = await server.decide(request.id, { status: "approved", decidedBy: "operator" });
+    expect(approved.status).toBe("approved");
+    expect(await cli.get(request.id)).toMatchObject({ status: "approved", decidedBy: "operator" });
+  });
+
+  it("keeps the other instance's requests when writing", async () => {
+    const server = new FileApprovalQueue(filePath);
+    const cli = new FileApprovalQueue(filePath);
+    await server.list();
+
+    await Promise.all([
+      cli.enqueue(parked("intent-1")),
+      server.enqueue(parked("intent-2")),
+      cli.enqueue(parked("intent-3")),
+      server.enqueue(parked("intent-4")),
+    ]);
+
+    const intentIds = (await new FileApprovalQueue(filePath).list()).map((request) => request.intentId);
+    expect(intentIds.sort()).toEqual(["intent-1", "intent-2", "intent-3", "intent-4"]);
+    expect(await readdir(dir)).toEqual(["approvals.json"]);
+  });
+
+  it("refuses to decide a request twice across instances", async () => {
+    const first = new FileApprovalQueue(filePath);
+    const second = new FileApprovalQueue(filePath);
+    const request = await first.enqueue(parked("intent-1"));
+
+    await first.decide(request.id, { status: "rejected", decidedBy: "alice" });
+    await expect(second.decide(request.id, { status: "approved", decidedBy: "bob" }))
+      .rejects.toMatchObject({ code: "APPROVAL_NOT_PENDING" });
+  });
+});
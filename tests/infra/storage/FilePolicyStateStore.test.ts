@@ -0,0 +1,91 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { FilePolicyStateStore } from "../../../src/infra/storage/FilePolicyStateStore.js";
+import { requiresApproval } from "../../../src/core/types/PolicyDecision.js";
+import { RecipientPolicy } from "../../../src/wallet/policies/RecipientPolicy.js";
+import { SpendingLimitPolicy } from "../../../src/wallet/policies/SpendingLimitPolicy.js";
+import { RECIPIENT, context, intent } from "../../fixtures.js";
+
+describe("FilePolicyStateStore", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "policy-state-"));
+    filePath = join(dir, "policy-state.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns null for a key that was never written", async () => {
+    expect(await new FilePolicyStateStore(filePath).get("missing")).toBeNull();
+  });
+
+  it("persists state across instances", async () => {
+    await new FilePolicyStateStore(filePath).update<string[]>("paid", (paid) => [...(paid ?? []), "a"]);
+    await new FilePolicyStateStore(filePath).update<string[]>("paid", (paid) => [...(paid ?? []), "b"]);
+
+    expect(await new FilePolicyStateStore(filePath).get("paid")).toEqual(["a", "b"]);
+  });
+
+  it("keeps each key separate in the shared file", async () => {
+    const store = new FilePolicyStateStore(filePath);
+    await store.update<number>("one", () => 1);
+    await store.update<number>("two", () => 2);
+
+    const reopened = new FilePolicyStateStore(filePath);
+    expect(await reopened.get("one")).toBe(1);
+    expect(await reopened.get("two")).toBe(2);
+  });
+
+  it("loses no update when several instances write at once", async () => {
+    const stores = Array.from({ length: 4 }, () => new FilePolicyStateStore(filePath));
+    await Promise.all(
+      Array.from({ length: 40 }, (_, i) => stores[i % stores.length]?.update<number>("count", (count) => (count ?? 0) + 1)),
+    );
+
+    expect(await new FilePolicyStateStore(filePath).get("count")).toBe(40);
+    expect(await readdir(dir)).toEqual(["policy-state.json"]);
+  });
+
+  it("leaves the file untouched when an update throws", async () => {
+    const store = new FilePolicyStateStore(filePath);
+    await store.update<number>("count", () => 1);
+
+    await expect(store.update<number>("count", () => {
+      throw new Error("rejected");
+    })).rejects.toThrow("rejected");
+    expect(await store.get("count")).toBe(1);
+    expect(await readdir(dir)).toEqual(["policy-state.json"]);
+  });
+
+  it("carries committed spend across a restart", async () => {
+    const spent = intent({ type: "transfer", to: RECIPIENT, amount: "700" });
+    const before = new SpendingLimitPolicy(1_000n, 60_000, { stateStore: new FilePolicyStateStore(filePath) });
+    await before.evaluate(spent, context());
+    await before.commit(spent.id);
+
+    const after = new SpendingLimitPolicy(1_000n, 60_000, { stateStore: new FilePolicyStateStore(filePath) });
+    const retry = intent({ type: "transfer", to: RECIPIENT, amount: "400" });
+    expect((await after.evaluate(retry, context())).allowed).toBe(false);
+  });
+
+  it("remembers approve-new recipients across a restart, per agent", async () => {
+    const paid = intent({ type: "transfer", to: RECIPIENT, amount: "1" });
+    const before = new RecipientPolicy({ mode: "approve-new", stateStore: new FilePolicyStateStore(filePath) });
+    expect(requiresApproval(await before.evaluate(paid, context()))).toBe(true);
+    const approval = { approvalId: "approval-1", intentId: paid.id, approvedBy: "operator", approvedAt: new Date().toISOString() };
+    expect((await before.evaluate(paid, context({ approval }))).allowed).toBe(true);
+    await before.commit(paid.id);
+
+    const after = new RecipientPolicy({ mode: "approve-new", stateStore: new FilePolicyStateStore(filePath) });
+    const again = intent({ type: "transfer", to: RECIPIENT, amount: "1" });
+    expect((await after.evaluate(again, context())).allowed).toBe(true);
+    expect(requiresApproval(await after.evaluate(again, context({ agentId: "agent-2" })))).toBe(true);
+  });
+});
@@ -0,0 +1,44 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { FileStorage } from "../../../src/infra/storage/FileStorage.js";
+import { FilePolicyStateStore } from "../../../src/infra/storage/FilePolicyStateStore.js";
+
+describe("FileStorage", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "file-storage-"));
+    filePath = join(dir, "state.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads a missing file as null", async () => {
+    expect(await new FileStorage().read(filePath)).toBeNull();
+  });
+
+  it("round-trips what it writes", async () => {
+    const storage = new FileStorage();
+    await storage.write(filePath, { paid: ["a"] });
+    expect(await storage.read(filePath)).toEqual({ paid: ["a"] });
+  });
+
+  it("fails on a corrupt file instead of reading it as empty", async () => {
+    await writeFile(filePath, '{"spending-limit": [', "utf-8");
+    await expect(new FileStorage().read(filePath)).rejects.toThrow(/Cannot parse/);
+  });
+
+  it("leaves a corrupt state file alone rather than resetting it", async () => {
+    await writeFile(filePath, '{"spending-limit": [', "utf-8");
+    const store = new FilePolicyStateStore(filePath);
+
+    await expect(store.update<string[]>("paid", () => ["a"])).rejects.toThrow(/Cannot parse/);
+    expect(await readFile(filePath, "utf-8")).toBe('{"spending-limit": [');
+  });
+});
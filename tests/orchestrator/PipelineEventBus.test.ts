@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import type { PipelineEvent } from "../../src/core/types/PipelineEvent.js";
+import { PipelineEventBus } from "../../src/orchestrator/PipelineEventBus.js";
+import { AGENT } from "../fixtures.js";
+
+const started = (intentId: string): PipelineEvent => ({
+  type: "stage.started",
+  stage: "validation",
+  intentId,
+  agentId: AGENT,
+  timestamp: new Date().toISOString(),
+});
+
+describe("PipelineEventBus", () => {
+  it("replays an intent's events to late subscribers", () => {
+    const bus = new PipelineEventBus();
+    bus.emit(started("a"));
+    bus.emit(started("b"));
+
+    expect(bus.history("a")).toHaveLength(1);
+  });
+
+  it("keeps only the latest run of an intent", () => {
+    const bus = new PipelineEventBus();
+    bus.emit(started("a"));
+    bus.emit(started("a"));
+
+    bus.startRun("a");
+    expect(bus.history("a")).toEqual([]);
+    bus.emit(started("a"));
+    expect(bus.history("a")).toHaveLength(1);
+  });
+
+  it("evicts the oldest intent beyond the tracked limit", () => {
+    const bus = new PipelineEventBus({ maxTrackedIntents: 2 });
+    for (const intentId of ["a", "b", "c"]) bus.emit(started(intentId));
+
+    expect(bus.history("a")).toEqual([]);
+    expect(bus.history("c")).toHaveLength(1);
+  });
+});
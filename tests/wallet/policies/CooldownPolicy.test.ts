@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import { CooldownPolicy } from "../../../src/wallet/policies/CooldownPolicy.js";
+import { RECIPIENT, USDC, context, denial, intent } from "../../fixtures.js";
+
+const START = Date.parse("2024-01-01T12:00:00Z");
+const at = (offsetMs: number) => context({ evaluatedAt: new Date(START + offsetMs).toISOString() });
+const transfer = (to: string = RECIPIENT) => intent({ type: "transfer", to, amount: "1" });
+
+/** A policy whose last intent to RECIPIENT landed at START */
+async function cooledAtStart(): Promise<CooldownPolicy> {
+  const policy = new CooldownPolicy({ cooldownMs: 60_000 });
+  const first = transfer();
+  await policy.evaluate(first, at(0));
+  await policy.commit(first.id);
+  return policy;
+}
+
+describe("CooldownPolicy", () => {
+  it("blocks the same target until exactly cooldownMs has passed", async () => {
+    const policy = await cooledAtStart();
+
+    const denied = denial(await policy.evaluate(transfer(), at(59_999)));
+    expect(denied.meta).toMatchObject({ target: RECIPIENT, retryAfterMs: 1 });
+    expect((await policy.evaluate(transfer(), at(60_000))).allowed).toBe(true);
+  });
+
+  it("reports how long to wait", async () => {
+    const policy = await cooledAtStart();
+
+    const denied = denial(await policy.evaluate(transfer(), at(15_000)));
+    expect(denied.reason).toBe(`Cooldown: last intent to ${RECIPIENT} was 15s ago; retry in 45s`);
+    expect(denied.meta).toMatchObject({ lastAt: "2024-01-01T12:00:00.000Z", retryAfterMs: 45_000 });
+  });
+
+  it("blocks a target while an intent to it is in flight", async () => {
+    const policy = new CooldownPolicy({ cooldownMs: 1_000 });
+    const pending = transfer();
+    await policy.evaluate(pending, at(0));
+
+    const denied = denial(await policy.evaluate(transfer(), at(10_000)));
+    expect(denied.reason).toContain("still in flight");
+    expect(denied.meta).not.toHaveProperty("retryAfterMs");
+  });
+
+  it("starts no cooldown for a released intent", async () => {
+    const policy = new CooldownPolicy({ cooldownMs: 60_000 });
+    const failed = transfer();
+    await policy.evaluate(failed, at(0));
+    await policy.release(failed.id);
+
+    expect((await policy.evaluate(transfer(), at(1))).allowed).toBe(true);
+  });
+
+  it("cools each agent and target separately", async () => {
+    const policy = await cooledAtStart();
+
+    expect((await policy.evaluate(transfer(), context({ agentId: "agent-2", evaluatedAt: at(1).evaluatedAt }))).allowed).toBe(true);
+    expect((await policy.evaluate(transfer(USDC), at(1))).allowed).toBe(true);
+  });
+
+  it("cools down batch recipients", async () => {
+    const policy = await cooledAtStart();
+    const batch = intent({
+      type: "batch",
+      items: [
+        { type: "transfer", to: USDC, amount: "1" },
+        { type: "mint_token", mint: USDC, to: RECIPIENT, amount: "1" },
+      ],
+    });
+
+    expect(denial(await policy.evaluate(batch, at(1_000))).meta).toMatchObject({ target: RECIPIENT });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { ExpressionError } from "../../../src/core/errors/ExpressionError.js";
+import { requiresApproval } from "../../../src/core/types/PolicyDecision.js";
+import { ExpressionPolicy } from "../../../src/wallet/policies/ExpressionPolicy.js";
+import { RECIPIENT, USDC, WALLET, context, denial, intent } from "../../fixtures.js";
+
+const KNOWN = "4Nd1mBQtrMJVYVfKf2PJy9NZUZdTAsp7D4xWLs4gDB4T";
+const transfer = (amount: string, to: string = RECIPIENT, tokenMint?: string) =>
+  intent({ type: "transfer", to, amount, ...(tokenMint ? { tokenMint } : {}) });
+
+describe("ExpressionPolicy", () => {
+  it("refuses a rule comparing an intent amount of unknown token with SOL", () => {
+    const build = () => new ExpressionPolicy({
+      rules: [{ when: "intent.type == \"transfer\" && intent.amount > 1 SOL && !recipient.known" }],
+    });
+
+    expect(build).toThrow(ExpressionError);
+    expect(build).toThrow(
+      "; intent amounts are token units unless intent.tokenMint == null is checked first, " +
+        "and spend.sol holds the lamports an intent spends (at 43)",
+    );
+  });
+
+  describe("with a rule on large native transfers", () => {
+    const policy = new ExpressionPolicy({
+      rules: [{
+        name: "large-unknown",
+        when: "intent.type == \"transfer\" && intent.tokenMint == null && intent.amount > 1 SOL && !recipient.known",
+        reason: "Large transfer to an unknown recipient",
+      }],
+      knownRecipients: [KNOWN],
+      getWalletAddress: (walletId) => (walletId === WALLET ? KNOWN : undefined),
+    });
+
+    it("denies a large transfer to an unknown recipient", async () => {
+      const denied = denial(await policy.evaluate(transfer("2000000000"), context()));
+      expect(denied).toMatchObject({
+        reason: "Large transfer to an unknown recipient",
+        meta: { rule: "large-unknown", action: "deny" },
+      });
+    });
+
+    it("allows known recipients, given by address or wallet ID", async () => {
+      expect((await policy.evaluate(transfer("2000000000", KNOWN), context())).allowed).toBe(true);
+      expect((await policy.evaluate(transfer("2000000000", WALLET), context())).allowed).toBe(true);
+    });
+
+    it("allows small and token transfers", async () => {
+      expect((await policy.evaluate(transfer("1000000000"), context())).allowed).toBe(true);
+      expect((await policy.evaluate(transfer("2000000000", RECIPIENT, USDC), context())).allowed).toBe(true);
+    });
+  });
+
+  it("asks for approval, unless a human has already approved", async () => {
+    const policy = new ExpressionPolicy({
+      rules: [{ when: "spend.sol > 1 SOL", action: "approve" }],
+    });
+    const large = transfer("2000000000");
+
+    const decision = await policy.evaluate(large, context());
+    expect(requiresApproval(decision)).toBe(true);
+    expect(decision).toMatchObject({ reason: "spend.sol > 1 SOL", meta: { rule: "rule 1" } });
+
+    const approval = { approvalId: "approval-1", intentId: large.id, approvedBy: "operator", approvedAt: new Date().toISOString() };
+    expect((await policy.evaluate(large, context({ approval }))).allowed).toBe(true);
+  });
+
+  it("lets a later deny rule win over an earlier approve rule", async () => {
+    const policy = new ExpressionPolicy({
+      rules: [
+        { when: "spend.sol > 1 SOL", action: "approve" },
+        { name: "too-large", when: "spend.sol > 5 SOL" },
+      ],
+    });
+
+    expect(denial(await policy.evaluate(transfer("6000000000"), context())).meta).toMatchObject({ rule: "too-large" });
+  });
+
+  it("denies an intent when a rule fails to evaluate", async () => {
+    const policy = new ExpressionPolicy({ rules: [{ name: "broken", when: "time.hour / 0 > 1" }] });
+
+    const denied = denial(await policy.evaluate(transfer("1"), context()));
+    expect(denied.reason).toBe("Rule \"broken\" failed to evaluate: Division by zero (at 12)");
+  });
+});
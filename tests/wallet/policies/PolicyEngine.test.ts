@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+
+import type { IPolicy } from "../../../src/core/interfaces/IPolicy.js";
+import { PolicyEngine } from "../../../src/wallet/policies/PolicyEngine.js";
+import { SpendingLimitPolicy } from "../../../src/wallet/policies/SpendingLimitPolicy.js";
+import { RateLimitPolicy } from "../../../src/wallet/policies/RateLimitPolicy.js";
+import { BalanceReservePolicy } from "../../../src/wallet/policies/BalanceReservePolicy.js";
+import { InMemoryPolicyStateStore } from "../../../src/wallet/policies/InMemoryPolicyStateStore.js";
+import { RECIPIENT, context, denial, intent, silentLogger } from "../../fixtures.js";
+
+const transfer = (amount: bigint) => intent({ type: "transfer", to: RECIPIENT, amount: amount.toString() });
+
+function engineWith(...policies: IPolicy[]): PolicyEngine {
+  const engine = new PolicyEngine(silentLogger);
+  engine.load(policies);
+  return engine;
+}
+
+describe("policy reservations", () => {
+  it("counts concurrent in-flight intents against the budget", async () => {
+    const engine = engineWith(new SpendingLimitPolicy(1_000n));
+    const [first, second, third] = [transfer(400n), transfer(400n), transfer(400n)];
+
+    const decisions = await Promise.all([
+      engine.evaluateAll(first, context()),
+      engine.evaluateAll(second, context()),
+    ]);
+    expect(decisions.map((decision) => decision.allowed)).toEqual([true, true]);
+
+    const denied = denial(await engine.evaluateAll(third, context()));
+    expect(denied.policyId).toBe("spending-limit");
+    expect(denied.meta).toMatchObject({ currentSpend: "0", reservedSpend: "800" });
+  });
+
+  it("frees a released reservation and keeps a committed one", async () => {
+    const stateStore = new InMemoryPolicyStateStore();
+    const engine = engineWith(new SpendingLimitPolicy(1_000n, 60_000, { stateStore }));
+    const [landed, failed] = [transfer(600n), transfer(400n)];
+
+    await engine.evaluateAll(landed, context());
+    await engine.evaluateAll(failed, context());
+    await engine.commit(landed.id);
+    await engine.release(failed.id);
+
+    expect((await engine.evaluateAll(transfer(400n), context())).allowed).toBe(true);
+    const denied = denial(await engine.evaluateAll(transfer(1n), context()));
+    expect(denied.meta).toMatchObject({ currentSpend: "600", reservedSpend: "400" });
+  });
+
+  it("shares committed spend with another instance on the same store", async () => {
+    const stateStore = new InMemoryPolicyStateStore();
+    const before = new SpendingLimitPolicy(1_000n, 60_000, { stateStore });
+    const spent = transfer(700n);
+    await before.evaluate(spent, context());
+    await before.commit(spent.id);
+
+    const after = new SpendingLimitPolicy(1_000n, 60_000, { stateStore });
+    expect((await after.evaluate(transfer(400n), context())).allowed).toBe(false);
+    expect((await after.evaluate(transfer(300n), context())).allowed).toBe(true);
+  });
+
+  it("commits to the instances that evaluated the intent across a reload", async () => {
+    const stateStore = new InMemoryPolicyStateStore();
+    const engine = engineWith(new SpendingLimitPolicy(1_000n, 60_000, { stateStore }));
+    const inFlight = transfer(700n);
+
+    await engine.evaluateAll(inFlight, context());
+    engine.load([new SpendingLimitPolicy(1_000n, 60_000, { stateStore })]);
+    await engine.commit(inFlight.id);
+
+    const denied = denial(await engine.evaluateAll(transfer(400n), context()));
+    expect(denied.meta).toMatchObject({ currentSpend: "700" });
+  });
+
+  it("releases earlier policies' reservations when a later one denies", async () => {
+    const rateLimit = new RateLimitPolicy(1);
+    const engine = engineWith(rateLimit, new SpendingLimitPolicy(1_000n));
+
+    expect((await engine.evaluateAll(transfer(5_000n), context())).policyId).toBe("spending-limit");
+    // The denied intent did not keep the only rate-limit slot
+    expect((await engine.evaluateAll(transfer(100n), context())).allowed).toBe(true);
+  });
+
+  it("keeps each agent's reservations separate", async () => {
+    const engine = engineWith(new RateLimitPolicy(1));
+
+    expect((await engine.evaluateAll(transfer(1n), context({ agentId: "a" }))).allowed).toBe(true);
+    expect((await engine.evaluateAll(transfer(1n), context({ agentId: "b" }))).allowed).toBe(true);
+    expect((await engine.evaluateAll(transfer(1n), context({ agentId: "a" }))).allowed).toBe(false);
+  });
+});
+
+describe("on-demand context", () => {
+  it("is needed only while a policy that reads it is loaded", () => {
+    const engine = engineWith(new SpendingLimitPolicy(1_000n));
+    expect(engine.needsContext("walletRentExempt")).toBe(false);
+
+    engine.load([new SpendingLimitPolicy(1_000n)], {
+      sets: new Map([["treasury", [new BalanceReservePolicy(0n)]]]),
+      wallets: new Map(),
+      agents: new Map(),
+    });
+    expect(engine.needsContext("walletRentExempt")).toBe(true);
+  });
+});
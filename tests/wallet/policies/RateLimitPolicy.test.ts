@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { InMemoryPolicyStateStore } from "../../../src/wallet/policies/InMemoryPolicyStateStore.js";
+import { RateLimitPolicy } from "../../../src/wallet/policies/RateLimitPolicy.js";
+import { AGENT, RECIPIENT, context, denial, intent } from "../../fixtures.js";
+
+const START = Date.parse("2024-01-01T12:00:00Z");
+const transfer = () => intent({ type: "transfer", to: RECIPIENT, amount: "1" });
+
+async function land(policy: RateLimitPolicy): Promise<void> {
+  const landed = transfer();
+  expect((await policy.evaluate(landed, context())).allowed).toBe(true);
+  await policy.commit(landed.id);
+}
+
+describe("RateLimitPolicy", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts an intent until exactly windowMs after it landed", async () => {
+    const policy = new RateLimitPolicy(2, { windowMs: 10_000 });
+    await land(policy);
+    vi.setSystemTime(START + 5_000);
+    await land(policy);
+
+    vi.setSystemTime(START + 9_999);
+    const denied = denial(await policy.evaluate(transfer(), context()));
+    expect(denied.reason).toBe("Rate limit exceeded: 2/2 tx per 10s");
+    expect(denied.meta).toMatchObject({ currentRate: 2, windowMs: 10_000, retryAfterMs: 1 });
+
+    vi.setSystemTime(START + 10_000);
+    expect((await policy.evaluate(transfer(), context())).allowed).toBe(true);
+  });
+
+  it("gives no retry time while in-flight intents fill the window", async () => {
+    const policy = new RateLimitPolicy(1);
+    await policy.evaluate(transfer(), context());
+
+    const denied = denial(await policy.evaluate(transfer(), context()));
+    expect(denied.reason).toBe("Rate limit exceeded: 1/1 tx per 1m");
+    expect(denied.meta).toMatchObject({ inFlight: 1 });
+    expect(denied.meta).not.toHaveProperty("retryAfterMs");
+  });
+
+  it("reads bare timestamps persisted by an earlier version", async () => {
+    const stateStore = new InMemoryPolicyStateStore();
+    await stateStore.update("rate-limit", () => ({ [AGENT]: [START - 30_000] }));
+    const policy = new RateLimitPolicy(1, { stateStore });
+
+    expect(denial(await policy.evaluate(transfer(), context())).meta).toMatchObject({ retryAfterMs: 30_000 });
+    vi.setSystemTime(START + 30_000);
+    await land(policy);
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { InMemoryPolicyStateStore } from "../../../src/wallet/policies/InMemoryPolicyStateStore.js";
+import { SpendingLimitPolicy } from "../../../src/wallet/policies/SpendingLimitPolicy.js";
+import { NATIVE_TOKEN } from "../../../src/wallet/policies/TokenAmounts.js";
+import { AGENT, RECIPIENT, USDC, context, denial, intent } from "../../fixtures.js";
+
+const transfer = (amount: string, tokenMint?: string) =>
+  intent({ type: "transfer", to: RECIPIENT, amount, ...(tokenMint ? { tokenMint } : {}) });
+const mint = (amount: string) => intent({ type: "mint_token", mint: USDC, to: RECIPIENT, amount });
+
+describe("SpendingLimitPolicy", () => {
+  it("adds the estimated network fee to native spend", async () => {
+    const policy = new SpendingLimitPolicy(10_000n);
+
+    expect((await policy.evaluate(transfer("5000"), context({ estimatedFee: 5_000n }))).allowed).toBe(true);
+    const denied = denial(await policy.evaluate(transfer("1"), context({ estimatedFee: 0n })));
+    expect(denied.meta).toMatchObject({ token: NATIVE_TOKEN, reservedSpend: "10000", requestedAmount: "1" });
+  });
+
+  it("charges the fee of a token-only intent to the native limit", async () => {
+    const policy = new SpendingLimitPolicy(4_000n);
+
+    const denied = denial(await policy.evaluate(mint("1"), context({ estimatedFee: 5_000n })));
+    expect(denied.meta).toMatchObject({ token: NATIVE_TOKEN, requestedAmount: "5000", estimatedFee: "5000" });
+  });
+
+  it("counts minted tokens against the mint's limit", async () => {
+    const policy = new SpendingLimitPolicy(1_000_000_000n, 60_000, {
+      tokenLimits: { [USDC]: { amount: "1.5" } },
+      getDecimals: async () => 6,
+    });
+
+    expect((await policy.evaluate(mint("1000000"), context())).allowed).toBe(true);
+    const denied = denial(await policy.evaluate(transfer("600000", USDC), context()));
+    expect(denied.reason).toContain("projected 1.6 > limit 1.5");
+    expect(denied.meta).toMatchObject({ token: USDC, decimals: 6, reservedSpend: "1000000" });
+  });
+
+  it("does not let concurrent intents pass the same check while limits resolve", async () => {
+    const policy = new SpendingLimitPolicy(1_000_000n, 60_000, {
+      tokenLimits: { [USDC]: { amount: "1.5" } },
+      getDecimals: async () => 6,
+    });
+    // USDC is checked first; the fee's native limit resolves after it
+    const withFee = context({ estimatedFee: 5_000n });
+
+    const decisions = await Promise.all([
+      policy.evaluate(transfer("1000000", USDC), withFee),
+      policy.evaluate(transfer("1000000", USDC), withFee),
+    ]);
+    expect(decisions.map((decision) => decision.allowed)).toEqual([true, false]);
+  });
+
+  it("leaves tokens without a limit unchecked", async () => {
+    const policy = new SpendingLimitPolicy(1_000n);
+    expect((await policy.evaluate(mint("999999999"), context())).allowed).toBe(true);
+  });
+
+  it("denies a limited token whose decimals cannot be resolved", async () => {
+    const policy = new SpendingLimitPolicy(1_000n, 60_000, { tokenLimits: { [USDC]: { amount: "1" } } });
+
+    const denied = denial(await policy.evaluate(mint("1"), context()));
+    expect(denied.reason).toMatch(/Cannot resolve the spending limit/);
+  });
+});
+
+describe("SpendingLimitPolicy window", () => {
+  const START = Date.parse("2024-01-01T12:00:00Z");
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function land(policy: SpendingLimitPolicy, amount: string): Promise<void> {
+    const landed = transfer(amount);
+    expect((await policy.evaluate(landed, context())).allowed).toBe(true);
+    await policy.commit(landed.id);
+  }
+
+  it("slides committed spend out of the window", async () => {
+    const policy = new SpendingLimitPolicy(1_000n, 60_000);
+    await land(policy, "600");
+    vi.setSystemTime(START + 30_000);
+    await land(policy, "300");
+
+    vi.setSystemTime(START + 59_999);
+    const denied = denial(await policy.evaluate(transfer("500"), context()));
+    expect(denied.meta).toMatchObject({ currentSpend: "900", retryAfterMs: 1 });
+
+    // Only the first spend has left; the second still counts
+    vi.setSystemTime(START + 60_000);
+    expect((await policy.evaluate(transfer("700"), context())).allowed).toBe(true);
+    expect(denial(await policy.evaluate(transfer("1"), context())).meta).toMatchObject({ currentSpend: "300" });
+  });
+
+  it("gives no retry time while reserved spend alone exceeds the limit", async () => {
+    const policy = new SpendingLimitPolicy(1_000n, 60_000);
+    await policy.evaluate(transfer("900"), context());
+
+    expect(denial(await policy.evaluate(transfer("200"), context())).meta).not.toHaveProperty("retryAfterMs");
+  });
+
+  it("reads a fixed-window total persisted by an earlier version", async () => {
+    const stateStore = new InMemoryPolicyStateStore();
+    await stateStore.update("spending-limit", () => ({
+      [`${AGENT}:${NATIVE_TOKEN}`]: { totalSpent: "800", windowStart: START - 50_000 },
+    }));
+    const policy = new SpendingLimitPolicy(1_000n, 60_000, { stateStore });
+
+    expect(denial(await policy.evaluate(transfer("300"), context())).meta).toMatchObject({
+      currentSpend: "800",
+      retryAfterMs: 10_000,
+    });
+    vi.setSystemTime(START + 10_000);
+    await land(policy, "300");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  NATIVE_TOKEN,
+  WRAPPED_SOL_MINT,
+  extractSpend,
+  formatUnits,
+  parseUnits,
+} from "../../../src/wallet/policies/TokenAmounts.js";
+import { RECIPIENT, USDC, intent } from "../../fixtures.js";
+
+describe("extractSpend", () => {
+  it("counts a native transfer in lamports", () => {
+    const spend = extractSpend(intent({ type: "transfer", to: RECIPIENT, amount: "5000" }));
+    expect(spend).toEqual(new Map([[NATIVE_TOKEN, 5_000n]]));
+  });
+
+  it("counts wrapped SOL as native SOL", () => {
+    const spend = extractSpend(intent({ type: "transfer", to: RECIPIENT, amount: "5000", tokenMint: WRAPPED_SOL_MINT }));
+    expect(spend).toEqual(new Map([[NATIVE_TOKEN, 5_000n]]));
+  });
+
+  it("counts a swap's input token only", () => {
+    const spend = extractSpend(intent({
+      type: "swap",
+      poolAddress: RECIPIENT,
+      tokenInMint: USDC,
+      tokenOutMint: WRAPPED_SOL_MINT,
+      amountIn: "2500000",
+      minAmountOut: "1",
+    }));
+    expect(spend).toEqual(new Map([[USDC, 2_500_000n]]));
+  });
+
+  it("counts mint_token as spending the minted token", () => {
+    const spend = extractSpend(intent({ type: "mint_token", mint: USDC, to: RECIPIENT, amount: "750" }));
+    expect(spend).toEqual(new Map([[USDC, 750n]]));
+  });
+
+  it("sums a batch's items per token", () => {
+    const spend = extractSpend(intent({
+      type: "batch",
+      items: [
+        { type: "transfer", to: RECIPIENT, amount: "100" },
+        { type: "transfer", to: RECIPIENT, amount: "200", tokenMint: WRAPPED_SOL_MINT },
+        { type: "transfer", to: RECIPIENT, amount: "30", tokenMint: USDC },
+        { type: "mint_token", mint: USDC, to: RECIPIENT, amount: "12" },
+        { type: "memo", text: "payroll" },
+      ],
+    }));
+    expect(spend).toEqual(new Map([[NATIVE_TOKEN, 300n], [USDC, 42n]]));
+  });
+
+  it("spends nothing for intents that move no value", () => {
+    expect(extractSpend(intent({ type: "create_mint", decimals: 6 })).size).toBe(0);
+  });
+});
+
+describe("parseUnits and formatUnits", () => {
+  it("convert between human and base units", () => {
+    expect(parseUnits("1.5", 6)).toBe(1_500_000n);
+    expect(parseUnits("250", 0)).toBe(250n);
+    expect(formatUnits(1_500_000n, 6)).toBe("1.5");
+    expect(formatUnits(42n, 6)).toBe("0.000042");
+    expect(formatUnits(250n, 0)).toBe("250");
+  });
+
+  it("reject malformed or over-precise amounts", () => {
+    expect(() => parseUnits("1.2345678", 6)).toThrow(/more than 6 decimal places/);
+    expect(() => parseUnits("-1", 6)).toThrow(/not a decimal amount/);
+  });
+});
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { TokenGovernanceOptions } from "../../../src/wallet/policies/TokenGovernancePolicy.js";
+import { InMemoryPolicyStateStore } from "../../../src/wallet/policies/InMemoryPolicyStateStore.js";
+import { TokenGovernancePolicy } from "../../../src/wallet/policies/TokenGovernancePolicy.js";
+import { RECIPIENT, USDC, WALLET, context, denial, intent } from "../../fixtures.js";
+
+const START = Date.parse("2024-01-01T12:00:00Z");
+const UNCAPPED = "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263";
+const OUTSIDER = "4Nd1mBQtrMJVYVfKf2PJy9NZUZdTAsp7D4xWLs4gDB4T";
+
+/** 6-decimal mints; RECIPIENT is the managed wallet WALLET */
+function governance(options: TokenGovernanceOptions = {}): TokenGovernancePolicy {
+  return new TokenGovernancePolicy({
+    getManagedAddresses: () => [RECIPIENT],
+    getWalletAddress: (walletId) => (walletId === WALLET ? RECIPIENT : undefined),
+    getDecimals: async () => 6,
+    ...options,
+  });
+}
+
+const mint = (amount: string, tokenMint: string = USDC, to: string = RECIPIENT) =>
+  intent({ type: "mint_token", mint: tokenMint, to, amount });
+
+async function land(policy: TokenGovernancePolicy, amount: string): Promise<void> {
+  const landed = mint(amount);
+  expect((await policy.evaluate(landed, context())).allowed).toBe(true);
+  await policy.commit(landed.id);
+}
+
+describe("TokenGovernancePolicy", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("supply caps", () => {
+    it("counts committed and in-flight supply against the cap", async () => {
+      const policy = governance({ mintCaps: { [USDC]: { amount: "10" } } });
+      await land(policy, "4000000");
+      const pending = mint("5000000");
+      expect((await policy.evaluate(pending, context())).allowed).toBe(true);
+
+      const denied = denial(await policy.evaluate(mint("2000000"), context()));
+      expect(denied.reason).toBe(`Mint cap exceeded for ${USDC}: projected 11 > cap 10 in current window`);
+      expect(denied.meta).toMatchObject({ currentMinted: "4000000", reservedMinted: "5000000" });
+
+      await policy.release(pending.id);
+      expect((await policy.evaluate(mint("2000000"), context())).allowed).toBe(true);
+    });
+
+    it("counts supply across agents", async () => {
+      const policy = governance({ maxMinted: "1" });
+      await land(policy, "1000000");
+
+      expect((await policy.evaluate(mint("1"), context({ agentId: "agent-2" }))).allowed).toBe(false);
+    });
+
+    it("slides minted supply out of the window", async () => {
+      const policy = governance({ mintCaps: { [USDC]: { amount: "10", windowMs: 60_000 } } });
+      await land(policy, "6000000");
+      vi.setSystemTime(START + 30_000);
+      await land(policy, "4000000");
+
+      vi.setSystemTime(START + 59_999);
+      expect(denial(await policy.evaluate(mint("1"), context())).meta).toMatchObject({ retryAfterMs: 1 });
+
+      vi.setSystemTime(START + 60_000);
+      expect((await policy.evaluate(mint("6000000"), context())).allowed).toBe(true);
+    });
+
+    it("gives no retry time to a mint larger than the cap", async () => {
+      const policy = governance({ maxMinted: "1" });
+
+      expect(denial(await policy.evaluate(mint("1000001"), context())).meta).not.toHaveProperty("retryAfterMs");
+    });
+
+    it("sums a batch's mints and leaves uncapped mints untracked", async () => {
+      const stateStore = new InMemoryPolicyStateStore();
+      const policy = governance({ mintCaps: { [USDC]: { amount: "1" } }, stateStore });
+      const batch = intent({
+        type: "batch",
+        items: [
+          { type: "mint_token", mint: USDC, to: RECIPIENT, amount: "600000" },
+          { type: "mint_token", mint: USDC, to: WALLET, amount: "400000" },
+          { type: "mint_token", mint: UNCAPPED, to: RECIPIENT, amount: "999999999" },
+        ],
+      });
+      expect((await policy.evaluate(batch, context())).allowed).toBe(true);
+      await policy.commit(batch.id);
+
+      const state = await stateStore.get<Record<string, unknown>>("token-governance");
+      expect(Object.keys(state ?? {})).toEqual([USDC]);
+      expect((await policy.evaluate(mint("1"), context())).allowed).toBe(false);
+    });
+
+    it("reads a fixed-window total persisted by an earlier version", async () => {
+      const stateStore = new InMemoryPolicyStateStore();
+      await stateStore.update("token-governance", () => ({
+        [USDC]: { totalMinted: "1000000", windowStart: START - 3_600_000 },
+      }));
+      const policy = governance({ maxMinted: "1", stateStore });
+
+      expect(denial(await policy.evaluate(mint("1"), context())).meta).toMatchObject({
+        currentMinted: "1000000",
+        retryAfterMs: 82_800_000,
+      });
+    });
+
+    it("denies a capped mint whose decimals cannot be resolved", async () => {
+      const policy = governance({
+        maxMinted: "1",
+        getDecimals: async () => {
+          throw new Error("account not found");
+        },
+      });
+
+      expect(denial(await policy.evaluate(mint("1"), context())).reason).toBe(
+        `Cannot resolve the mint cap for ${USDC}: account not found`,
+      );
+    });
+  });
+
+  describe("authorities and destinations", () => {
+    it("only mints to managed wallets or allowlisted destinations", async () => {
+      expect((await governance().evaluate(mint("1", USDC, WALLET), context())).allowed).toBe(true);
+      expect(denial(await governance().evaluate(mint("1", USDC, OUTSIDER), context())).meta).toEqual({
+        mint: USDC,
+        destination: OUTSIDER,
+      });
+
+      const allowlisted = governance({ allowedDestinations: [OUTSIDER] });
+      expect((await allowlisted.evaluate(mint("1", USDC, OUTSIDER), context())).allowed).toBe(true);
+    });
+
+    it("only names managed wallets or allowlisted addresses as authorities", async () => {
+      const createMint = (fields: Record<string, string>) => intent({ type: "create_mint", decimals: 6, ...fields });
+
+      expect((await governance().evaluate(createMint({}), context())).allowed).toBe(true);
+      expect((await governance().evaluate(createMint({ mintAuthority: RECIPIENT }), context())).allowed).toBe(true);
+      expect(denial(await governance().evaluate(createMint({ freezeAuthority: OUTSIDER }), context())).meta).toEqual({
+        role: "freezeAuthority",
+        address: OUTSIDER,
+      });
+
+      const allowlisted = governance({ allowedAuthorities: [OUTSIDER] });
+      expect((await allowlisted.evaluate(createMint({ mintAuthority: OUTSIDER }), context())).allowed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { TradingHoursPolicy } from "../../../src/wallet/policies/TradingHoursPolicy.js";
+import { RECIPIENT, context, denial, intent } from "../../fixtures.js";
+
+const transfer = intent({ type: "transfer", to: RECIPIENT, amount: "1" });
+
+/** Whether the policy allows an intent evaluated at an ISO-8601 instant */
+async function allowsAt(policy: TradingHoursPolicy, evaluatedAt: string): Promise<boolean> {
+  return (await policy.evaluate(transfer, context({ evaluatedAt }))).allowed;
+}
+
+describe("TradingHoursPolicy", () => {
+  // 2024-01-01 is a Monday
+  const weekdays = new TradingHoursPolicy([{ days: ["mon", "tue", "wed", "thu", "fri"], start: "09:00", end: "17:00" }]);
+
+  it("opens at the start minute and closes at the end minute", async () => {
+    expect(await allowsAt(weekdays, "2024-01-01T08:59:59Z")).toBe(false);
+    expect(await allowsAt(weekdays, "2024-01-01T09:00:00Z")).toBe(true);
+    expect(await allowsAt(weekdays, "2024-01-01T16:59:59Z")).toBe(true);
+    expect(await allowsAt(weekdays, "2024-01-01T17:00:00Z")).toBe(false);
+  });
+
+  it("stays closed on days the window does not open", async () => {
+    expect(await allowsAt(weekdays, "2024-01-06T12:00:00Z")).toBe(false);
+  });
+
+  it("judges windows in the operator's timezone", async () => {
+    const newYork = new TradingHoursPolicy([{ days: ["mon"], start: "09:00", end: "17:00" }], "America/New_York");
+
+    // 09:00 in New York is 14:00 UTC in January
+    expect(await allowsAt(newYork, "2024-01-01T13:59:00Z")).toBe(false);
+    expect(await allowsAt(newYork, "2024-01-01T14:00:00Z")).toBe(true);
+    // Monday 20:00 in New York is already Tuesday in UTC
+    expect(await allowsAt(newYork, "2024-01-02T01:00:00Z")).toBe(false);
+    expect(await allowsAt(newYork, "2024-01-01T21:59:00Z")).toBe(true);
+  });
+
+  it("runs an overnight window into the morning after an opening day", async () => {
+    const overnight = new TradingHoursPolicy([{ days: ["fri"], start: "22:00", end: "02:00" }]);
+
+    expect(await allowsAt(overnight, "2024-01-05T21:59:00Z")).toBe(false);
+    expect(await allowsAt(overnight, "2024-01-05T22:00:00Z")).toBe(true);
+    expect(await allowsAt(overnight, "2024-01-06T01:59:00Z")).toBe(true);
+    expect(await allowsAt(overnight, "2024-01-06T02:00:00Z")).toBe(false);
+    // Saturday evening is not an opening day
+    expect(await allowsAt(overnight, "2024-01-06T23:00:00Z")).toBe(false);
+    // Nor is Friday morning the morning after one
+    expect(await allowsAt(overnight, "2024-01-05T01:00:00Z")).toBe(false);
+  });
+
+  it("reports the local time it judged", async () => {
+    const denied = denial(await weekdays.evaluate(transfer, context({ evaluatedAt: "2024-01-06T12:30:00Z" })));
+    expect(denied.reason).toBe("Outside trading hours: sat 12:30 UTC");
+    expect(denied.meta).toMatchObject({ localDate: "2024-01-06", localTime: "12:30" });
+  });
+});
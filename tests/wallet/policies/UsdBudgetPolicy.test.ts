@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { StaticPriceOracle } from "../../../src/infra/pricing/StaticPriceOracle.js";
+import { InMemoryPolicyStateStore } from "../../../src/wallet/policies/InMemoryPolicyStateStore.js";
+import { UsdBudgetPolicy } from "../../../src/wallet/policies/UsdBudgetPolicy.js";
+import { AGENT, RECIPIENT, context, denial, intent } from "../../fixtures.js";
+
+const HOUR_MS = 3_600_000;
+const START = Date.parse("2024-01-01T12:00:00Z");
+
+// At $100 per SOL, 0.1 SOL is $10
+const oracle = new StaticPriceOracle({ SOL: 100 });
+const tenUsd = () => intent({ type: "transfer", to: RECIPIENT, amount: "100000000" });
+
+describe("UsdBudgetPolicy", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function land(policy: UsdBudgetPolicy): Promise<void> {
+    const landed = tenUsd();
+    expect((await policy.evaluate(landed, context())).allowed).toBe(true);
+    await policy.commit(landed.id);
+  }
+
+  it("counts committed and reserved spend against the cap", async () => {
+    const policy = new UsdBudgetPolicy({ dailyUsd: 25, oracle });
+    await land(policy);
+    expect((await policy.evaluate(tenUsd(), context())).allowed).toBe(true);
+
+    const denied = denial(await policy.evaluate(tenUsd(), context()));
+    expect(denied.reason).toBe("USD daily budget exceeded: projected $30.00 > cap $25.00");
+    expect(denied.meta).toMatchObject({ spentUsd: 10, reservedUsd: 10, requestedUsd: 10 });
+  });
+
+  it("slides spend out of each window separately", async () => {
+    const policy = new UsdBudgetPolicy({ dailyUsd: 10, weeklyUsd: 20, oracle });
+    await land(policy);
+
+    vi.setSystemTime(START + 24 * HOUR_MS + 1);
+    await land(policy);
+
+    vi.setSystemTime(START + 48 * HOUR_MS + 1);
+    const denied = denial(await policy.evaluate(tenUsd(), context()));
+    expect(denied.meta).toMatchObject({ window: "weekly", spentUsd: 20 });
+  });
+
+  it("reads spend persisted before it was kept as window events", async () => {
+    const stateStore = new InMemoryPolicyStateStore();
+    await stateStore.update("usd-budget", () => ({ [AGENT]: [{ at: START - HOUR_MS, usd: 15 }] }));
+    const policy = new UsdBudgetPolicy({ dailyUsd: 30, oracle, stateStore });
+
+    await land(policy);
+    const denied = denial(await policy.evaluate(tenUsd(), context()));
+    expect(denied.meta).toMatchObject({ spentUsd: 25 });
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { VelocityRule } from "../../../src/wallet/policies/VelocityPolicy.js";
+import { VelocityPolicy } from "../../../src/wallet/policies/VelocityPolicy.js";
+import { RECIPIENT, context, denial, intent } from "../../fixtures.js";
+
+const START = Date.parse("2024-01-01T12:00:00Z");
+const transfer = (lamports: bigint = 1n) =>
+  intent({ type: "transfer", to: RECIPIENT, amount: lamports.toString() });
+
+/** Evaluate and commit an intent at the current fake time */
+async function land(policy: VelocityPolicy, lamports: bigint = 1n, overrides = {}): Promise<void> {
+  const landed = transfer(lamports);
+  expect((await policy.evaluate(landed, context(overrides))).allowed).toBe(true);
+  await policy.commit(landed.id);
+}
+
+describe("VelocityPolicy", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const policyWith = (...rules: VelocityRule[]) => new VelocityPolicy({ rules });
+
+  it("counts an intent until exactly windowMs after it landed", async () => {
+    const policy = policyWith({ per: "agent", window: "minute", maxTx: 1 });
+    await land(policy);
+
+    vi.setSystemTime(START + 59_999);
+    const denied = denial(await policy.evaluate(transfer(), context()));
+    expect(denied.meta).toMatchObject({ used: 1, limit: 1, retryAfterMs: 1 });
+
+    vi.setSystemTime(START + 60_000);
+    expect((await policy.evaluate(transfer(), context())).allowed).toBe(true);
+  });
+
+  it("frees a budget gradually as intents slide out", async () => {
+    const policy = policyWith({ per: "agent", window: 10_000, maxTx: 2 });
+    await land(policy);
+    vi.setSystemTime(START + 4_000);
+    await land(policy);
+
+    vi.setSystemTime(START + 9_000);
+    expect(denial(await policy.evaluate(transfer(), context())).meta).toMatchObject({ retryAfterMs: 1_000 });
+
+    // The first intent has left the window; the second still counts
+    vi.setSystemTime(START + 10_000);
+    await land(policy);
+    expect(denial(await policy.evaluate(transfer(), context())).meta).toMatchObject({ retryAfterMs: 4_000 });
+  });
+
+  it("caps the amount spent, with the network fee, in human units", async () => {
+    const policy = policyWith({ per: "wallet", window: "hour", maxAmount: "1" });
+    await land(policy, 600_000_000n);
+
+    vi.setSystemTime(START + 1_000);
+    const denied = denial(await policy.evaluate(transfer(399_999_000n), context({ estimatedFee: 5_000n })));
+    expect(denied.reason).toBe(
+      "Velocity limit exceeded (1 SOL/hour per wallet): 0.6 used + 0.400004 requested > 1",
+    );
+    expect(denied.meta).toMatchObject({ token: "SOL", retryAfterMs: 3_599_000 });
+    expect((await policy.evaluate(transfer(399_999_000n), context({ estimatedFee: 1_000n }))).allowed).toBe(true);
+  });
+
+  it("gives no retry time to an intent that never fits", async () => {
+    const policy = policyWith({ per: "agent", window: "day", maxAmount: "1" });
+
+    expect(denial(await policy.evaluate(transfer(2_000_000_000n), context())).meta).not.toHaveProperty("retryAfterMs");
+  });
+
+  it("counts each dimension under its own key", async () => {
+    const policy = policyWith(
+      { per: "agent", window: "minute", maxTx: 1 },
+      { per: "global", window: "minute", maxTx: 2 },
+    );
+    await land(policy, 1n, { agentId: "a" });
+
+    expect(denial(await policy.evaluate(transfer(), context({ agentId: "a" }))).meta).toMatchObject({ per: "agent" });
+    await land(policy, 1n, { agentId: "b" });
+    expect(denial(await policy.evaluate(transfer(), context({ agentId: "c" }))).meta).toMatchObject({ per: "global" });
+  });
+
+  it("counts in-flight intents and forgets released ones", async () => {
+    const policy = policyWith({ per: "agent", window: "minute", maxTx: 1 });
+    const pending = transfer();
+    await policy.evaluate(pending, context());
+
+    expect((await policy.evaluate(transfer(), context())).allowed).toBe(false);
+    await policy.release(pending.id);
+    expect((await policy.evaluate(transfer(), context())).allowed).toBe(true);
+  });
+});
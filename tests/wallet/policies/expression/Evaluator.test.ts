@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+
+import type { PolicyContext } from "../../../../src/core/interfaces/IPolicy.js";
+import type { Intent } from "../../../../src/core/intents/Intent.js";
+import { ExpressionError } from "../../../../src/core/errors/ExpressionError.js";
+import { compileExpression, testExpression } from "../../../../src/wallet/policies/expression/Expression.js";
+import { buildScope } from "../../../../src/wallet/policies/expression/Scope.js";
+import { extractRecipients } from "../../../../src/wallet/policies/RecipientPolicy.js";
+import { RECIPIENT, USDC, WALLET, context, intent } from "../../../fixtures.js";
+
+const KNOWN = "4Nd1mBQtrMJVYVfKf2PJy9NZUZdTAsp7D4xWLs4gDB4T";
+
+/** Whether `source` holds for an intent, scoped as ExpressionPolicy scopes it */
+function holds(source: string, subject: Intent, overrides: Partial<PolicyContext> = {}, timeZone = "UTC"): boolean {
+  const scope = buildScope({
+    intent: subject,
+    context: context(overrides),
+    recipients: extractRecipients(subject),
+    isKnown: (address) => address === KNOWN,
+    isManaged: () => false,
+    timeZone,
+  });
+  return testExpression(compileExpression(source), scope);
+}
+
+const transfer = (amount: string, to: string = RECIPIENT, tokenMint?: string) =>
+  intent({ type: "transfer", to, amount, ...(tokenMint ? { tokenMint } : {}) });
+const swap = intent({
+  type: "swap",
+  poolAddress: RECIPIENT,
+  tokenInMint: USDC,
+  tokenOutMint: KNOWN,
+  amountIn: "2000000000",
+  minAmountOut: "1",
+});
+
+describe("evaluate", () => {
+  describe("large native transfers to unknown recipients", () => {
+    const rule = "intent.type == \"transfer\" && intent.tokenMint == null && intent.amount > 1 SOL && !recipient.known";
+
+    it("holds for more than 1 SOL to an unknown recipient", () => {
+      expect(holds(rule, transfer("1000000001"))).toBe(true);
+    });
+
+    it("does not hold at exactly 1 SOL, for a known recipient, or for tokens", () => {
+      expect(holds(rule, transfer("1000000000"))).toBe(false);
+      expect(holds(rule, transfer("2000000000", KNOWN))).toBe(false);
+      expect(holds(rule, transfer("2000000000", RECIPIENT, USDC))).toBe(false);
+    });
+
+    it("short-circuits before reading fields other intent types lack", () => {
+      expect(holds(rule, swap)).toBe(false);
+      expect(holds(rule, intent({ type: "create_mint", decimals: 6 }))).toBe(false);
+    });
+  });
+
+  it("compares token amounts in base units", () => {
+    const rule = "intent.type == \"swap\" && intent.amountIn >= 2_000_000_000 units";
+    expect(holds(rule, swap)).toBe(true);
+    expect(holds("intent.type == \"transfer\" && intent.amount > 1_500 units", transfer("1500", RECIPIENT, USDC))).toBe(false);
+  });
+
+  it("reads what an intent spends in lamports, batch items included", () => {
+    const batch = intent({
+      type: "batch",
+      items: [
+        { type: "transfer", to: RECIPIENT, amount: "700000000" },
+        { type: "transfer", to: KNOWN, amount: "800000000" },
+        { type: "transfer", to: KNOWN, amount: "5000000000", tokenMint: USDC },
+      ],
+    });
+    expect(holds("spend.sol == 1.5 SOL && recipient.count == 2 && recipient.address == null", batch)).toBe(true);
+    expect(holds("spend.sol == 0 lamports", swap)).toBe(true);
+  });
+
+  it("does arithmetic on amounts of the same unit", () => {
+    const rule = "spend.sol + context.estimatedFee > context.balance - 1 SOL";
+    expect(holds(rule, transfer("1000000000"), { balance: 2_000_000_000n, estimatedFee: 5_000n })).toBe(true);
+    expect(holds(rule, transfer("1000000000"), { balance: 2_000_000_000n, estimatedFee: 0n })).toBe(false);
+  });
+
+  it("reads the recipient and the context", () => {
+    expect(holds(`recipient.address == "${KNOWN}" && recipient.known`, transfer("1", KNOWN))).toBe(true);
+    expect(holds(`context.walletId == "${WALLET}" && context.agentId in ["agent-1", "agent-2"]`, transfer("1"))).toBe(true);
+    expect(holds("context.agentId not in [\"agent-1\"]", transfer("1"))).toBe(false);
+  });
+
+  it("reads the time in the policy's timezone", () => {
+    const evaluatedAt = "2024-01-01T02:30:00Z"; // Sunday evening in New York
+    const rule = "time.weekday == \"sun\" && time.hour == 21 && time.minute == 30 && time.date == \"2023-12-31\"";
+    expect(holds(rule, transfer("1"), { evaluatedAt }, "America/New_York")).toBe(true);
+    expect(holds(rule, transfer("1"), { evaluatedAt })).toBe(false);
+  });
+
+  it("throws a runtime error on division by zero", () => {
+    try {
+      holds("time.hour / 0 > 1", transfer("1"));
+      expect.unreachable("division by zero should throw");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ExpressionError);
+      expect(error).toMatchObject({ code: "EXPRESSION_RUNTIME", position: 12 });
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+
+import { ExpressionError } from "../../../../src/core/errors/ExpressionError.js";
+import { MAX_EXPRESSION_LENGTH, parseExpression } from "../../../../src/wallet/policies/expression/Parser.js";
+
+/** The ExpressionError parsing `source` throws */
+function syntaxError(source: string): ExpressionError {
+  try {
+    parseExpression(source);
+  } catch (error) {
+    if (error instanceof ExpressionError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${source}" not to parse`);
+}
+
+describe("parseExpression", () => {
+  describe("precedence", () => {
+    it("binds && tighter than ||", () => {
+      expect(parseExpression("a.x || b.x && c.x")).toMatchObject({
+        operator: "||",
+        left: { kind: "path", path: ["a", "x"] },
+        right: { operator: "&&" },
+      });
+    });
+
+    it("binds comparisons tighter than equality, and equality tighter than &&", () => {
+      expect(parseExpression("a.x < 1 == true && b.x")).toMatchObject({
+        operator: "&&",
+        left: { operator: "==", left: { operator: "<" }, right: { kind: "literal", value: true } },
+      });
+    });
+
+    it("binds * and / tighter than + and -, left to right", () => {
+      expect(parseExpression("1 - 2 + 3 * 4 / 5")).toMatchObject({
+        operator: "+",
+        left: { operator: "-", left: { value: 1 }, right: { value: 2 } },
+        right: { operator: "/", left: { operator: "*" }, right: { value: 5 } },
+      });
+    });
+
+    it("binds unary operators tightest and lets parentheses override", () => {
+      expect(parseExpression("!a.x == b.x")).toMatchObject({
+        operator: "==",
+        left: { kind: "unary", operator: "!", operand: { kind: "path" } },
+      });
+      expect(parseExpression("(1 + 2) * 3")).toMatchObject({
+        operator: "*",
+        left: { operator: "+" },
+      });
+    });
+
+    it("parses in and not in at comparison level", () => {
+      expect(parseExpression("intent.type not in [\"swap\", \"batch\"] && true")).toMatchObject({
+        operator: "&&",
+        left: { kind: "in", negated: true, list: { items: [{ value: "swap" }, { value: "batch" }] } },
+      });
+    });
+  });
+
+  it("refuses chained comparisons", () => {
+    for (const source of ["1 < 2 < 3", "a.x <= b.x > c.x", "a.x in [1] < 2"]) {
+      const error = syntaxError(source);
+      expect(error.code).toBe("EXPRESSION_SYNTAX");
+      expect(error.message).toContain("Comparisons cannot be chained; join them with &&");
+    }
+    expect(syntaxError("1 < 2 < 3").position).toBe(6);
+  });
+
+  describe("numbers and amounts", () => {
+    it("accepts _ as a digit separator", () => {
+      expect(parseExpression("1_000_000")).toMatchObject({ kind: "literal", value: 1_000_000 });
+      expect(parseExpression("1_000.000_5")).toMatchObject({ value: 1000.0005 });
+      expect(parseExpression("5_000 lamports")).toMatchObject({ kind: "amount", value: 5_000n });
+    });
+
+    it("refuses misplaced separators", () => {
+      for (const source of ["1_", "1_.5", "1_000_ SOL"]) {
+        expect(syntaxError(source).message).toContain("Malformed number");
+      }
+      expect(syntaxError("1._5").code).toBe("EXPRESSION_SYNTAX");
+    });
+
+    it("reads SOL amounts in lamports", () => {
+      expect(parseExpression("1.5 SOL")).toEqual({ kind: "amount", value: 1_500_000_000n, unit: "lamports", position: 0 });
+      expect(parseExpression("0.000000001 SOL")).toMatchObject({ value: 1n, unit: "lamports" });
+      expect(syntaxError("0.0000000001 SOL").message).toContain("more than 9 decimal places");
+    });
+
+    it("reads lamports and units as whole base units of distinct types", () => {
+      expect(parseExpression("5000 lamports")).toMatchObject({ value: 5_000n, unit: "lamports" });
+      expect(parseExpression("100 units")).toMatchObject({ value: 100n, unit: "units" });
+      expect(syntaxError("1.5 units").message).toContain("Amounts in units must be whole numbers");
+      expect(syntaxError("1.5 lamports").message).toContain("Amounts in lamports must be whole numbers");
+    });
+  });
+
+  describe("limits", () => {
+    it("accepts sources up to MAX_EXPRESSION_LENGTH characters", () => {
+      const longest = `${" ".repeat(MAX_EXPRESSION_LENGTH - 4)}true`;
+      expect(parseExpression(longest)).toMatchObject({ value: true });
+
+      const error = syntaxError(`${longest} `);
+      expect(error.message).toContain(`longer than ${MAX_EXPRESSION_LENGTH} characters`);
+    });
+
+    it("refuses nesting deep enough to exhaust the stack", () => {
+      expect(parseExpression(`${"(".repeat(60)}1${")".repeat(60)}`)).toMatchObject({ value: 1 });
+      expect(syntaxError(`${"(".repeat(100)}1${")".repeat(100)}`).message).toContain("nested deeper than 64 levels");
+      expect(syntaxError(`${"!".repeat(100)}true`).message).toContain("nested deeper than 64 levels");
+    });
+  });
+
+  describe("syntax errors", () => {
+    it("point at the offending token", () => {
+      expect(syntaxError("a.x &&").message).toBe("Unexpected end of expression (at 6)");
+      expect(syntaxError("a.x # 1")).toMatchObject({ code: "EXPRESSION_SYNTAX", position: 4 });
+      expect(syntaxError("\"open").message).toBe("Unterminated string (at 0)");
+      expect(syntaxError("a.x not [1]").message).toContain("Expected \"in\" but found \"[\"");
+      expect(syntaxError("(1 + 2").message).toContain("Expected \")\" but found end of expression");
+    });
+
+    it("refuses keywords as variables", () => {
+      expect(syntaxError("in.x").message).toContain("Unexpected \"in\"");
+    });
+  });
+});
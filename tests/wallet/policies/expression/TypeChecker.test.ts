@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+
+import { ExpressionError } from "../../../../src/core/errors/ExpressionError.js";
+import { compileExpression } from "../../../../src/wallet/policies/expression/Expression.js";
+
+/** The message of the type error compiling `source` throws */
+function typeError(source: string): string {
+  try {
+    compileExpression(source);
+  } catch (error) {
+    if (error instanceof ExpressionError && error.code === "EXPRESSION_TYPE") return error.message;
+    throw error;
+  }
+  throw new Error(`Expected "${source}" not to type-check`);
+}
+
+const compiles = (source: string) => () => compileExpression(source);
+
+describe("checkCondition", () => {
+  describe("unknown names", () => {
+    it("catches misspelt intent fields", () => {
+      expect(typeError("intent.amout > 1 units")).toBe("Intents have no field \"amout\" (at 0)");
+    });
+
+    it("catches misspelt namespaces and variables, listing what exists", () => {
+      expect(typeError("recipent.known")).toContain("Unknown namespace \"recipent\"; expected one of: intent, recipient, context, spend, time");
+      expect(typeError("context.balanse > 1 SOL")).toContain("Unknown variable \"context.balanse\"; context has: agentId, walletId, balance, estimatedFee");
+      expect(typeError("recipient.known.yes")).toContain("variables are namespace.field");
+    });
+
+    it("catches misspelt intent types", () => {
+      expect(typeError("intent.type == \"tranfser\"")).toContain("Unknown intent type \"tranfser\"; expected one of: transfer, swap");
+      expect(typeError("intent.type in [\"swap\", \"mint\"]")).toContain("Unknown intent type \"mint\"");
+    });
+
+    it("refuses fields that are not plain values", () => {
+      expect(typeError("intent.items == null")).toContain("\"intent.items\" is not a value expressions can use");
+    });
+  });
+
+  describe("narrowing on intent.type", () => {
+    it("refuses a field some intent types lack", () => {
+      expect(typeError("intent.amount > 100 units")).toContain(
+        "\"intent.amount\" does not exist on swap, create_mint, batch intents; check intent.type first",
+      );
+    });
+
+    it("accepts the field once intent.type rules those types out", () => {
+      expect(compiles("intent.type == \"transfer\" && intent.amount > 100 units")).not.toThrow();
+      expect(compiles("\"swap\" == intent.type && intent.amountIn >= 1 units")).not.toThrow();
+      expect(compiles("intent.type in [\"transfer\", \"mint_token\"] && intent.amount > 100 units")).not.toThrow();
+      expect(compiles("(intent.type == \"transfer\" && true) && intent.amount > 100 units")).not.toThrow();
+      expect(compiles("intent.type not in [\"swap\", \"create_mint\", \"batch\"] && intent.amount > 1 units")).not.toThrow();
+    });
+
+    it("narrows only what the condition guarantees", () => {
+      expect(typeError("intent.type != \"swap\" && intent.amount > 1 units")).toContain("does not exist on create_mint, batch intents");
+      expect(typeError("intent.type in [\"transfer\", \"swap\"] && intent.amount > 1 units")).toContain("does not exist on swap intents");
+      // || gives the right side nothing to rely on
+      expect(typeError("intent.type == \"transfer\" || intent.amount > 1 units")).toContain("check intent.type first");
+      expect(compiles(
+        "(intent.type == \"transfer\" || intent.type == \"mint_token\") && intent.amount > 1 units",
+      )).not.toThrow();
+    });
+
+    it("lets optional fields be compared with null but not ordered", () => {
+      expect(compiles("intent.type == \"transfer\" && intent.tokenMint != null")).not.toThrow();
+      expect(compiles("recipient.address == null")).not.toThrow();
+      expect(typeError("intent.decimals > 6")).toContain("\"intent.decimals\" does not exist on transfer, swap, mint_token, batch intents");
+    });
+  });
+
+  describe("amounts", () => {
+    const hint = "intent amounts are token units unless intent.tokenMint == null is checked first";
+
+    it("keeps lamports and token units apart", () => {
+      expect(typeError("intent.type == \"transfer\" && intent.amount > 1 SOL")).toContain(
+        `">" compares two numbers or two amounts of the same unit, not a token amount and a SOL amount; ${hint}`,
+      );
+      expect(typeError("spend.sol > 100 units")).toContain(hint);
+    });
+
+    it("types native transfer amounts as lamports after intent.tokenMint == null", () => {
+      expect(compiles("intent.type == \"transfer\" && intent.tokenMint == null && intent.amount > 1 SOL")).not.toThrow();
+      expect(compiles("intent.type == \"transfer\" && null == intent.tokenMint && intent.amount + context.estimatedFee > context.balance")).not.toThrow();
+      // Only the native check narrows; a mint check leaves token units
+      expect(typeError("intent.type == \"transfer\" && intent.tokenMint != null && intent.amount > 1 SOL")).toContain(hint);
+    });
+
+    it("asks for a unit on bare numbers", () => {
+      expect(typeError("spend.sol > 1")).toContain("write amounts with a unit, e.g. 1 SOL, 5000 lamports or 100 units");
+    });
+
+    it("refuses multiplying amounts", () => {
+      expect(typeError("spend.sol * 2 > 1 SOL")).toContain("\"*\" applies to numbers, not a SOL amount");
+    });
+  });
+
+  it("requires a rule to be a condition", () => {
+    expect(typeError("spend.sol")).toContain("A rule must be a condition, but this is a SOL amount");
+    expect(typeError("recipient.address")).toContain("but this is a string or null");
+    expect(typeError("!time.hour")).toContain("\"!\" applies to conditions, not a number");
+    expect(typeError("time.hour == \"9\"")).toContain("Cannot compare a number with a string");
+  });
+});